@@ -1,4 +1,5 @@
-﻿import bcrypt from "bcryptjs";
+﻿import crypto from "node:crypto";
+import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { config } from "./config.js";
 
@@ -6,6 +7,7 @@ export type AuthRole = "USER" | "ADMIN";
 
 export type AuthTokenPayload = {
   sub: number;
+  sid: number;
   email: string;
   role: AuthRole;
 };
@@ -19,7 +21,15 @@ export async function verifyPassword(password: string, hash: string) {
 }
 
 export function signAccessToken(payload: AuthTokenPayload) {
-  return jwt.sign(payload, config.jwtSecret, { expiresIn: "14d" });
+  return jwt.sign(payload, config.jwtSecret, { expiresIn: config.accessTokenTtlSeconds });
+}
+
+export function generateOpaqueToken() {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function hashOpaqueToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
 }
 
 export function verifyAccessToken(token: string): AuthTokenPayload | null {
@@ -28,11 +38,12 @@ export function verifyAccessToken(token: string): AuthTokenPayload | null {
     if (typeof decoded !== "object" || !decoded) return null;
 
     const payload = decoded as Partial<AuthTokenPayload>;
-    if (!payload.sub || !payload.email || !payload.role) return null;
+    if (!payload.sub || !payload.sid || !payload.email || !payload.role) return null;
     if (payload.role !== "USER" && payload.role !== "ADMIN") return null;
 
     return {
       sub: Number(payload.sub),
+      sid: Number(payload.sid),
       email: String(payload.email),
       role: payload.role
     };
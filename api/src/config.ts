@@ -6,6 +6,35 @@ export const config = {
   apiPort: Number(process.env.API_PORT ?? 4000),
   corsOrigins: (process.env.CORS_ORIGIN ?? "*").split(",").map((v) => v.trim()),
   jwtSecret: process.env.JWT_SECRET ?? "dev-secret-change-me",
+  accessTokenTtlSeconds: Number(process.env.ACCESS_TOKEN_TTL_SECONDS ?? 15 * 60),
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30),
+  emailVerificationTtlHours: Number(process.env.EMAIL_VERIFICATION_TTL_HOURS ?? 48),
+  passwordResetTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 60),
   adminApiKey: process.env.ADMIN_API_KEY ?? "dev-admin-key",
-  defaultTimezone: process.env.DEFAULT_TIMEZONE ?? "Asia/Seoul"
+  defaultTimezone: process.env.DEFAULT_TIMEZONE ?? "Asia/Seoul",
+  vapidPublicKey: process.env.VAPID_PUBLIC_KEY ?? "",
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY ?? "",
+  vapidSubject: process.env.VAPID_SUBJECT ?? "mailto:admin@subculture.local",
+  appBaseUrl: process.env.APP_BASE_URL ?? "http://localhost:5173",
+  mailTransport: process.env.MAIL_TRANSPORT ?? "console",
+  mailFrom: process.env.MAIL_FROM ?? "Subculture Hub <no-reply@subculture.local>",
+  mailFileDir: process.env.MAIL_FILE_DIR ?? "mail-outbox",
+  smtpUrl: process.env.SMTP_URL ?? "",
+  notificationMaxAttempts: Number(process.env.NOTIFICATION_MAX_ATTEMPTS ?? 5),
+  notificationRetryBaseSeconds: Number(process.env.NOTIFICATION_RETRY_BASE_SECONDS ?? 60),
+  notificationRetryMaxSeconds: Number(process.env.NOTIFICATION_RETRY_MAX_SECONDS ?? 6 * 60 * 60),
+  notificationProcessingTimeoutSeconds: Number(process.env.NOTIFICATION_PROCESSING_TIMEOUT_SECONDS ?? 10 * 60),
+  httpFixturesMode: (process.env.HTTP_FIXTURES ?? "off") as "off" | "record" | "replay",
+  httpFixturesDir: process.env.HTTP_FIXTURES_DIR ?? "src/tests/fixtures/http",
+  httpHostConcurrency: Number(process.env.HTTP_HOST_CONCURRENCY ?? 2),
+  httpHostMinIntervalMs: Number(process.env.HTTP_HOST_MIN_INTERVAL_MS ?? 500),
+  httpMaxRetryAfterSeconds: Number(process.env.HTTP_MAX_RETRY_AFTER_SECONDS ?? 60),
+  crawlerUserAgent: process.env.CRAWLER_USER_AGENT ?? "SubcultureHubBot/0.1 (+https://example.local)",
+  robotsCacheTtlMinutes: Number(process.env.ROBOTS_CACHE_TTL_MINUTES ?? 60),
+  robotsFailureCacheTtlSeconds: Number(process.env.ROBOTS_FAILURE_CACHE_TTL_SECONDS ?? 5 * 60),
+  sourceMaxConsecutiveFailures: Number(process.env.SOURCE_MAX_CONSECUTIVE_FAILURES ?? 8),
+  sourceMaxBackoffMinutes: Number(process.env.SOURCE_MAX_BACKOFF_MINUTES ?? 24 * 60),
+  imageCacheDir: process.env.IMAGE_CACHE_DIR ?? "image-cache",
+  imageCacheRefreshHours: Number(process.env.IMAGE_CACHE_REFRESH_HOURS ?? 24),
+  imageMaxBytes: Number(process.env.IMAGE_MAX_BYTES ?? 8 * 1024 * 1024)
 };
@@ -0,0 +1,5 @@
+﻿ALTER TABLE sources
+  DROP CONSTRAINT IF EXISTS sources_type_check;
+
+ALTER TABLE sources
+  ADD CONSTRAINT sources_type_check CHECK (type IN ('RSS', 'HTML_LIST', 'HTML_DETAIL', 'API', 'ADAPTER'));
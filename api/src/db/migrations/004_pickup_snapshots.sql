@@ -0,0 +1,25 @@
+﻿CREATE TABLE IF NOT EXISTS pickup_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  snapshot_date DATE NOT NULL UNIQUE,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  item_count INT NOT NULL DEFAULT 0,
+  failures JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pickup_snapshot_items (
+  id BIGSERIAL PRIMARY KEY,
+  snapshot_id BIGINT NOT NULL REFERENCES pickup_snapshots(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  game TEXT NOT NULL,
+  region TEXT NOT NULL,
+  title TEXT NOT NULL,
+  start_at_utc TIMESTAMPTZ,
+  end_at_utc TIMESTAMPTZ,
+  source_url TEXT NOT NULL,
+  image_url TEXT,
+  note TEXT,
+  UNIQUE (snapshot_id, game, source_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pickup_snapshot_items_snapshot ON pickup_snapshot_items(snapshot_id, position);
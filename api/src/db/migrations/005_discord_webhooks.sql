@@ -0,0 +1,13 @@
+﻿CREATE TABLE IF NOT EXISTS user_discord_webhooks (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label TEXT,
+  webhook_url TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_used_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, webhook_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_discord_webhooks_user ON user_discord_webhooks(user_id, enabled);
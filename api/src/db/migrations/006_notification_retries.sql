@@ -0,0 +1,18 @@
+﻿ALTER TABLE notification_schedules
+  ADD COLUMN IF NOT EXISTS attempt_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+ALTER TABLE notification_schedules
+  DROP CONSTRAINT IF EXISTS notification_schedules_status_check;
+
+ALTER TABLE notification_schedules
+  ADD CONSTRAINT notification_schedules_status_check
+  CHECK (status IN ('PENDING', 'PROCESSING', 'SENT', 'FAILED', 'DEAD', 'CANCELED'));
+
+ALTER TABLE notification_deliveries
+  ADD COLUMN IF NOT EXISTS attempt INT NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_notification_schedules_retry ON notification_schedules(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notification_schedules_processing ON notification_schedules(status, processing_started_at);
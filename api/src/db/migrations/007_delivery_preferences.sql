@@ -0,0 +1,35 @@
+﻿ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS quiet_hours_start SMALLINT,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end SMALLINT,
+  ADD COLUMN IF NOT EXISTS digest_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS digest_window_minutes INT NOT NULL DEFAULT 60;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'users_quiet_hours_check'
+  ) THEN
+    ALTER TABLE users
+      ADD CONSTRAINT users_quiet_hours_check
+      CHECK (
+        (quiet_hours_start IS NULL AND quiet_hours_end IS NULL)
+        OR (
+          quiet_hours_start BETWEEN 0 AND 1439
+          AND quiet_hours_end BETWEEN 0 AND 1439
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'users_digest_window_check'
+  ) THEN
+    ALTER TABLE users
+      ADD CONSTRAINT users_digest_window_check
+      CHECK (digest_window_minutes BETWEEN 15 AND 1440);
+  END IF;
+END
+$$;
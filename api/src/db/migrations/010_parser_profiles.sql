@@ -0,0 +1,20 @@
+﻿CREATE TABLE IF NOT EXISTS parser_profiles (
+  id BIGSERIAL PRIMARY KEY,
+  game_id BIGINT REFERENCES games(id) ON DELETE CASCADE,
+  source_id BIGINT REFERENCES sources(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((game_id IS NULL) <> (source_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_parser_profiles_game ON parser_profiles(game_id) WHERE game_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_parser_profiles_source ON parser_profiles(source_id) WHERE source_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS trg_parser_profiles_updated_at ON parser_profiles;
+CREATE TRIGGER trg_parser_profiles_updated_at
+BEFORE UPDATE ON parser_profiles
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
@@ -0,0 +1,31 @@
+﻿CREATE TABLE IF NOT EXISTS reparse_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'QUEUED' CHECK (status IN ('QUEUED', 'RUNNING', 'COMPLETED', 'CANCELLED')),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total_count INT NOT NULL DEFAULT 0,
+  processed_count INT NOT NULL DEFAULT 0,
+  changed_count INT NOT NULL DEFAULT 0,
+  error_count INT NOT NULL DEFAULT 0,
+  cursor_raw_notice_id BIGINT NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  ingest_run_id BIGINT REFERENCES ingest_runs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_reparse_jobs_status ON reparse_jobs(status, created_at);
+
+CREATE TABLE IF NOT EXISTS reparse_job_changes (
+  id BIGSERIAL PRIMARY KEY,
+  job_id BIGINT NOT NULL REFERENCES reparse_jobs(id) ON DELETE CASCADE,
+  raw_notice_id BIGINT NOT NULL REFERENCES raw_notices(id) ON DELETE CASCADE,
+  event_id BIGINT REFERENCES events(id) ON DELETE SET NULL,
+  changes TEXT[] NOT NULL,
+  before_snapshot JSONB,
+  after_snapshot JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reparse_job_changes_job ON reparse_job_changes(job_id, id);
@@ -0,0 +1,16 @@
+﻿ALTER TABLE sources ADD COLUMN IF NOT EXISTS consecutive_failures INT NOT NULL DEFAULT 0;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS next_fetch_at TIMESTAMPTZ;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ingest_runs_source_started ON ingest_runs(source_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS admin_alerts (
+  id BIGSERIAL PRIMARY KEY,
+  source_id BIGINT REFERENCES sources(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('SOURCE_FAILING', 'SOURCE_EMPTY', 'SOURCE_DISABLED')),
+  message TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  acknowledged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_alerts_open ON admin_alerts(acknowledged_at, created_at DESC);
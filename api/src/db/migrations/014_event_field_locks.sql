@@ -0,0 +1,26 @@
+﻿ALTER TABLE events ADD COLUMN IF NOT EXISTS locked_fields TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE events ADD COLUMN IF NOT EXISTS section_key TEXT;
+
+CREATE TABLE IF NOT EXISTS event_field_conflicts (
+  id BIGSERIAL PRIMARY KEY,
+  event_id BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  raw_notice_id BIGINT REFERENCES raw_notices(id) ON DELETE SET NULL,
+  field TEXT NOT NULL CHECK (field IN ('type', 'title', 'summary', 'startAtUtc', 'endAtUtc', 'visibility')),
+  locked_value TEXT,
+  incoming_value TEXT,
+  resolution TEXT CHECK (resolution IN ('KEPT', 'ACCEPTED', 'MATCHED')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- One open conflict per locked field; newer incoming values replace the pending one.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_field_conflicts_open
+  ON event_field_conflicts(event_id, field)
+  WHERE resolved_at IS NULL;
+
+DROP TRIGGER IF EXISTS trg_event_field_conflicts_updated_at ON event_field_conflicts;
+CREATE TRIGGER trg_event_field_conflicts_updated_at
+BEFORE UPDATE ON event_field_conflicts
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
@@ -0,0 +1,25 @@
+﻿CREATE TABLE IF NOT EXISTS event_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  event_id BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('INGEST', 'REPARSE', 'ADMIN')),
+  raw_notice_id BIGINT REFERENCES raw_notices(id) ON DELETE SET NULL,
+  changed_by BIGINT REFERENCES users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_revisions_event ON event_revisions(event_id, created_at DESC);
+
+ALTER TABLE notification_rules
+  DROP CONSTRAINT IF EXISTS notification_rules_trigger_check;
+
+ALTER TABLE notification_rules
+  ADD CONSTRAINT notification_rules_trigger_check
+  CHECK (trigger IN ('ON_START', 'ON_END', 'BEFORE_END', 'BEFORE_START', 'ON_PUBLISH', 'ON_CHANGE'));
+
+ALTER TABLE notification_schedules
+  DROP CONSTRAINT IF EXISTS notification_schedules_trigger_type_check;
+
+ALTER TABLE notification_schedules
+  ADD CONSTRAINT notification_schedules_trigger_type_check
+  CHECK (trigger_type IN ('ON_START', 'ON_END', 'BEFORE_END', 'BEFORE_START', 'ON_PUBLISH', 'ON_CHANGE'));
@@ -0,0 +1,11 @@
+﻿ALTER TABLE events ADD COLUMN IF NOT EXISTS merged_into_event_id BIGINT REFERENCES events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_merged_into
+  ON events(merged_into_event_id)
+  WHERE merged_into_event_id IS NOT NULL;
+
+ALTER TABLE event_raw_links ADD COLUMN IF NOT EXISTS match_reason TEXT;
+ALTER TABLE event_raw_links ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_event_raw_links_raw_notice ON event_raw_links(raw_notice_id);
+CREATE INDEX IF NOT EXISTS idx_raw_notices_url ON raw_notices(url);
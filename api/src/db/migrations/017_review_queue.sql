@@ -0,0 +1,32 @@
+﻿ALTER TABLE events ADD COLUMN IF NOT EXISTS review_requested_at TIMESTAMPTZ;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS review_assignee_id BIGINT REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE events
+SET review_requested_at = created_at
+WHERE visibility = 'NEED_REVIEW' AND review_requested_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_review_queue
+  ON events(review_requested_at)
+  WHERE visibility = 'NEED_REVIEW';
+
+-- Queue age counts from when an event entered NEED_REVIEW; leaving the queue clears the request and its assignee.
+CREATE OR REPLACE FUNCTION track_review_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.visibility = 'NEED_REVIEW' THEN
+    IF TG_OP = 'INSERT' OR OLD.visibility IS DISTINCT FROM 'NEED_REVIEW' THEN
+      NEW.review_requested_at = NOW();
+    END IF;
+  ELSE
+    NEW.review_requested_at = NULL;
+    NEW.review_assignee_id = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_events_review_request ON events;
+CREATE TRIGGER trg_events_review_request
+BEFORE INSERT OR UPDATE OF visibility ON events
+FOR EACH ROW
+EXECUTE FUNCTION track_review_request();
@@ -0,0 +1,7 @@
+﻿CREATE INDEX IF NOT EXISTS idx_events_image_url
+  ON events(image_url)
+  WHERE image_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pickup_snapshot_items_image_url
+  ON pickup_snapshot_items(image_url)
+  WHERE image_url IS NOT NULL;
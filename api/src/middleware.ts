@@ -1,16 +1,25 @@
 ﻿import type { NextFunction, Request, Response } from "express";
 import { config } from "./config.js";
 import { extractBearerToken, verifyAccessToken } from "./auth.js";
+import { isSessionActive } from "./services/sessions.js";
 
 export function withOptionalAuth(req: Request, _res: Response, next: NextFunction) {
   const token = extractBearerToken(req.header("authorization"));
-  if (token) {
-    const payload = verifyAccessToken(token);
-    if (payload) {
-      req.authUser = payload;
-    }
+  const payload = token ? verifyAccessToken(token) : null;
+  if (!payload) {
+    next();
+    return;
   }
-  next();
+
+  // Access tokens are short-lived, but a revoked session must stop working immediately.
+  isSessionActive(payload.sid, payload.sub)
+    .then((active) => {
+      if (active) {
+        req.authUser = payload;
+      }
+      next();
+    })
+    .catch(next);
 }
 
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
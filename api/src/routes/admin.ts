@@ -3,8 +3,15 @@ import { z } from "zod";
 import { pool } from "../db.js";
 import { requireAdmin } from "../middleware.js";
 import { dispatchDueNotifications } from "../services/dispatch.js";
-import { listSources, reparseRawNotice, runDueSourceFetches, runSourceFetch } from "../services/ingest.js";
-import { planNotificationsForEvent } from "../services/scheduling.js";
+import { mergeEvents, splitEvent } from "../services/event-merges.js";
+import { eventRowToFieldValues, isLockableField, lockableFields, resolveFieldConflict } from "../services/event-locks.js";
+import { diffEventFields, isScheduleChange, recordEventRevision, type EventFieldChange } from "../services/event-revisions.js";
+import { listSources, previewSource, reparseRawNotice, runDueSourceFetches, runSourceFetch } from "../services/ingest.js";
+import { getPickupAdapter, listPickupAdapters } from "../services/pickup-adapters.js";
+import { createReparseJob, runNextReparseBatch } from "../services/reparse-jobs.js";
+import { assignReview, decideReview, getReviewQueue, getReviewQueueMetrics, listReviewers } from "../services/review-queue.js";
+import { planChangeNotificationsForEvent, planNotificationsForEvent, requeueScheduleState } from "../services/scheduling.js";
+import { canonicalTimezone, isValidTimezone } from "../timezone.js";
 import { asyncRoute } from "./helpers.js";
 
 export const adminRouter = Router();
@@ -20,26 +27,115 @@ const createGameSchema = z.object({
 const createRegionSchema = z.object({
   gameId: z.number().int().positive(),
   code: z.string().min(2).max(8),
-  timezone: z.string().min(1).max(64)
+  timezone: z.string().min(1).max(64).refine(isValidTimezone, { message: "Unknown IANA timezone" }).transform(canonicalTimezone)
 });
 
-const createSourceSchema = z.object({
-  regionId: z.number().int().positive(),
-  type: z.enum(["RSS", "HTML_LIST", "HTML_DETAIL", "API"]),
-  baseUrl: z.string().url(),
-  listUrl: z.string().url().nullable().optional(),
-  enabled: z.boolean().optional().default(true),
-  fetchIntervalMinutes: z.number().int().min(5).max(1440).optional().default(60),
-  configJson: z.record(z.unknown()).optional().default({})
+const crawlerUserAgentSchema = z.string().trim().min(1).max(256);
+const crawlerHeadersSchema = z
+  .record(z.string().regex(/^[A-Za-z0-9-]+$/), z.string().max(1024))
+  .refine((headers) => !Object.keys(headers).some((name) => name.toLowerCase() === "user-agent"));
+
+export const createSourceSchema = z
+  .object({
+    regionId: z.number().int().positive(),
+    type: z.enum(["RSS", "HTML_LIST", "HTML_DETAIL", "API", "ADAPTER"]),
+    baseUrl: z.string().url(),
+    listUrl: z.string().url().nullable().optional(),
+    enabled: z.boolean().optional().default(true),
+    fetchIntervalMinutes: z.number().int().min(5).max(1440).optional().default(60),
+    configJson: z.record(z.unknown()).optional().default({})
+  })
+  .refine((data) => data.type !== "ADAPTER" || getPickupAdapter(String(data.configJson.adapter ?? "")) !== null, {
+    message: "configJson.adapter must name a registered source adapter",
+    path: ["configJson", "adapter"]
+  })
+  .refine((data) => data.configJson.userAgent === undefined || crawlerUserAgentSchema.safeParse(data.configJson.userAgent).success, {
+    message: "configJson.userAgent must be a non-empty string",
+    path: ["configJson", "userAgent"]
+  })
+  .refine((data) => data.configJson.headers === undefined || crawlerHeadersSchema.safeParse(data.configJson.headers).success, {
+    message: "configJson.headers must map header names to string values; set the user agent with configJson.userAgent",
+    path: ["configJson", "headers"]
+  });
+
+const updateSourceSchema = z.object({
+  enabled: z.boolean()
+});
+
+const keywordListSchema = z.array(z.string().trim().min(1).max(64)).max(100);
+const profileTypeSchema = z.enum(["PICKUP", "UPDATE", "MAINTENANCE", "CAMPAIGN"]);
+
+const parserProfileRulesSchema = z.object({
+  keywords: z.record(profileTypeSchema, keywordListSchema).optional(),
+  negativeKeywords: z.record(profileTypeSchema, keywordListSchema).optional(),
+  // Same cap as buildParserProfile, so keyword hits cannot dominate a draft's confidence over its dates.
+  weights: z.record(profileTypeSchema, z.number().min(0).max(0.3, "Weights must be between 0 and 0.3")).optional(),
+  titlePrefixes: z.array(z.string().min(1).max(64)).max(50).optional()
 });
 
+const createParserProfileSchema = z
+  .object({
+    name: z.string().trim().min(1).max(128),
+    gameId: z.number().int().positive().nullable().optional(),
+    sourceId: z.number().int().positive().nullable().optional(),
+    rules: parserProfileRulesSchema.optional().default({})
+  })
+  .refine((data) => Boolean(data.gameId) !== Boolean(data.sourceId), {
+    message: "Set exactly one of gameId or sourceId",
+    path: ["gameId"]
+  });
+
+const patchParserProfileSchema = z.object({
+  name: z.string().trim().min(1).max(128).optional(),
+  rules: parserProfileRulesSchema.optional()
+});
+
+const createReparseJobSchema = z
+  .object({
+    sourceId: z.number().int().positive().optional(),
+    gameId: z.number().int().positive().optional(),
+    status: z.enum(["NEW", "PARSED", "ERROR"]).optional(),
+    parserVersion: z.string().min(1).max(64).optional(),
+    outdatedOnly: z.boolean().optional(),
+    publishedFrom: z.string().datetime().optional(),
+    publishedTo: z.string().datetime().optional()
+  })
+  .refine((data) => !data.publishedFrom || !data.publishedTo || data.publishedFrom < data.publishedTo, {
+    message: "publishedFrom must be before publishedTo",
+    path: ["publishedTo"]
+  });
+
 const patchEventSchema = z.object({
   type: z.enum(["PICKUP", "UPDATE", "MAINTENANCE", "EVENT", "CAMPAIGN"]).optional(),
   title: z.string().min(1).max(200).optional(),
   summary: z.string().max(2000).nullable().optional(),
   startAtUtc: z.string().datetime().nullable().optional(),
   endAtUtc: z.string().datetime().nullable().optional(),
-  visibility: z.enum(["PUBLIC", "NEED_REVIEW", "HIDDEN"]).optional()
+  visibility: z.enum(["PUBLIC", "NEED_REVIEW", "HIDDEN"]).optional(),
+  // Edited fields are locked against re-ingest; listing a field here hands it back to the parser.
+  unlockFields: z.array(z.enum(lockableFields as [string, ...string[]])).optional()
+});
+
+const resolveConflictSchema = z.object({
+  action: z.enum(["KEEP", "ACCEPT"])
+});
+
+const mergeEventsSchema = z.object({
+  duplicateEventIds: z.array(z.number().int().positive()).min(1).max(50)
+});
+
+const splitEventSchema = z.object({
+  rawNoticeIds: z.array(z.number().int().positive()).min(1).max(50)
+});
+
+const reviewDecisionSchema = z.object({
+  eventIds: z.array(z.number().int().positive()).min(1).max(200),
+  action: z.enum(["APPROVE", "REJECT"])
+});
+
+const reviewAssignSchema = z.object({
+  eventIds: z.array(z.number().int().positive()).min(1).max(200),
+  assigneeId: z.number().int().positive().nullable()
 });
 
 adminRouter.post(
@@ -99,6 +195,18 @@ adminRouter.get(
   })
 );
 
+adminRouter.get(
+  "/source-adapters",
+  asyncRoute(async (_req, res) => {
+    res.json({
+      items: listPickupAdapters().map((adapter) => ({
+        name: adapter.name,
+        label: adapter.label
+      }))
+    });
+  })
+);
+
 adminRouter.post(
   "/sources",
   asyncRoute(async (req, res) => {
@@ -137,6 +245,71 @@ adminRouter.post(
   })
 );
 
+adminRouter.post(
+  "/sources/preview",
+  asyncRoute(async (req, res) => {
+    const parsed = createSourceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const limitRaw = Number(req.query.limit ?? 10);
+    const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(Math.floor(limitRaw), 1), 30) : 10;
+
+    let preview: Awaited<ReturnType<typeof previewSource>>;
+    try {
+      preview = await previewSource(parsed.data, limit);
+    } catch (error) {
+      // Fetch and selector failures are the answer the admin is looking for, not a server error.
+      res.status(502).json({ error: `Preview failed: ${error instanceof Error ? error.message : "Unknown fetch error"}` });
+      return;
+    }
+
+    if (!preview) {
+      res.status(404).json({ error: "Region not found" });
+      return;
+    }
+
+    res.json(preview);
+  })
+);
+
+adminRouter.patch(
+  "/sources/:id",
+  asyncRoute(async (req, res) => {
+    const sourceId = Number(req.params.id);
+    if (!Number.isInteger(sourceId) || sourceId <= 0) {
+      res.status(400).json({ error: "Invalid source id" });
+      return;
+    }
+
+    const parsed = updateSourceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    // Re-enabling (including after an automatic disable) starts the source over with a clean failure count.
+    const result = await pool.query(
+      `UPDATE sources
+       SET enabled = $2,
+           consecutive_failures = CASE WHEN $2 THEN 0 ELSE consecutive_failures END,
+           next_fetch_at = CASE WHEN $2 THEN NULL ELSE next_fetch_at END,
+           disabled_reason = CASE WHEN $2 THEN NULL ELSE disabled_reason END
+       WHERE id = $1`,
+      [sourceId, parsed.data.enabled]
+    );
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "Source not found" });
+      return;
+    }
+
+    res.json({ ok: true });
+  })
+);
+
 adminRouter.post(
   "/sources/:id/run-fetch",
   asyncRoute(async (req, res) => {
@@ -151,6 +324,135 @@ adminRouter.post(
   })
 );
 
+adminRouter.get(
+  "/parser-profiles",
+  asyncRoute(async (_req, res) => {
+    const result = await pool.query(
+      `SELECT
+        p.id,
+        p.game_id,
+        p.source_id,
+        p.name,
+        p.version,
+        p.rules,
+        p.updated_at,
+        COALESCE(g.name, sg.name) AS game_name,
+        sr.code AS region_code
+       FROM parser_profiles p
+       LEFT JOIN games g ON g.id = p.game_id
+       LEFT JOIN sources s ON s.id = p.source_id
+       LEFT JOIN regions sr ON sr.id = s.region_id
+       LEFT JOIN games sg ON sg.id = sr.game_id
+       ORDER BY game_name ASC, p.source_id NULLS FIRST`
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        gameId: row.game_id ? Number(row.game_id) : null,
+        sourceId: row.source_id ? Number(row.source_id) : null,
+        name: row.name,
+        version: row.version,
+        parserVersion: `profile-${row.id}-v${row.version}`,
+        rules: row.rules,
+        gameName: row.game_name,
+        regionCode: row.region_code,
+        updatedAt: row.updated_at
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/parser-profiles",
+  asyncRoute(async (req, res) => {
+    const parsed = createParserProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const profile = parsed.data;
+
+    const existing = await pool.query(
+      `SELECT id
+       FROM parser_profiles
+       WHERE game_id = $1 OR source_id = $2`,
+      [profile.gameId ?? null, profile.sourceId ?? null]
+    );
+
+    if (existing.rows[0]) {
+      res.status(409).json({ error: "A parser profile already exists for this game or source" });
+      return;
+    }
+
+    const result = await pool.query<{ id: string }>(
+      `INSERT INTO parser_profiles (game_id, source_id, name, rules)
+       VALUES ($1, $2, $3, $4::jsonb)
+       RETURNING id`,
+      [profile.gameId ?? null, profile.sourceId ?? null, profile.name, JSON.stringify(profile.rules)]
+    );
+
+    res.status(201).json({ id: Number(result.rows[0].id) });
+  })
+);
+
+adminRouter.patch(
+  "/parser-profiles/:id",
+  asyncRoute(async (req, res) => {
+    const profileId = Number(req.params.id);
+
+    if (!Number.isInteger(profileId) || profileId <= 0) {
+      res.status(400).json({ error: "Invalid parser profile id" });
+      return;
+    }
+
+    const parsed = patchParserProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    // Rule changes bump the version so notices parsed by the previous rules can be told apart.
+    const result = await pool.query<{ version: number }>(
+      `UPDATE parser_profiles
+       SET name = COALESCE($2, name),
+           rules = COALESCE($3::jsonb, rules),
+           version = version + CASE WHEN $3::jsonb IS NULL THEN 0 ELSE 1 END
+       WHERE id = $1
+       RETURNING version`,
+      [profileId, parsed.data.name ?? null, parsed.data.rules ? JSON.stringify(parsed.data.rules) : null]
+    );
+
+    if (!result.rows[0]) {
+      res.status(404).json({ error: "Parser profile not found" });
+      return;
+    }
+
+    res.json({ ok: true, version: result.rows[0].version });
+  })
+);
+
+adminRouter.delete(
+  "/parser-profiles/:id",
+  asyncRoute(async (req, res) => {
+    const profileId = Number(req.params.id);
+
+    if (!Number.isInteger(profileId) || profileId <= 0) {
+      res.status(400).json({ error: "Invalid parser profile id" });
+      return;
+    }
+
+    const result = await pool.query(`DELETE FROM parser_profiles WHERE id = $1`, [profileId]);
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "Parser profile not found" });
+      return;
+    }
+
+    res.json({ ok: true });
+  })
+);
+
 adminRouter.get(
   "/raw-notices",
   asyncRoute(async (req, res) => {
@@ -174,6 +476,7 @@ adminRouter.get(
         rn.fetched_at,
         rn.status,
         rn.content_hash,
+        rn.parser_version,
         s.type AS source_type,
         g.name AS game_name,
         r.code AS region_code
@@ -198,6 +501,7 @@ adminRouter.get(
         fetchedAt: row.fetched_at,
         status: row.status,
         contentHash: row.content_hash,
+        parserVersion: row.parser_version,
         gameName: row.game_name,
         regionCode: row.region_code
       }))
@@ -224,7 +528,7 @@ adminRouter.patch(
     const data = parsed.data;
 
     const existing = await pool.query(
-      `SELECT id, type, title, summary, start_at_utc, end_at_utc, visibility
+      `SELECT id, type, title, summary, start_at_utc, end_at_utc, visibility, locked_fields
        FROM events
        WHERE id = $1`,
       [eventId]
@@ -236,8 +540,13 @@ adminRouter.patch(
     }
 
     const event = existing.rows[0];
+    const editedFields = Object.keys(data).filter((key) => isLockableField(key) && data[key] !== undefined);
+    const unlockFields = data.unlockFields ?? [];
+    const lockedFields = [...new Set([...(event.locked_fields as string[]), ...editedFields])].filter(
+      (field) => !unlockFields.includes(field) || editedFields.includes(field)
+    );
 
-    await pool.query(
+    const updated = await pool.query(
       `UPDATE events
        SET
         type = $2,
@@ -245,20 +554,274 @@ adminRouter.patch(
         summary = $4,
         start_at_utc = $5,
         end_at_utc = $6,
-        visibility = $7
-       WHERE id = $1`,
+        visibility = $7,
+        locked_fields = $8::text[]
+       WHERE id = $1
+       RETURNING id, type, title, summary, start_at_utc, end_at_utc, visibility, locked_fields`,
       [
         eventId,
         data.type ?? event.type,
         data.title ?? event.title,
-        data.summary ?? event.summary,
-        data.startAtUtc ?? event.start_at_utc,
-        data.endAtUtc ?? event.end_at_utc,
-        data.visibility ?? event.visibility
+        // An explicit null clears the field, so only a missing key keeps the current value.
+        data.summary !== undefined ? data.summary : event.summary,
+        data.startAtUtc !== undefined ? data.startAtUtc : event.start_at_utc,
+        data.endAtUtc !== undefined ? data.endAtUtc : event.end_at_utc,
+        data.visibility ?? event.visibility,
+        lockedFields
       ]
     );
 
+    const changes = diffEventFields(eventRowToFieldValues(event), eventRowToFieldValues(updated.rows[0]));
+    const revisionId = await recordEventRevision({ eventId, source: "ADMIN", changedBy: req.authUser?.sub, changes });
+
+    // A field the admin just edited or unlocked no longer has a pending conflict to review.
+    await pool.query(
+      `UPDATE event_field_conflicts
+       SET resolved_at = NOW(),
+           resolution = 'KEPT'
+       WHERE event_id = $1 AND field = ANY($2::text[]) AND resolved_at IS NULL`,
+      [eventId, [...editedFields, ...unlockFields]]
+    );
+
     await planNotificationsForEvent(eventId);
+    if (revisionId && isScheduleChange(changes)) {
+      await planChangeNotificationsForEvent(eventId, { id: revisionId, changes });
+    }
+
+    res.json({ ok: true, lockedFields });
+  })
+);
+
+adminRouter.get(
+  "/events/:id/raw-notices",
+  asyncRoute(async (req, res) => {
+    const eventId = Number(req.params.id);
+    if (!Number.isInteger(eventId) || eventId <= 0) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT
+        rn.id,
+        rn.source_id,
+        rn.url,
+        rn.title,
+        rn.published_at,
+        l.match_reason,
+        l.created_at AS linked_at
+       FROM event_raw_links l
+       JOIN raw_notices rn ON rn.id = l.raw_notice_id
+       WHERE l.event_id = $1
+       ORDER BY rn.published_at DESC NULLS LAST, rn.id DESC`,
+      [eventId]
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        sourceId: Number(row.source_id),
+        url: row.url,
+        title: row.title,
+        publishedAt: row.published_at,
+        matchReason: row.match_reason,
+        linkedAt: row.linked_at
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/events/:id/merge",
+  asyncRoute(async (req, res) => {
+    const eventId = Number(req.params.id);
+    if (!Number.isInteger(eventId) || eventId <= 0) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    const parsed = mergeEventsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await mergeEvents(eventId, parsed.data.duplicateEventIds);
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    res.json({ ok: true, mergedEventIds: result.mergedEventIds });
+  })
+);
+
+adminRouter.post(
+  "/events/:id/split",
+  asyncRoute(async (req, res) => {
+    const eventId = Number(req.params.id);
+    if (!Number.isInteger(eventId) || eventId <= 0) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    const parsed = splitEventSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await splitEvent(eventId, parsed.data.rawNoticeIds);
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    res.status(201).json({ id: result.eventId });
+  })
+);
+
+adminRouter.get(
+  "/review-queue",
+  asyncRoute(async (req, res) => {
+    const assigneeRaw = String(req.query.assignee ?? "");
+    let assignee: "me" | "unassigned" | number | undefined;
+    if (assigneeRaw === "me" || assigneeRaw === "unassigned") {
+      assignee = assigneeRaw;
+    } else if (Number.isInteger(Number(assigneeRaw)) && Number(assigneeRaw) > 0) {
+      assignee = Number(assigneeRaw);
+    }
+    const userId = req.authUser?.sub ?? null;
+    if (assignee === "me" && userId === null) {
+      res.status(400).json({ error: "assignee=me needs a signed-in admin" });
+      return;
+    }
+    const limitRaw = Number(req.query.limit ?? 50);
+    const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(Math.floor(limitRaw), 1), 200) : 50;
+
+    const [items, metrics, reviewers] = await Promise.all([
+      getReviewQueue({ assignee, userId, limit }),
+      getReviewQueueMetrics(),
+      listReviewers()
+    ]);
+
+    res.json({ items, metrics, reviewers });
+  })
+);
+
+adminRouter.post(
+  "/review-queue/decisions",
+  asyncRoute(async (req, res) => {
+    const parsed = reviewDecisionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const decided = await decideReview(parsed.data.eventIds, parsed.data.action, req.authUser?.sub ?? null);
+    res.json({ ok: true, eventIds: decided });
+  })
+);
+
+adminRouter.post(
+  "/review-queue/assign",
+  asyncRoute(async (req, res) => {
+    const parsed = reviewAssignSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const assigned = await assignReview(parsed.data.eventIds, parsed.data.assigneeId);
+    if (!assigned) {
+      res.status(400).json({ error: "Assignee must be an admin" });
+      return;
+    }
+
+    res.json({ ok: true, eventIds: assigned });
+  })
+);
+
+adminRouter.get(
+  "/event-conflicts",
+  asyncRoute(async (_req, res) => {
+    const result = await pool.query(
+      `SELECT
+        c.id,
+        c.event_id,
+        c.raw_notice_id,
+        c.field,
+        c.locked_value,
+        c.incoming_value,
+        c.created_at,
+        c.updated_at,
+        e.title AS event_title,
+        g.name AS game_name,
+        r.code AS region_code
+       FROM event_field_conflicts c
+       JOIN events e ON e.id = c.event_id
+       JOIN regions r ON r.id = e.region_id
+       JOIN games g ON g.id = r.game_id
+       WHERE c.resolved_at IS NULL
+       ORDER BY c.updated_at DESC
+       LIMIT 200`
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        eventId: Number(row.event_id),
+        rawNoticeId: row.raw_notice_id ? Number(row.raw_notice_id) : null,
+        field: row.field,
+        lockedValue: row.locked_value,
+        incomingValue: row.incoming_value,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        eventTitle: row.event_title,
+        gameName: row.game_name,
+        regionCode: row.region_code
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/event-conflicts/:id/resolve",
+  asyncRoute(async (req, res) => {
+    const conflictId = Number(req.params.id);
+    if (!Number.isInteger(conflictId) || conflictId <= 0) {
+      res.status(400).json({ error: "Invalid conflict id" });
+      return;
+    }
+
+    const parsed = resolveConflictSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const resolved = await resolveFieldConflict(conflictId, parsed.data.action);
+    if (!resolved) {
+      res.status(404).json({ error: "Open conflict not found" });
+      return;
+    }
+
+    if (parsed.data.action === "ACCEPT") {
+      const changes: EventFieldChange[] = [
+        { field: resolved.field, before: resolved.lockedValue, after: resolved.incomingValue }
+      ];
+      const revisionId = await recordEventRevision({
+        eventId: resolved.eventId,
+        source: "ADMIN",
+        changedBy: req.authUser?.sub,
+        changes
+      });
+
+      await planNotificationsForEvent(resolved.eventId);
+      if (revisionId && isScheduleChange(changes)) {
+        await planChangeNotificationsForEvent(resolved.eventId, { id: revisionId, changes });
+      }
+    }
 
     res.json({ ok: true });
   })
@@ -279,6 +842,206 @@ adminRouter.post(
   })
 );
 
+adminRouter.get(
+  "/reparse-jobs",
+  asyncRoute(async (_req, res) => {
+    const result = await pool.query(
+      `SELECT
+        id,
+        status,
+        filters,
+        total_count,
+        processed_count,
+        changed_count,
+        error_count,
+        last_error,
+        ingest_run_id,
+        created_at,
+        started_at,
+        finished_at
+       FROM reparse_jobs
+       ORDER BY created_at DESC
+       LIMIT 50`
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        status: row.status,
+        filters: row.filters,
+        totalCount: row.total_count,
+        processedCount: row.processed_count,
+        changedCount: row.changed_count,
+        errorCount: row.error_count,
+        lastError: row.last_error,
+        ingestRunId: row.ingest_run_id ? Number(row.ingest_run_id) : null,
+        createdAt: row.created_at,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/reparse-jobs",
+  asyncRoute(async (req, res) => {
+    const parsed = createReparseJobSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const job = await createReparseJob(parsed.data);
+    res.status(202).json(job);
+  })
+);
+
+adminRouter.post(
+  "/reparse-jobs/run-next",
+  asyncRoute(async (req, res) => {
+    const limitRaw = Number(req.query.limit ?? 25);
+    const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(Math.floor(limitRaw), 1), 200) : 25;
+    const result = await runNextReparseBatch(limit);
+    res.json(result);
+  })
+);
+
+adminRouter.get(
+  "/reparse-jobs/:id/changes",
+  asyncRoute(async (req, res) => {
+    const jobId = Number(req.params.id);
+
+    if (!Number.isInteger(jobId) || jobId <= 0) {
+      res.status(400).json({ error: "Invalid reparse job id" });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT
+        c.id,
+        c.raw_notice_id,
+        c.event_id,
+        c.changes,
+        c.before_snapshot,
+        c.after_snapshot,
+        rn.title AS raw_notice_title
+       FROM reparse_job_changes c
+       JOIN raw_notices rn ON rn.id = c.raw_notice_id
+       WHERE c.job_id = $1
+       ORDER BY c.id ASC
+       LIMIT 500`,
+      [jobId]
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        rawNoticeId: Number(row.raw_notice_id),
+        rawNoticeTitle: row.raw_notice_title,
+        eventId: row.event_id ? Number(row.event_id) : null,
+        changes: row.changes,
+        before: row.before_snapshot,
+        after: row.after_snapshot
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/reparse-jobs/:id/cancel",
+  asyncRoute(async (req, res) => {
+    const jobId = Number(req.params.id);
+
+    if (!Number.isInteger(jobId) || jobId <= 0) {
+      res.status(400).json({ error: "Invalid reparse job id" });
+      return;
+    }
+
+    const result = await pool.query(
+      `UPDATE reparse_jobs
+       SET status = 'CANCELLED',
+           finished_at = NOW(),
+           locked_until = NULL
+       WHERE id = $1 AND status IN ('QUEUED', 'RUNNING')`,
+      [jobId]
+    );
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "No queued or running reparse job with this id" });
+      return;
+    }
+
+    res.json({ ok: true });
+  })
+);
+
+adminRouter.get(
+  "/alerts",
+  asyncRoute(async (req, res) => {
+    const includeAcknowledged = String(req.query.all ?? "") === "1";
+    const result = await pool.query(
+      `SELECT
+        a.id,
+        a.source_id,
+        a.kind,
+        a.message,
+        a.created_at,
+        a.acknowledged_at,
+        s.type AS source_type,
+        g.name AS game_name,
+        r.code AS region_code
+       FROM admin_alerts a
+       LEFT JOIN sources s ON s.id = a.source_id
+       LEFT JOIN regions r ON r.id = s.region_id
+       LEFT JOIN games g ON g.id = r.game_id
+       WHERE $1::boolean OR a.acknowledged_at IS NULL
+       ORDER BY a.created_at DESC
+       LIMIT 200`,
+      [includeAcknowledged]
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        sourceId: row.source_id ? Number(row.source_id) : null,
+        kind: row.kind,
+        message: row.message,
+        createdAt: row.created_at,
+        acknowledgedAt: row.acknowledged_at,
+        sourceType: row.source_type,
+        gameName: row.game_name,
+        regionCode: row.region_code
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/alerts/:id/acknowledge",
+  asyncRoute(async (req, res) => {
+    const alertId = Number(req.params.id);
+    if (!Number.isInteger(alertId) || alertId <= 0) {
+      res.status(400).json({ error: "Invalid alert id" });
+      return;
+    }
+
+    const result = await pool.query(
+      `UPDATE admin_alerts
+       SET acknowledged_at = COALESCE(acknowledged_at, NOW())
+       WHERE id = $1`,
+      [alertId]
+    );
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "Alert not found" });
+      return;
+    }
+
+    res.json({ ok: true });
+  })
+);
+
 adminRouter.post(
   "/ingest/run-due",
   asyncRoute(async (_req, res) => {
@@ -298,6 +1061,94 @@ adminRouter.post(
   })
 );
 
+adminRouter.get(
+  "/notifications/dead-letter",
+  asyncRoute(async (req, res) => {
+    const limitRaw = Number(req.query.limit ?? 100);
+    const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(Math.floor(limitRaw), 1), 500) : 100;
+
+    const result = await pool.query<{
+      id: string;
+      user_id: string;
+      user_email: string | null;
+      event_id: string;
+      event_title: string;
+      channel: string;
+      trigger_type: string;
+      scheduled_at_utc: string;
+      attempt_count: number;
+      last_error: string | null;
+      updated_at: string;
+    }>(
+      `SELECT
+        ns.id,
+        ns.user_id,
+        u.email AS user_email,
+        ns.event_id,
+        e.title AS event_title,
+        ns.channel,
+        ns.trigger_type,
+        ns.scheduled_at_utc,
+        ns.attempt_count,
+        ns.last_error,
+        ns.updated_at
+      FROM notification_schedules ns
+      JOIN users u ON u.id = ns.user_id
+      JOIN events e ON e.id = ns.event_id
+      WHERE ns.status = 'DEAD'
+      ORDER BY ns.updated_at DESC
+      LIMIT $1`,
+      [limit]
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        userId: Number(row.user_id),
+        userEmail: row.user_email,
+        eventId: Number(row.event_id),
+        eventTitle: row.event_title,
+        channel: row.channel,
+        triggerType: row.trigger_type,
+        scheduledAtUtc: row.scheduled_at_utc,
+        attemptCount: row.attempt_count,
+        lastError: row.last_error,
+        deadAt: row.updated_at
+      }))
+    });
+  })
+);
+
+adminRouter.post(
+  "/notifications/:id/requeue",
+  asyncRoute(async (req, res) => {
+    const scheduleId = Number(req.params.id);
+    if (!Number.isInteger(scheduleId) || scheduleId <= 0) {
+      res.status(400).json({ error: "Invalid schedule id" });
+      return;
+    }
+
+    const next = requeueScheduleState(new Date());
+    const result = await pool.query(
+      `UPDATE notification_schedules
+       SET status = $2,
+           attempt_count = $3,
+           next_attempt_at = $4,
+           last_error = NULL,
+           updated_at = NOW()
+       WHERE id = $1 AND status IN ('DEAD', 'FAILED')`,
+      [scheduleId, next.status, next.attemptCount, next.nextAttemptAt]
+    );
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "Dead-lettered schedule not found" });
+      return;
+    }
+
+    res.json({ ok: true });
+  })
+);
+
 adminRouter.get(
   "/ingest-runs",
   asyncRoute(async (_req, res) => {
@@ -1,8 +1,12 @@
 ﻿import { Router } from "express";
 import { z } from "zod";
-import { hashPassword, signAccessToken, verifyPassword } from "../auth.js";
+import { hashPassword, verifyPassword } from "../auth.js";
 import { config } from "../config.js";
 import { pool } from "../db.js";
+import { requireAuth } from "../middleware.js";
+import { consumeAccountToken, sendAccountEmail } from "../services/account-tokens.js";
+import { createSession, revokeAllSessions, revokeSession, rotateSession } from "../services/sessions.js";
+import { canonicalTimezone, isValidTimezone } from "../timezone.js";
 import { asyncRoute } from "./helpers.js";
 
 export const authRouter = Router();
@@ -10,7 +14,7 @@ export const authRouter = Router();
 const signUpSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8).max(64),
-  timezone: z.string().min(1).max(64).optional()
+  timezone: z.string().min(1).max(64).refine(isValidTimezone, { message: "Unknown IANA timezone" }).transform(canonicalTimezone).optional()
 });
 
 const loginSchema = z.object({
@@ -18,6 +22,23 @@ const loginSchema = z.object({
   password: z.string().min(8).max(64)
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+const tokenSchema = z.object({
+  token: z.string().min(1)
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8).max(64)
+});
+
 authRouter.post(
   "/signup",
   asyncRoute(async (req, res) => {
@@ -50,19 +71,24 @@ authRouter.post(
       return;
     }
 
-    const token = signAccessToken({
-      sub: Number(user.id),
-      email: user.email,
-      role: user.role
+    const session = await createSession(
+      { id: Number(user.id), email: user.email, role: user.role },
+      req.header("user-agent")
+    );
+
+    // Signup succeeds even if the mail transport is down; the user can resend from settings.
+    await sendAccountEmail({ id: Number(user.id), email: user.email }, "VERIFY_EMAIL").catch((error) => {
+      console.error("Failed to send verification email", error);
     });
 
     res.status(201).json({
-      token,
+      ...session,
       user: {
         id: Number(user.id),
         email: user.email,
         role: user.role,
-        timezone: user.timezone
+        timezone: user.timezone,
+        emailVerified: false
       }
     });
   })
@@ -83,8 +109,9 @@ authRouter.post(
       password_hash: string | null;
       role: "USER" | "ADMIN";
       timezone: string;
+      email_verified_at: string | null;
     }>(
-      `SELECT id, email, password_hash, role, timezone
+      `SELECT id, email, password_hash, role, timezone, email_verified_at
        FROM users
        WHERE email = $1`,
       [parsed.data.email]
@@ -103,27 +130,170 @@ authRouter.post(
       return;
     }
 
-    const token = signAccessToken({
-      sub: Number(user.id),
-      email: user.email,
-      role: user.role
-    });
+    const session = await createSession(
+      { id: Number(user.id), email: user.email, role: user.role },
+      req.header("user-agent")
+    );
 
     res.json({
-      token,
+      ...session,
       user: {
         id: Number(user.id),
         email: user.email,
         role: user.role,
-        timezone: user.timezone
+        timezone: user.timezone,
+        emailVerified: Boolean(user.email_verified_at)
       }
     });
   })
 );
 
+authRouter.post(
+  "/refresh",
+  asyncRoute(async (req, res) => {
+    const parsed = refreshSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const session = await rotateSession(parsed.data.refreshToken);
+    if (!session) {
+      res.status(401).json({ error: "Invalid refresh token" });
+      return;
+    }
+
+    res.json({
+      token: session.token,
+      refreshToken: session.refreshToken
+    });
+  })
+);
+
 authRouter.post(
   "/logout",
-  asyncRoute(async (_req, res) => {
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    await revokeSession(req.authUser!.sid, req.authUser!.sub);
+    res.json({ ok: true });
+  })
+);
+
+authRouter.post(
+  "/logout-all",
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const revoked = await revokeAllSessions(req.authUser!.sub);
+    res.json({ ok: true, revoked });
+  })
+);
+
+authRouter.post(
+  "/verify-email",
+  asyncRoute(async (req, res) => {
+    const parsed = tokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const userId = await consumeAccountToken(parsed.data.token, "VERIFY_EMAIL");
+    if (!userId) {
+      res.status(400).json({ error: "Verification link is invalid or expired" });
+      return;
+    }
+
+    await pool.query(
+      `UPDATE users
+       SET email_verified_at = COALESCE(email_verified_at, NOW())
+       WHERE id = $1`,
+      [userId]
+    );
+
+    res.json({ ok: true });
+  })
+);
+
+authRouter.post(
+  "/resend-verification",
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const result = await pool.query<{ email: string | null; email_verified_at: string | null }>(
+      `SELECT email, email_verified_at FROM users WHERE id = $1`,
+      [req.authUser!.sub]
+    );
+
+    const user = result.rows[0];
+    if (!user?.email) {
+      res.status(404).json({ error: "User email not available" });
+      return;
+    }
+
+    if (user.email_verified_at) {
+      res.status(409).json({ error: "Email is already verified" });
+      return;
+    }
+
+    await sendAccountEmail({ id: req.authUser!.sub, email: user.email }, "VERIFY_EMAIL");
+    res.json({ ok: true });
+  })
+);
+
+authRouter.post(
+  "/forgot-password",
+  asyncRoute(async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await pool.query<{ id: string; email: string }>(
+      `SELECT id, email FROM users WHERE email = $1 AND password_hash IS NOT NULL`,
+      [parsed.data.email]
+    );
+
+    const user = result.rows[0];
+    if (user) {
+      // Not awaited: neither a mail failure nor the time spent sending may reveal that the account exists.
+      void sendAccountEmail({ id: Number(user.id), email: user.email }, "RESET_PASSWORD").catch((error) => {
+        console.error("Failed to send password reset email", error);
+      });
+    }
+
+    // Same response either way so the endpoint cannot be used to probe for accounts.
+    res.json({ ok: true });
+  })
+);
+
+authRouter.post(
+  "/reset-password",
+  asyncRoute(async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const userId = await consumeAccountToken(parsed.data.token, "RESET_PASSWORD");
+    if (!userId) {
+      res.status(400).json({ error: "Reset link is invalid or expired" });
+      return;
+    }
+
+    const passwordHash = await hashPassword(parsed.data.password);
+
+    // The reset link arrived by email, so it also proves ownership of the address.
+    await pool.query(
+      `UPDATE users
+       SET password_hash = $2,
+           email_verified_at = COALESCE(email_verified_at, NOW())
+       WHERE id = $1`,
+      [userId, passwordHash]
+    );
+
+    await revokeAllSessions(userId);
+
     res.json({ ok: true });
   })
 );
@@ -2,14 +2,17 @@
 import { z } from "zod";
 import { pool } from "../db.js";
 import { requireAuth } from "../middleware.js";
+import { formatMinuteOfDay, parseMinuteOfDay } from "../services/delivery-window.js";
+import { isDiscordWebhookUrl, maskWebhookUrl, postDiscordWebhook } from "../services/discord.js";
 import { rebuildSchedulesForUser } from "../services/scheduling.js";
+import { canonicalTimezone, isValidTimezone } from "../timezone.js";
 import { asyncRoute } from "./helpers.js";
 
 export const meRouter = Router();
 
 type RuleScope = "GLOBAL" | "REGION";
 type EventType = "PICKUP" | "UPDATE" | "MAINTENANCE" | "EVENT" | "CAMPAIGN";
-type RuleTrigger = "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH";
+type RuleTrigger = "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH" | "ON_CHANGE";
 type RuleChannel = "WEBPUSH" | "EMAIL" | "DISCORD";
 
 meRouter.use(requireAuth);
@@ -23,7 +26,7 @@ const ruleBaseSchema = z.object({
   scope: z.enum(["GLOBAL", "REGION"]),
   regionId: z.number().int().positive().nullable().optional(),
   eventType: z.enum(["PICKUP", "UPDATE", "MAINTENANCE", "EVENT", "CAMPAIGN"]),
-  trigger: z.enum(["ON_START", "ON_END", "BEFORE_END", "BEFORE_START", "ON_PUBLISH"]),
+  trigger: z.enum(["ON_START", "ON_END", "BEFORE_END", "BEFORE_START", "ON_PUBLISH", "ON_CHANGE"]),
   offsetMinutes: z.number().int().min(0).nullable().optional(),
   channel: z.enum(["WEBPUSH", "EMAIL", "DISCORD"]),
   enabled: z.boolean().optional().default(true)
@@ -43,13 +46,52 @@ const pushSubscriptionSchema = z.object({
   userAgent: z.string().optional()
 });
 
+const minuteOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const preferencesSchema = z
+  .object({
+    timezone: z.string().refine(isValidTimezone, { message: "Unknown IANA timezone" }).transform(canonicalTimezone).optional(),
+    quietHoursStart: minuteOfDaySchema.nullable().optional(),
+    quietHoursEnd: minuteOfDaySchema.nullable().optional(),
+    digestEnabled: z.boolean().optional(),
+    digestWindowMinutes: z.number().int().min(15).max(1440).optional()
+  })
+  .refine((data) => (data.quietHoursStart === undefined) === (data.quietHoursEnd === undefined), {
+    message: "quietHoursStart and quietHoursEnd must be updated together",
+    path: ["quietHoursEnd"]
+  })
+  .refine((data) => (data.quietHoursStart === null) === (data.quietHoursEnd === null), {
+    message: "quietHoursStart and quietHoursEnd must both be set or both be null",
+    path: ["quietHoursEnd"]
+  });
+
+const discordWebhookSchema = z.object({
+  url: z.string().url().refine(isDiscordWebhookUrl, { message: "Must be a Discord webhook URL" }),
+  label: z.string().max(100).optional()
+});
+
+const discordWebhookPatchSchema = z.object({
+  label: z.string().max(100).nullable().optional(),
+  enabled: z.boolean().optional()
+});
+
 meRouter.get(
   "/",
   asyncRoute(async (req, res) => {
     const userId = req.authUser!.sub;
 
-    const result = await pool.query<{ id: string; email: string | null; role: string; timezone: string }>(
-      `SELECT id, email, role, timezone
+    const result = await pool.query<{
+      id: string;
+      email: string | null;
+      role: string;
+      timezone: string;
+      quiet_hours_start: number | null;
+      quiet_hours_end: number | null;
+      digest_enabled: boolean;
+      digest_window_minutes: number;
+      email_verified_at: string | null;
+    }>(
+      `SELECT id, email, role, timezone, quiet_hours_start, quiet_hours_end, digest_enabled, digest_window_minutes, email_verified_at
        FROM users
        WHERE id = $1`,
       [userId]
@@ -65,11 +107,55 @@ meRouter.get(
       id: Number(user.id),
       email: user.email,
       role: user.role,
-      timezone: user.timezone
+      timezone: user.timezone,
+      emailVerified: Boolean(user.email_verified_at),
+      quietHoursStart: formatMinuteOfDay(user.quiet_hours_start),
+      quietHoursEnd: formatMinuteOfDay(user.quiet_hours_end),
+      digestEnabled: user.digest_enabled,
+      digestWindowMinutes: user.digest_window_minutes
     });
   })
 );
 
+meRouter.patch(
+  "/preferences",
+  asyncRoute(async (req, res) => {
+    const userId = req.authUser!.sub;
+    const parsed = preferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const prefs = parsed.data;
+    const quietHoursProvided = prefs.quietHoursStart !== undefined;
+
+    await pool.query(
+      `UPDATE users
+       SET
+         timezone = COALESCE($2, timezone),
+         quiet_hours_start = CASE WHEN $3 THEN $4::smallint ELSE quiet_hours_start END,
+         quiet_hours_end = CASE WHEN $3 THEN $5::smallint ELSE quiet_hours_end END,
+         digest_enabled = COALESCE($6, digest_enabled),
+         digest_window_minutes = COALESCE($7, digest_window_minutes)
+       WHERE id = $1`,
+      [
+        userId,
+        prefs.timezone ?? null,
+        quietHoursProvided,
+        prefs.quietHoursStart ? parseMinuteOfDay(prefs.quietHoursStart) : null,
+        prefs.quietHoursEnd ? parseMinuteOfDay(prefs.quietHoursEnd) : null,
+        prefs.digestEnabled ?? null,
+        prefs.digestWindowMinutes ?? null
+      ]
+    );
+
+    await rebuildSchedulesForUser(userId);
+
+    res.json({ ok: true });
+  })
+);
+
 meRouter.get(
   "/games",
   asyncRoute(async (req, res) => {
@@ -478,6 +564,171 @@ meRouter.delete(
   })
 );
 
+meRouter.get(
+  "/discord-webhooks",
+  asyncRoute(async (req, res) => {
+    const userId = req.authUser!.sub;
+
+    const result = await pool.query<{
+      id: string;
+      label: string | null;
+      webhook_url: string;
+      enabled: boolean;
+      last_used_at: string | null;
+      last_error: string | null;
+      created_at: string;
+    }>(
+      `SELECT id, label, webhook_url, enabled, last_used_at, last_error, created_at
+       FROM user_discord_webhooks
+       WHERE user_id = $1
+       ORDER BY id ASC`,
+      [userId]
+    );
+
+    res.json({
+      items: result.rows.map((row) => ({
+        id: Number(row.id),
+        label: row.label,
+        url: maskWebhookUrl(row.webhook_url),
+        enabled: row.enabled,
+        lastUsedAt: row.last_used_at,
+        lastError: row.last_error,
+        createdAt: row.created_at
+      }))
+    });
+  })
+);
+
+meRouter.post(
+  "/discord-webhooks",
+  asyncRoute(async (req, res) => {
+    const parsed = discordWebhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const userId = req.authUser!.sub;
+
+    const result = await pool.query<{ id: string }>(
+      `INSERT INTO user_discord_webhooks (user_id, label, webhook_url)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, webhook_url)
+       DO UPDATE SET
+         label = EXCLUDED.label,
+         enabled = true,
+         last_error = NULL
+       RETURNING id`,
+      [userId, parsed.data.label ?? null, parsed.data.url]
+    );
+
+    res.status(201).json({ id: Number(result.rows[0].id) });
+  })
+);
+
+meRouter.patch(
+  "/discord-webhooks/:id",
+  asyncRoute(async (req, res) => {
+    const userId = req.authUser!.sub;
+    const webhookId = Number(req.params.id);
+
+    if (!Number.isInteger(webhookId) || webhookId <= 0) {
+      res.status(400).json({ error: "Invalid webhook id" });
+      return;
+    }
+
+    const parsed = discordWebhookPatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+      return;
+    }
+
+    const result = await pool.query(
+      `UPDATE user_discord_webhooks
+       SET
+         label = CASE WHEN $3 THEN $4 ELSE label END,
+         enabled = COALESCE($5, enabled)
+       WHERE id = $1 AND user_id = $2`,
+      [webhookId, userId, parsed.data.label !== undefined, parsed.data.label ?? null, parsed.data.enabled ?? null]
+    );
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
+
+    res.json({ ok: true });
+  })
+);
+
+meRouter.delete(
+  "/discord-webhooks/:id",
+  asyncRoute(async (req, res) => {
+    const userId = req.authUser!.sub;
+    const webhookId = Number(req.params.id);
+
+    if (!Number.isInteger(webhookId) || webhookId <= 0) {
+      res.status(400).json({ error: "Invalid webhook id" });
+      return;
+    }
+
+    await pool.query(
+      `DELETE FROM user_discord_webhooks
+       WHERE id = $1 AND user_id = $2`,
+      [webhookId, userId]
+    );
+
+    res.json({ ok: true });
+  })
+);
+
+meRouter.post(
+  "/discord-webhooks/:id/test",
+  asyncRoute(async (req, res) => {
+    const userId = req.authUser!.sub;
+    const webhookId = Number(req.params.id);
+
+    if (!Number.isInteger(webhookId) || webhookId <= 0) {
+      res.status(400).json({ error: "Invalid webhook id" });
+      return;
+    }
+
+    const existing = await pool.query<{ webhook_url: string }>(
+      `SELECT webhook_url
+       FROM user_discord_webhooks
+       WHERE id = $1 AND user_id = $2`,
+      [webhookId, userId]
+    );
+
+    const webhook = existing.rows[0];
+    if (!webhook) {
+      res.status(404).json({ error: "Webhook not found" });
+      return;
+    }
+
+    const result = await postDiscordWebhook(webhook.webhook_url, {
+      embeds: [
+        {
+          title: "Subculture Hub test notification",
+          description: "This webhook will receive DISCORD notification rules.",
+          color: 0x006f8f,
+          timestamp: new Date().toISOString()
+        }
+      ]
+    });
+
+    await pool.query(
+      `UPDATE user_discord_webhooks
+       SET last_used_at = NOW(),
+           last_error = $2
+       WHERE id = $1`,
+      [webhookId, result.ok ? null : `Discord responded with ${result.statusCode}`]
+    );
+
+    res.status(result.ok ? 200 : 502).json(result);
+  })
+);
+
 meRouter.get(
   "/notification-schedules",
   asyncRoute(async (req, res) => {
@@ -1,8 +1,15 @@
 ﻿import { Router } from "express";
-import fs from "node:fs/promises";
-import path from "node:path";
 import { z } from "zod";
+import { config } from "../config.js";
 import { pool } from "../db.js";
+import {
+  diffPickupSnapshots,
+  getLatestPickupSnapshot,
+  getPickupSnapshotByDate,
+  listPickupSnapshots
+} from "../services/pickup-snapshots.js";
+import { getEventRevisions } from "../services/event-revisions.js";
+import { getProxiedImage, isKnownImageUrl, pickImageWidth } from "../services/image-proxy.js";
 import { asyncRoute, csvToEnumArray, csvToIntArray } from "./helpers.js";
 
 export const publicRouter = Router();
@@ -25,6 +32,27 @@ const eventsQuerySchema = z.object({
   offset: z.coerce.number().int().min(0).optional()
 });
 
+const snapshotDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  // Rejects dates such as 2026-13-45 that match the pattern but are not on the calendar.
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, { message: "Invalid calendar date" });
+
+const snapshotDiffQuerySchema = z.object({
+  from: snapshotDateSchema.optional(),
+  to: snapshotDateSchema.optional()
+});
+
+const imageQuerySchema = z.object({
+  url: z.string().url().max(2048),
+  w: z.coerce.number().int().min(1).max(4096).optional()
+});
+
+const pickupCopyrightNotice = "Images are loaded from official notice pages and remain property of each publisher.";
+
 publicRouter.get(
   "/games",
   asyncRoute(async (_req, res) => {
@@ -104,47 +132,74 @@ publicRouter.get(
   })
 );
 
+publicRouter.get(
+  "/push/vapid-public-key",
+  asyncRoute(async (_req, res) => {
+    if (!config.vapidPublicKey) {
+      res.status(503).json({ error: "Web Push is not configured" });
+      return;
+    }
+
+    res.json({ publicKey: config.vapidPublicKey });
+  })
+);
+
 publicRouter.get(
   "/pickup-snapshot/latest",
   asyncRoute(async (_req, res) => {
-    const reportsDir = path.resolve(process.cwd(), "reports");
-    const files = await fs.readdir(reportsDir).catch(() => []);
-    const latest = files
-      .filter((file) => /^pickup_snapshot_\d{4}-\d{2}-\d{2}\.json$/.test(file))
-      .sort()
-      .at(-1);
-
-    if (!latest) {
-      res.status(404).json({ error: "Pickup snapshot report not found" });
+    const snapshot = await getLatestPickupSnapshot();
+    if (!snapshot) {
+      res.status(404).json({ error: "Pickup snapshot not found" });
       return;
     }
 
-    const fullPath = path.join(reportsDir, latest);
-    const raw = await fs.readFile(fullPath, "utf8");
-    const parsed = JSON.parse(raw.replace(/^\uFEFF/, "")) as {
-      generatedAt: string;
-      itemCount: number;
-      failures: string[];
-      items: Array<{
-        game: string;
-        region: string;
-        title: string;
-        startAtUtc: string | null;
-        endAtUtc: string | null;
-        sourceUrl: string;
-        imageUrl?: string | null;
-        note?: string;
-      }>;
-    };
+    res.json({ ...snapshot, copyrightNotice: pickupCopyrightNotice });
+  })
+);
 
-    res.json({
-      file: latest,
-      generatedAt: parsed.generatedAt,
-      itemCount: parsed.itemCount,
-      failures: parsed.failures,
-      items: parsed.items,
-      copyrightNotice: "Images are loaded from official notice pages and remain property of each publisher."
-    });
+publicRouter.get(
+  "/pickup-snapshots",
+  asyncRoute(async (_req, res) => {
+    const items = await listPickupSnapshots();
+    res.json({ items });
+  })
+);
+
+publicRouter.get(
+  "/pickup-snapshots/diff",
+  asyncRoute(async (req, res) => {
+    const parsed = snapshotDiffQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid query", details: parsed.error.flatten() });
+      return;
+    }
+
+    const diff = await diffPickupSnapshots(parsed.data);
+    if (!diff) {
+      res.status(404).json({ error: "Pickup snapshots to compare not found" });
+      return;
+    }
+
+    res.json(diff);
+  })
+);
+
+publicRouter.get(
+  "/pickup-snapshots/:date",
+  asyncRoute(async (req, res) => {
+    const parsed = snapshotDateSchema.safeParse(req.params.date);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid snapshot date" });
+      return;
+    }
+
+    const snapshot = await getPickupSnapshotByDate(parsed.data);
+    if (!snapshot) {
+      res.status(404).json({ error: "Pickup snapshot not found" });
+      return;
+    }
+
+    res.json({ ...snapshot, copyrightNotice: pickupCopyrightNotice });
   })
 );
 
@@ -391,3 +446,76 @@ publicRouter.get(
     });
   })
 );
+
+publicRouter.get(
+  "/events/:id/revisions",
+  asyncRoute(async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      res.status(400).json({ error: "Invalid event id" });
+      return;
+    }
+
+    const event = await pool.query<{ visibility: EventVisibility }>(
+      `SELECT visibility
+       FROM events
+       WHERE id = $1`,
+      [id]
+    );
+    const visibility = event.rows[0]?.visibility;
+    if (!visibility || (visibility !== "PUBLIC" && req.authUser?.role !== "ADMIN")) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Visibility moves are moderation, not news; who made a change stays admin-only.
+    const revisions = await getEventRevisions(id);
+    res.json({
+      items: revisions
+        .map((revision) => ({
+          id: revision.id,
+          source: revision.source,
+          changes: revision.changes.filter((change) => change.field !== "visibility"),
+          createdAt: revision.createdAt
+        }))
+        .filter((revision) => revision.changes.length > 0)
+    });
+  })
+);
+
+publicRouter.get(
+  "/images",
+  asyncRoute(async (req, res) => {
+    const parsed = imageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid query", details: parsed.error.flatten() });
+      return;
+    }
+
+    if (!(await isKnownImageUrl(parsed.data.url))) {
+      res.status(404).json({ error: "Image not found" });
+      return;
+    }
+
+    const image = await getProxiedImage(parsed.data.url, pickImageWidth(parsed.data.w));
+    if (image.fetchError) {
+      console.warn("Failed to fetch proxied image", image.fetchError);
+    }
+    if (!image.body) {
+      res.status(502).json({ error: "Image unavailable" });
+      return;
+    }
+
+    // A stale copy is cached briefly so browsers pick up the refreshed image once the publisher is back.
+    const maxAgeSeconds = image.cacheStatus === "STALE" ? 300 : config.imageCacheRefreshHours * 60 * 60;
+    res.set({
+      "Cache-Control": `public, max-age=${maxAgeSeconds}, stale-while-revalidate=604800`,
+      "Content-Type": "image/webp",
+      ETag: image.etag,
+      "X-Content-Type-Options": "nosniff",
+      "X-Image-Cache": image.cacheStatus
+    });
+    // res.send answers 304 itself when If-None-Match matches the ETag.
+    res.send(image.body);
+  })
+);
@@ -0,0 +1,6 @@
+﻿import webpush from "web-push";
+
+const keys = webpush.generateVAPIDKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
@@ -0,0 +1,40 @@
+﻿import fs from "node:fs/promises";
+import path from "node:path";
+import { closePool } from "../db.js";
+import type { PickupItem } from "../services/pickup-adapters.js";
+import { savePickupSnapshot } from "../services/pickup-snapshots.js";
+
+async function main() {
+  const reportsDir = path.resolve(process.cwd(), "reports");
+  const files = (await fs.readdir(reportsDir).catch(() => []))
+    .filter((file) => /^pickup_snapshot_\d{4}-\d{2}-\d{2}\.json$/.test(file))
+    .sort();
+
+  for (const file of files) {
+    const raw = await fs.readFile(path.join(reportsDir, file), "utf8");
+    const parsed = JSON.parse(raw.replace(/^\uFEFF/, "")) as {
+      generatedAt: string;
+      failures?: string[];
+      items?: PickupItem[];
+    };
+
+    const saved = await savePickupSnapshot({
+      generatedAt: parsed.generatedAt,
+      failures: parsed.failures ?? [],
+      items: parsed.items ?? []
+    });
+
+    console.log(`Imported ${file} as snapshot ${saved.snapshotDate}`);
+  }
+
+  console.log(`Imported ${files.length} snapshot file(s).`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closePool();
+  });
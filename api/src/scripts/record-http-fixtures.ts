@@ -0,0 +1,59 @@
+﻿import path from "node:path";
+import { config } from "../config.js";
+import { closePool } from "../db.js";
+import { createRecordingFetch, setHttpFetch } from "../services/http.js";
+import { listSources, previewSource } from "../services/ingest.js";
+import { getPickupAdapter, listPickupAdapters } from "../services/pickup-adapters.js";
+
+// Usage: npm run fixtures:record -- adapter:genshin source:3 (no arguments records every adapter and source)
+async function main() {
+  const fixturesDir = path.resolve(process.cwd(), config.httpFixturesDir);
+  setHttpFetch(createRecordingFetch(fixturesDir));
+
+  const targets = process.argv.slice(2);
+  const sources = await listSources();
+  const selected =
+    targets.length > 0
+      ? targets
+      : [...listPickupAdapters().map((adapter) => `adapter:${adapter.name}`), ...sources.map((source) => `source:${source.id}`)];
+
+  const failures: string[] = [];
+  for (const target of selected) {
+    const [kind, key] = target.split(":");
+    try {
+      if (kind === "adapter") {
+        const adapter = getPickupAdapter(key);
+        if (!adapter) throw new Error(`Unknown adapter "${key}"`);
+        const notices = await adapter.collect();
+        console.log(`${target}: recorded ${notices.length} notice(s)`);
+      } else if (kind === "source") {
+        const source = sources.find((item) => item.id === Number(key));
+        if (!source) throw new Error(`Unknown source ${key}`);
+        const preview = await previewSource(source, 50);
+        console.log(`${target}: recorded ${preview?.fetchedCount ?? 0} candidate(s)`);
+      } else {
+        throw new Error(`Expected adapter:<name> or source:<id>, got "${target}"`);
+      }
+    } catch (error) {
+      failures.push(`${target}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`Fixtures written to ${fixturesDir}`);
+  if (failures.length > 0) {
+    console.log("Failures:");
+    for (const failure of failures) {
+      console.log(`- ${failure}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closePool();
+  });
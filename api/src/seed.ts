@@ -164,19 +164,22 @@ async function seed() {
   const userHash = await bcrypt.hash("demo1234", 10);
 
   const adminRow = await pool.query<{ id: string }>(
-    `INSERT INTO users (email, password_hash, timezone, role)
-     VALUES ('admin@subculture.local', $1, 'Asia/Seoul', 'ADMIN')
+    `INSERT INTO users (email, password_hash, timezone, role, email_verified_at)
+     VALUES ('admin@subculture.local', $1, 'Asia/Seoul', 'ADMIN', NOW())
      ON CONFLICT (email) DO UPDATE SET
        password_hash = EXCLUDED.password_hash,
-       role = EXCLUDED.role
+       role = EXCLUDED.role,
+       email_verified_at = COALESCE(users.email_verified_at, EXCLUDED.email_verified_at)
      RETURNING id`,
     [adminHash]
   );
 
   const demoUserRow = await pool.query<{ id: string }>(
-    `INSERT INTO users (email, password_hash, timezone, role)
-     VALUES ('demo@subculture.local', $1, 'Asia/Seoul', 'USER')
-     ON CONFLICT (email) DO UPDATE SET password_hash = EXCLUDED.password_hash
+    `INSERT INTO users (email, password_hash, timezone, role, email_verified_at)
+     VALUES ('demo@subculture.local', $1, 'Asia/Seoul', 'USER', NOW())
+     ON CONFLICT (email) DO UPDATE SET
+       password_hash = EXCLUDED.password_hash,
+       email_verified_at = COALESCE(users.email_verified_at, EXCLUDED.email_verified_at)
      RETURNING id`,
     [userHash]
   );
@@ -226,7 +229,7 @@ async function seed() {
 
   const sourceSeeds: Array<{
     regionKey: string;
-    type: "RSS" | "HTML_LIST";
+    type: "RSS" | "HTML_LIST" | "ADAPTER";
     baseUrl: string;
     listUrl: string;
     configJson: Record<string, unknown>;
@@ -250,6 +253,20 @@ async function seed() {
         linkSelector: "",
         dateSelector: ""
       }
+    },
+    {
+      regionKey: "blue-archive:KR",
+      type: "ADAPTER",
+      baseUrl: "https://forum.nexon.com/bluearchive",
+      listUrl: "https://forum.nexon.com/bluearchive/board_list?board=1018",
+      configJson: { adapter: "blue-archive" }
+    },
+    {
+      regionKey: "starrail:GL",
+      type: "ADAPTER",
+      baseUrl: "https://hsr.hoyoverse.com",
+      listUrl: "https://hsr.hoyoverse.com/en-us/news",
+      configJson: { adapter: "starrail" }
     }
   ];
 
@@ -273,6 +290,46 @@ async function seed() {
     );
   }
 
+  const parserProfiles: Array<{ gameSlug: string; name: string; rules: Record<string, unknown> }> = [
+    {
+      gameSlug: "blue-archive",
+      name: "Blue Archive",
+      rules: {
+        keywords: { PICKUP: ["모집", "募集", "픽업 모집"] },
+        negativeKeywords: { PICKUP: ["모집 종료 후 보상"] },
+        titlePrefixes: ["[공지]", "[お知らせ]"]
+      }
+    },
+    {
+      gameSlug: "nikke",
+      name: "NIKKE",
+      rules: {
+        keywords: { PICKUP: ["recruit", "모집", "special recruit"] },
+        titlePrefixes: ["[Notice]", "[공지]"]
+      }
+    },
+    {
+      gameSlug: "starrail",
+      name: "Honkai: Star Rail",
+      rules: {
+        keywords: { PICKUP: ["event warp", "character event warp", "light cone event warp", "跃迁"] },
+        negativeKeywords: { PICKUP: ["warp ticket compensation"] }
+      }
+    }
+  ];
+
+  for (const profile of parserProfiles) {
+    const gameId = gameIdMap.get(profile.gameSlug);
+    if (!gameId) continue;
+
+    await pool.query(
+      `INSERT INTO parser_profiles (game_id, name, rules)
+       VALUES ($1, $2, $3::jsonb)
+       ON CONFLICT (game_id) WHERE game_id IS NOT NULL DO NOTHING`,
+      [gameId, profile.name, JSON.stringify(profile.rules)]
+    );
+  }
+
   console.log("Seed completed.");
   console.log(`Admin account: admin@subculture.local / admin1234 (id=${adminId})`);
   console.log(`Demo account: demo@subculture.local / demo1234 (id=${demoUserId})`);
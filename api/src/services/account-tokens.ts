@@ -0,0 +1,88 @@
+﻿import { generateOpaqueToken, hashOpaqueToken } from "../auth.js";
+import { config } from "../config.js";
+import { pool } from "../db.js";
+import { getMailTransport } from "./mailer.js";
+import { escapeHtml } from "./notification-templates.js";
+
+export type AccountTokenPurpose = "VERIFY_EMAIL" | "RESET_PASSWORD";
+
+function tokenTtlMinutes(purpose: AccountTokenPurpose) {
+  return purpose === "VERIFY_EMAIL" ? config.emailVerificationTtlHours * 60 : config.passwordResetTtlMinutes;
+}
+
+export async function issueAccountToken(userId: number, purpose: AccountTokenPurpose) {
+  const token = generateOpaqueToken();
+
+  // Only the newest link of each kind stays usable.
+  await pool.query(
+    `UPDATE account_tokens
+     SET used_at = NOW()
+     WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL`,
+    [userId, purpose]
+  );
+
+  await pool.query(
+    `INSERT INTO account_tokens (user_id, purpose, token_hash, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(mins => $4::int))`,
+    [userId, purpose, hashOpaqueToken(token), tokenTtlMinutes(purpose)]
+  );
+
+  return token;
+}
+
+export async function consumeAccountToken(token: string, purpose: AccountTokenPurpose) {
+  const result = await pool.query<{ user_id: string }>(
+    `UPDATE account_tokens
+     SET used_at = NOW()
+     WHERE token_hash = $1
+       AND purpose = $2
+       AND used_at IS NULL
+       AND expires_at > NOW()
+     RETURNING user_id`,
+    [hashOpaqueToken(token), purpose]
+  );
+
+  const row = result.rows[0];
+  return row ? Number(row.user_id) : null;
+}
+
+export function renderAccountEmail(purpose: AccountTokenPurpose, token: string) {
+  const baseUrl = config.appBaseUrl.replace(/\/$/, "");
+  const link =
+    purpose === "VERIFY_EMAIL"
+      ? `${baseUrl}/verify-email?token=${encodeURIComponent(token)}`
+      : `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  const copy =
+    purpose === "VERIFY_EMAIL"
+      ? {
+          subject: "Verify your Subculture Hub email",
+          intro: "Confirm this address to receive EMAIL notifications.",
+          action: "Verify email",
+          expiry: `This link expires in ${config.emailVerificationTtlHours} hours.`
+        }
+      : {
+          subject: "Reset your Subculture Hub password",
+          intro: "Someone asked to reset the password for this account. Ignore this email if it was not you.",
+          action: "Choose a new password",
+          expiry: `This link expires in ${config.passwordResetTtlMinutes} minutes and can be used once.`
+        };
+
+  const text = [copy.intro, "", `${copy.action}: ${link}`, "", copy.expiry].join("\n");
+
+  const html = `<!doctype html>
+<html>
+<body style="font-family: 'Noto Sans KR', 'Segoe UI', sans-serif; color: #172a34;">
+  <p>${escapeHtml(copy.intro)}</p>
+  <p><a href="${escapeHtml(link)}" style="color: #006f8f; font-weight: 600;">${escapeHtml(copy.action)}</a></p>
+  <p style="color: #5a6b76;">${escapeHtml(copy.expiry)}</p>
+</body>
+</html>`;
+
+  return { subject: copy.subject, text, html };
+}
+
+export async function sendAccountEmail(user: { id: number; email: string }, purpose: AccountTokenPurpose) {
+  const token = await issueAccountToken(user.id, purpose);
+  await getMailTransport().send({ to: user.email, ...renderAccountEmail(purpose, token) });
+}
@@ -0,0 +1,115 @@
+﻿import net from "node:net";
+import { load } from "cheerio";
+
+// The subset of an rss-parser item that can carry an image.
+export type RssImageFields = {
+  enclosure?: { url?: string; type?: string };
+  mediaContent?: Array<{ $?: { url?: string; medium?: string; type?: string } }>;
+  mediaThumbnail?: { $?: { url?: string } };
+  "content:encoded"?: string;
+  content?: string;
+};
+
+const imageExtension = /\.(avif|gif|jpe?g|png|webp)(\?|#|$)/i;
+
+// Meta tags publishers set for link previews, in order of preference.
+const metaImageSelectors = [
+  "meta[property='og:image:secure_url']",
+  "meta[property='og:image']",
+  "meta[name='og:image']",
+  "meta[name='twitter:image']",
+  "meta[name='twitter:image:src']",
+  "link[rel='image_src']"
+];
+
+// Banners on these addresses would make the image proxy fetch from the server's own network.
+const privateAddresses = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16]
+] as const) {
+  privateAddresses.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10]
+] as const) {
+  privateAddresses.addSubnet(prefix, bits, "ipv6");
+}
+
+/** True for localhost and for private, loopback or link-local IP addresses; host names are not resolved. */
+export function isPrivateHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+
+  const family = net.isIP(host);
+  return family !== 0 && privateAddresses.check(host, family === 6 ? "ipv6" : "ipv4");
+}
+
+/** Resolves `maybeRelative` against `baseUrl`; null unless the result is an http(s) URL on a public host. */
+export function resolveImageUrl(baseUrl: string, maybeRelative: string | null | undefined) {
+  const value = maybeRelative?.trim();
+  if (!value) return null;
+
+  try {
+    const url = new URL(value, baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return isPrivateHost(url.hostname) ? null : url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the banner of an HTML page: the og:image / twitter:image preview first, then the first
+ * image inside `contentSelector` (the whole document when omitted). Lazy-loaded images are read
+ * from `data-src`.
+ */
+export function extractBannerImageFromHtml(html: string, baseUrl: string, contentSelector?: string) {
+  if (!html) return null;
+  const $ = load(html);
+
+  for (const selector of metaImageSelectors) {
+    const node = $(selector).first();
+    const image = resolveImageUrl(baseUrl, node.attr("content") ?? node.attr("href"));
+    if (image) return image;
+  }
+
+  const scope = contentSelector ? $(contentSelector).first() : $.root();
+  for (const img of scope.find("img").toArray()) {
+    const node = $(img);
+    const image = resolveImageUrl(baseUrl, node.attr("data-src") ?? node.attr("src"));
+    if (image) return image;
+  }
+
+  return null;
+}
+
+/** Reads an RSS item's image from its enclosure, Media RSS tags or the first image in its HTML content. */
+export function extractRssItemImage(item: RssImageFields, baseUrl: string) {
+  const enclosure = item.enclosure;
+  if (enclosure?.url && (enclosure.type?.startsWith("image/") || (!enclosure.type && imageExtension.test(enclosure.url)))) {
+    const image = resolveImageUrl(baseUrl, enclosure.url);
+    if (image) return image;
+  }
+
+  for (const media of item.mediaContent ?? []) {
+    const attributes = media.$ ?? {};
+    if (attributes.medium === "image" || attributes.type?.startsWith("image/") || imageExtension.test(attributes.url ?? "")) {
+      const image = resolveImageUrl(baseUrl, attributes.url);
+      if (image) return image;
+    }
+  }
+
+  const thumbnail = resolveImageUrl(baseUrl, item.mediaThumbnail?.$?.url);
+  if (thumbnail) return thumbnail;
+
+  const html = item["content:encoded"] ?? item.content ?? "";
+  return /<img\s/i.test(html) ? extractBannerImageFromHtml(`<div>${html}</div>`, baseUrl) : null;
+}
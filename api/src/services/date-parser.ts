@@ -0,0 +1,505 @@
+﻿import { addLocalDays, getZonedParts, isValidTimezone, zonedTimeToUtc, type LocalDateTime } from "../timezone.js";
+
+export type DateAnchor = "MAINTENANCE" | "UPDATE";
+
+export type ParsedDateRange = {
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  // Set when the start is relative ("after maintenance"); startAtUtc is then the earliest possible instant, if any.
+  startAnchor: DateAnchor | null;
+  openEnded: boolean;
+  confidence: number;
+  text: string;
+};
+
+export type DateParseOptions = {
+  timezone: string;
+  // Usually the notice's published_at; used to infer missing years. Defaults to now.
+  referenceDate?: string | Date | null;
+};
+
+type TokenSpan = { index: number; end: number };
+type DateToken = TokenSpan & { kind: "DATE"; year: number | null; month: number; day: number };
+type TimeToken = TokenSpan & { kind: "TIME"; hour: number; minute: number };
+
+type Token =
+  | DateToken
+  | TimeToken
+  | (TokenSpan & { kind: "WEEKDAY" })
+  | (TokenSpan & { kind: "OFFSET"; offsetMinutes: number })
+  | (TokenSpan & { kind: "SEPARATOR"; leading: boolean })
+  | (TokenSpan & { kind: "END_MARKER" })
+  | (TokenSpan & { kind: "ANCHOR"; anchor: DateAnchor })
+  | (TokenSpan & { kind: "OPEN_END" });
+
+type TokenBody = Token extends infer T ? (T extends Token ? Omit<T, "index" | "end"> : never) : never;
+
+type Matcher = {
+  pattern: RegExp;
+  build: (match: RegExpExecArray) => TokenBody | null;
+  // Continues the ISO timestamp its lookbehind requires, so it may start inside a word ("08T04", "00Z").
+  attached?: boolean;
+};
+
+type DatePoint = {
+  date: DateToken | null;
+  time: TimeToken | null;
+  anchor: DateAnchor | null;
+  offsetMinutes: number | null;
+  index: number;
+  end: number;
+};
+
+const monthNumbers: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12
+};
+
+const monthName =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?(?![a-z])";
+
+// CST is left out on purpose: it means China Standard Time as often as US Central in our sources.
+const namedOffsets: Record<string, number> = {
+  UTC: 0,
+  GMT: 0,
+  KST: 540,
+  JST: 540,
+  HKT: 480,
+  SGT: 480,
+  PST: -480,
+  PDT: -420,
+  EST: -300,
+  EDT: -240,
+  CET: 60,
+  CEST: 120
+};
+
+function toMonth(name: string) {
+  return monthNumbers[name.slice(0, 3).toLowerCase()];
+}
+
+function toAnchor(word: string): DateAnchor {
+  return /maint|メンテ|점검|维护|維護/i.test(word) ? "MAINTENANCE" : "UPDATE";
+}
+
+function applyMeridiem(hour: number, marker: string | undefined) {
+  if (!marker) return hour;
+  const pm = /^(?:p|午後|오후|下午|中午|晚上)$/i.test(marker);
+  if (hour > 12) return hour;
+  if (pm) return hour === 12 ? 12 : hour + 12;
+  return hour === 12 ? 0 : hour;
+}
+
+function buildTime(hour: number, minute: number): TokenBody | null {
+  if (hour > 23 || minute > 59) return null;
+  return { kind: "TIME", hour, minute };
+}
+
+function buildDate(year: string | undefined, month: number, day: number): TokenBody | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return { kind: "DATE", year: year ? Number(year) : null, month, day };
+}
+
+// Order matters: at each position the first matcher that builds a token wins.
+const matchers: Matcher[] = [
+  {
+    pattern:
+      /(?:until|till) (?:further notice|the end of service)|別途(?:お知らせ|告知|案内)(?:する)?まで|追って(?:お知らせ|告知)|另行(?:通知|公告)|(?:별도|추후) ?(?:공지|안내) ?시까지|상시|常設|常驻|permanent(?:ly)?(?![a-z])/iy,
+    build: () => ({ kind: "OPEN_END" })
+  },
+  {
+    pattern:
+      /after (?:the )?(?:(?:version|ver\.?|v) ?)?(?:[\d.]+ )?(?:(?:scheduled|server|regular|emergency) )?(maintenance|update|patch)(?: (?:is )?(?:complete[d]?|ends?))?(?![a-z])/iy,
+    build: (match) => ({ kind: "ANCHOR", anchor: toAnchor(match[1]) })
+  },
+  {
+    pattern: /(?:(?:ver\.?|バージョン) ?)?(?:[\d.]+ ?)?(?:定期|臨時|緊急)?(メンテナンス|アップデート)(?: ?終了)? ?後/iy,
+    build: (match) => ({ kind: "ANCHOR", anchor: toAnchor(match[1]) })
+  },
+  {
+    pattern: /(?:[\d.]+ ?)?(?:(?:정기|임시|긴급) ?)?(점검|업데이트) ?(?:(?:완료|종료) ?)?(?:이 ?)?후/y,
+    build: (match) => ({ kind: "ANCHOR", anchor: toAnchor(match[1]) })
+  },
+  {
+    pattern: /(?:[\d.]+ ?)?(?:版本)?(维护|維護|更新)(?: ?(?:结束|結束|完成))? ?[后後]/y,
+    build: (match) => ({ kind: "ANCHOR", anchor: toAnchor(match[1]) })
+  },
+  {
+    pattern: /(?<=\d{4}-\d{1,2}-\d{1,2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(?!\d)/y,
+    build: (match) => buildTime(Number(match[1]), Number(match[2])),
+    attached: true
+  },
+  {
+    pattern: /(?<=\d{4}-\d{1,2}-\d{1,2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(?:Z|([+\-−])(\d{2}):?(\d{2}))(?![\dA-Za-z])/y,
+    build: (match) => {
+      if (!match[1]) return { kind: "OFFSET", offsetMinutes: 0 };
+      const hours = Number(match[2]);
+      const minutes = Number(match[3]);
+      if (hours > 14 || minutes > 59) return null;
+      const sign = match[1] === "+" ? 1 : -1;
+      return { kind: "OFFSET", offsetMinutes: sign * (hours * 60 + minutes) };
+    },
+    attached: true
+  },
+  {
+    pattern: /\(? ?(?:UTC|GMT) ?([+\-−]) ?(\d{1,2})(?::?(\d{2}))? ?\)?/iy,
+    build: (match) => {
+      const hours = Number(match[2]);
+      const minutes = Number(match[3] ?? 0);
+      if (hours > 14 || minutes > 59) return null;
+      const sign = match[1] === "+" ? 1 : -1;
+      return { kind: "OFFSET", offsetMinutes: sign * (hours * 60 + minutes) };
+    }
+  },
+  {
+    pattern: /\(? ?(UTC|GMT|KST|JST|HKT|SGT|PST|PDT|EST|EDT|CET|CEST)(?![A-Za-z]) ?\)?/y,
+    build: (match) => ({ kind: "OFFSET", offsetMinutes: namedOffsets[match[1]] })
+  },
+  {
+    pattern: /(\d{4}) ?[./-] ?(\d{1,2}) ?[./-] ?(\d{1,2})(?!\d)/y,
+    build: (match) => buildDate(match[1], Number(match[2]), Number(match[3]))
+  },
+  {
+    pattern: /(?:(\d{4}) ?[年년] ?)?(\d{1,2}) ?[月월] ?(\d{1,2}) ?[日일号號](?!\d)/y,
+    build: (match) => buildDate(match[1], Number(match[2]), Number(match[3]))
+  },
+  {
+    pattern: new RegExp(`${monthName} (\\d{1,2})(?:st|nd|rd|th)?(?!\\d)(?:,? (\\d{4})(?![\\d:]))?`, "iy"),
+    build: (match) => buildDate(match[3], toMonth(match[1]), Number(match[2]))
+  },
+  {
+    pattern: new RegExp(`(\\d{1,2})(?:st|nd|rd|th)? ${monthName}(?:,? (\\d{4})(?![\\d:]))?`, "iy"),
+    build: (match) => buildDate(match[3], toMonth(match[2]), Number(match[1]))
+  },
+  {
+    pattern: /(?<![\d/.])(\d{1,2})\/(\d{1,2})(?![\d/])/y,
+    build: (match) => buildDate(undefined, Number(match[1]), Number(match[2]))
+  },
+  {
+    pattern:
+      /\( ?(?:[月火水木金土日]|[월화수목금토일]|[一二三四五六日天]|周[一二三四五六日天]|星期[一二三四五六日天]|週[一二三四五六日]) ?(?:曜日?|요일)? ?\)/y,
+    build: () => ({ kind: "WEEKDAY" })
+  },
+  {
+    pattern: /\(?(?:mon|tues?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?|sun)(?:day)?\.?(?![a-z])\)?/iy,
+    build: () => ({ kind: "WEEKDAY" })
+  },
+  {
+    pattern:
+      /(?:(午前|午後|오전|오후|上午|下午|中午|晚上|凌晨) ?)?(\d{1,2})(?::(\d{2})|(?: ?[時时시点點](?![間간]) ?(?:(\d{1,2}) ?[分분]|(半|반))?))(?: ?([ap])\.?m\.?(?![a-z]))?(?!\d)/iy,
+    build: (match) => {
+      const minute = match[5] ? 30 : Number(match[3] ?? match[4] ?? 0);
+      return buildTime(applyMeridiem(Number(match[2]), match[6] ?? match[1]), minute);
+    }
+  },
+  {
+    pattern: /(\d{1,2}) ?([ap])\.?m\.?(?![a-z])/iy,
+    build: (match) => buildTime(applyMeridiem(Number(match[1]), match[2]), 0)
+  },
+  {
+    pattern: /[~〜–—-]|至|到|から|부터|(?:to|through|thru)(?![a-z])/iy,
+    build: () => ({ kind: "SEPARATOR", leading: false })
+  },
+  {
+    pattern: /(?:until|till)(?![a-z])/iy,
+    build: () => ({ kind: "SEPARATOR", leading: true })
+  },
+  {
+    pattern: /まで|까지|为止|為止/y,
+    build: () => ({ kind: "END_MARKER" })
+  }
+];
+
+function isWordChar(char: string | undefined) {
+  return char !== undefined && /[a-z0-9]/i.test(char);
+}
+
+function matchTokenAt(source: string, index: number): Token | null {
+  // Tokens never start in the middle of a latin word or number ("into", "2026"), except ISO timestamp parts.
+  const midWord = isWordChar(source[index]) && isWordChar(source[index - 1]);
+
+  for (const matcher of matchers) {
+    if (midWord && !matcher.attached) continue;
+    matcher.pattern.lastIndex = index;
+    const match = matcher.pattern.exec(source);
+    if (!match || match[0].length === 0) continue;
+    const body = matcher.build(match);
+    if (body) return { ...body, index, end: index + match[0].length } as Token;
+  }
+  return null;
+}
+
+function tokenize(source: string) {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const token = matchTokenAt(source, index);
+    if (token) {
+      tokens.push(token);
+      index = token.end;
+    } else {
+      index += 1;
+    }
+  }
+  return tokens;
+}
+
+const gapPattern = /^[\s,、()[\]【】]*(?:(?:at|on|@)[\s,]*)?$/i;
+
+function isAdjacent(filler: string, end: number, token: Token | undefined): token is Token {
+  return token !== undefined && gapPattern.test(filler.slice(end, token.index));
+}
+
+function readPoint(tokens: Token[], position: number, filler: string, allowBareTime: boolean) {
+  const first = tokens[position];
+  if (!first) return null;
+
+  const point: DatePoint = { date: null, time: null, anchor: null, offsetMinutes: null, index: first.index, end: first.end };
+  let next = position + 1;
+  const take = <K extends Token["kind"]>(kind: K) => {
+    const token = tokens[next];
+    if (token?.kind !== kind || !isAdjacent(filler, point.end, token)) return null;
+    point.end = token.end;
+    next += 1;
+    return token as Extract<Token, { kind: K }>;
+  };
+
+  if (first.kind === "DATE") {
+    point.date = first;
+    point.time = take("TIME");
+    if (!point.time) point.anchor = take("ANCHOR")?.anchor ?? null;
+  } else if (first.kind === "ANCHOR") {
+    point.anchor = first.anchor;
+    point.date = take("DATE");
+  } else if (first.kind === "TIME" && allowBareTime) {
+    point.time = first;
+  } else {
+    return null;
+  }
+
+  point.offsetMinutes = take("OFFSET")?.offsetMinutes ?? null;
+  return { point, next };
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isValidLocal(local: LocalDateTime) {
+  const { year, month, day, hour, minute } = local;
+  if (![year, month, day, hour, minute].every(Number.isInteger)) return false;
+  if (month < 1 || month > 12 || hour < 0 || hour > 23 || minute < 0 || minute > 59) return false;
+  return day >= 1 && day <= daysInMonth(year, month);
+}
+
+export function toUtcIso(parts: LocalDateTime & { timezone: string }) {
+  const { year, month, day, hour, minute } = parts;
+  if (!isValidLocal({ year, month, day, hour, minute })) return null;
+
+  // Unknown zones can only come from rows written before validation existed; treat them as UTC like before.
+  const timezone = isValidTimezone(parts.timezone) ? parts.timezone : "UTC";
+  const value = zonedTimeToUtc({ year, month, day, hour, minute }, timezone);
+  if (Number.isNaN(value.getTime())) return null;
+  return value.toISOString();
+}
+
+function toInstant(local: LocalDateTime, offsetMinutes: number | null, timezone: string) {
+  if (offsetMinutes === null) return toUtcIso({ ...local, timezone });
+  if (!isValidLocal(local)) return null;
+  const millis = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - offsetMinutes * 60_000;
+  return new Date(millis).toISOString();
+}
+
+function localMillis(local: LocalDateTime) {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+}
+
+// Picks the year that puts a year-less date closest to the reference, so a December notice
+// announcing "1/5" lands in January of the next year.
+function inferYear(month: number, day: number, reference: LocalDateTime) {
+  const referenceDay = Date.UTC(reference.year, reference.month - 1, reference.day);
+  let best = reference.year;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const year of [reference.year - 1, reference.year, reference.year + 1]) {
+    const distance = Math.abs(Date.UTC(year, month - 1, day) - referenceDay);
+    if (distance < bestDistance) {
+      best = year;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+type ResolveContext = {
+  timezone: string;
+  reference: LocalDateTime;
+  defaultOffset: number | null;
+};
+
+function resolveRange(
+  start: DatePoint | null,
+  end: DatePoint | null,
+  openEnded: boolean,
+  text: string,
+  context: ResolveContext
+): ParsedDateRange | null {
+  const startOffset = start?.offsetMinutes ?? end?.offsetMinutes ?? context.defaultOffset;
+  const endOffset = end?.offsetMinutes ?? start?.offsetMinutes ?? context.defaultOffset;
+  let yearInferred = false;
+
+  let startLocal: LocalDateTime | null = null;
+  if (start?.date) {
+    const { year, month, day } = start.date;
+    yearInferred ||= year === null;
+    startLocal = {
+      year: year ?? inferYear(month, day, context.reference),
+      month,
+      day,
+      hour: start.time?.hour ?? 0,
+      minute: start.time?.minute ?? 0
+    };
+  }
+
+  let endLocal: LocalDateTime | null = null;
+  if (end?.date) {
+    const { month, day } = end.date;
+    let year = end.date.year;
+    if (year === null) {
+      yearInferred = true;
+      if (startLocal) {
+        year = startLocal.year + (month * 100 + day < startLocal.month * 100 + startLocal.day ? 1 : 0);
+      } else {
+        year = inferYear(month, day, context.reference);
+      }
+    }
+    endLocal = { year, month, day, hour: end.time?.hour ?? 23, minute: end.time?.minute ?? 59 };
+  } else if (end?.time && startLocal) {
+    endLocal = { ...startLocal, hour: end.time.hour, minute: end.time.minute };
+    if (localMillis(endLocal) <= localMillis(startLocal)) endLocal = addLocalDays(endLocal, 1);
+  }
+
+  const startAtUtc = startLocal ? toInstant(startLocal, startOffset, context.timezone) : null;
+  const endAtUtc = endLocal ? toInstant(endLocal, endOffset, context.timezone) : null;
+  const startAnchor = start?.anchor ?? null;
+  if (!startAtUtc && !endAtUtc && !(startAnchor && openEnded)) return null;
+
+  let confidence = 0;
+  if (startAtUtc) confidence += startAnchor ? 0.08 : start?.time ? 0.15 : 0.1;
+  else if (startAnchor) confidence += 0.05;
+  if (endAtUtc) confidence += end?.time ? 0.2 : 0.15;
+  else if (openEnded) confidence += 0.1;
+  if (yearInferred) confidence -= 0.03;
+
+  return {
+    startAtUtc,
+    endAtUtc,
+    startAnchor,
+    openEnded,
+    confidence: Math.max(0, Math.round(confidence * 100) / 100),
+    text
+  };
+}
+
+function toReferenceLocal(referenceDate: string | Date | null | undefined, timezone: string): LocalDateTime {
+  const parsed = referenceDate ? new Date(referenceDate) : new Date();
+  const reference = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  const parts = getZonedParts(reference, isValidTimezone(timezone) ? timezone : "UTC");
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+export function parseDateRanges(text: string, options: DateParseOptions): ParsedDateRange[] {
+  const source = text.normalize("NFKC").replace(/\s+/g, " ").trim();
+  const allTokens = tokenize(source);
+
+  // Weekday markers like "(日)" carry no information; blank them so they never break adjacency.
+  let filler = source;
+  for (const token of allTokens) {
+    if (token.kind === "WEEKDAY") {
+      filler = `${filler.slice(0, token.index)}${" ".repeat(token.end - token.index)}${filler.slice(token.end)}`;
+    }
+  }
+  const tokens = allTokens.filter((token) => token.kind !== "WEEKDAY");
+
+  // A notice that states a single offset anywhere ("all times UTC+8") applies it to every range.
+  const offsets = new Set(tokens.flatMap((token) => (token.kind === "OFFSET" ? [token.offsetMinutes] : [])));
+  const context: ResolveContext = {
+    timezone: options.timezone,
+    reference: toReferenceLocal(options.referenceDate, options.timezone),
+    defaultOffset: offsets.size === 1 ? [...offsets][0] : null
+  };
+
+  const ranges: ParsedDateRange[] = [];
+  const add = (start: DatePoint | null, end: DatePoint | null, openEnded: boolean, spanEnd = end?.end ?? start?.end ?? 0) => {
+    const text = source.slice((start ?? end)?.index ?? 0, spanEnd).trim();
+    const range = resolveRange(start, end, openEnded, text, context);
+    if (range) ranges.push(range);
+  };
+
+  let position = 0;
+  while (position < tokens.length) {
+    const token = tokens[position];
+
+    if (token.kind === "SEPARATOR" && token.leading) {
+      const endRead = isAdjacent(filler, token.end, tokens[position + 1])
+        ? readPoint(tokens, position + 1, filler, false)
+        : null;
+      if (endRead?.point.date) {
+        add(null, endRead.point, false);
+        position = endRead.next;
+      } else {
+        position += 1;
+      }
+      continue;
+    }
+
+    const startRead = token.kind === "DATE" || token.kind === "ANCHOR" ? readPoint(tokens, position, filler, false) : null;
+    if (!startRead) {
+      position += 1;
+      continue;
+    }
+
+    const start = startRead.point;
+    const following = tokens[startRead.next];
+    const joined = isAdjacent(filler, start.end, following);
+
+    if (joined && following.kind === "SEPARATOR") {
+      const afterSeparator = tokens[startRead.next + 1];
+      if (isAdjacent(filler, following.end, afterSeparator)) {
+        if (afterSeparator.kind === "OPEN_END") {
+          add(start, null, true, afterSeparator.end);
+          position = startRead.next + 2;
+          continue;
+        }
+        const endRead = readPoint(tokens, startRead.next + 1, filler, true);
+        if (endRead) {
+          add(start, endRead.point, false);
+          position = endRead.next;
+          continue;
+        }
+      }
+    } else if (joined && following.kind === "OPEN_END") {
+      add(start, null, true, following.end);
+      position = startRead.next + 1;
+      continue;
+    } else if (joined && following.kind === "END_MARKER" && start.date) {
+      add(null, start, false);
+      position = startRead.next + 1;
+      continue;
+    }
+
+    add(start, null, false);
+    position = startRead.next;
+  }
+
+  return ranges;
+}
@@ -0,0 +1,97 @@
+﻿import { addLocalDays, getZonedParts, isValidTimezone, zonedTimeToUtc, type LocalDateTime } from "../timezone.js";
+
+export type DeliveryPreferences = {
+  timezone: string;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  digestEnabled: boolean;
+  digestWindowMinutes: number;
+};
+
+export function parseMinuteOfDay(value: string) {
+  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function formatMinuteOfDay(value: number | null) {
+  if (value === null) return null;
+  return `${String(Math.floor(value / 60)).padStart(2, "0")}:${String(value % 60).padStart(2, "0")}`;
+}
+
+function toLocal(at: Date, timezone: string) {
+  const parts = getZonedParts(at, timezone);
+  return {
+    local: { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute },
+    minuteOfDay: parts.hour * 60 + parts.minute,
+    second: parts.second
+  };
+}
+
+function atMinuteOfDay(local: LocalDateTime, minuteOfDay: number): LocalDateTime {
+  return { ...local, hour: Math.floor(minuteOfDay / 60), minute: minuteOfDay % 60 };
+}
+
+function resolveTimezone(timezone: string) {
+  return isValidTimezone(timezone) ? timezone : "UTC";
+}
+
+export function deferPastQuietHours(at: Date, prefs: DeliveryPreferences) {
+  const { quietHoursStart: start, quietHoursEnd: end } = prefs;
+  if (start === null || end === null || start === end) return at;
+
+  const timezone = resolveTimezone(prefs.timezone);
+  const { local, minuteOfDay } = toLocal(at, timezone);
+
+  if (start < end) {
+    if (minuteOfDay < start || minuteOfDay >= end) return at;
+    return zonedTimeToUtc(atMinuteOfDay(local, end), timezone);
+  }
+
+  // Window wraps midnight, e.g. 23:00-07:00.
+  if (minuteOfDay >= start) {
+    return zonedTimeToUtc(atMinuteOfDay(addLocalDays(local, 1), end), timezone);
+  }
+  if (minuteOfDay < end) {
+    return zonedTimeToUtc(atMinuteOfDay(local, end), timezone);
+  }
+
+  return at;
+}
+
+export function alignToDigestWindow(at: Date, prefs: DeliveryPreferences) {
+  if (!prefs.digestEnabled) return at;
+
+  const windowMinutes = Math.max(1, Math.min(24 * 60, prefs.digestWindowMinutes));
+  const timezone = resolveTimezone(prefs.timezone);
+  const { local, minuteOfDay, second } = toLocal(at, timezone);
+
+  // Windows are counted from local midnight; a schedule exactly on a boundary stays put.
+  const onBoundary = minuteOfDay % windowMinutes === 0 && second === 0 && at.getUTCMilliseconds() === 0;
+  if (onBoundary) return at;
+
+  const windowEnd = (Math.floor(minuteOfDay / windowMinutes) + 1) * windowMinutes;
+  if (windowEnd >= 24 * 60) {
+    return zonedTimeToUtc(atMinuteOfDay(addLocalDays(local, 1), 0), timezone);
+  }
+
+  return zonedTimeToUtc(atMinuteOfDay(local, windowEnd), timezone);
+}
+
+export function resolveDeliveryTime(at: Date, prefs: DeliveryPreferences) {
+  return deferPastQuietHours(alignToDigestWindow(at, prefs), prefs);
+}
+
+/**
+ * Resolves the delivery time of an alert that is wrong after `deadline`, such as "Ends in 1h".
+ * When the digest window would push it past the deadline it is sent on its own instead; when quiet
+ * hours would, the result is null and the alert is dropped rather than arriving after the event ended.
+ */
+export function resolveDeliveryTimeBefore(at: Date, prefs: DeliveryPreferences, deadline: Date) {
+  const scheduledAt = resolveDeliveryTime(at, prefs);
+  if (scheduledAt.getTime() <= deadline.getTime()) return { scheduledAt, digest: prefs.digestEnabled };
+
+  const undigested = deferPastQuietHours(at, prefs);
+  if (undigested.getTime() <= deadline.getTime()) return { scheduledAt: undigested, digest: false };
+  return null;
+}
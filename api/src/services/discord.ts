@@ -0,0 +1,147 @@
+﻿export type DiscordEmbed = {
+  title: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  image?: { url: string };
+  footer?: { text: string };
+  timestamp?: string;
+};
+
+export type DiscordWebhookPayload = {
+  username?: string;
+  content?: string;
+  embeds: DiscordEmbed[];
+};
+
+export type DiscordEventDetails = {
+  eventId: number;
+  title: string;
+  type: string;
+  gameName: string;
+  regionCode: string;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  sourceUrl: string | null;
+  imageUrl: string | null;
+};
+
+const discordWebhookPattern = /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+$/;
+
+const eventTypeColors: Record<string, number> = {
+  PICKUP: 0xe9a23b,
+  UPDATE: 0x3b82c4,
+  MAINTENANCE: 0x8a96a3,
+  EVENT: 0x2fa36b,
+  CAMPAIGN: 0xb05cc8
+};
+
+export function isDiscordWebhookUrl(url: string) {
+  return discordWebhookPattern.test(url);
+}
+
+export function maskWebhookUrl(url: string) {
+  const match = url.match(/\/webhooks\/(\d+)\/([\w-]+)$/);
+  if (!match) return url;
+  return url.replace(match[2], `${match[2].slice(0, 4)}...`);
+}
+
+function discordTimestamp(iso: string | null) {
+  if (!iso) return "TBD";
+  const seconds = Math.floor(new Date(iso).getTime() / 1000);
+  if (!Number.isFinite(seconds)) return "TBD";
+  // Discord renders <t:...> markers in each viewer's local timezone.
+  return `<t:${seconds}:F> (<t:${seconds}:R>)`;
+}
+
+export function buildEventEmbed(event: DiscordEventDetails, description: string): DiscordEmbed {
+  const embed: DiscordEmbed = {
+    title: `[${event.type}] ${event.title}`.slice(0, 256),
+    description,
+    color: eventTypeColors[event.type] ?? 0x006f8f,
+    fields: [
+      { name: "Game", value: event.gameName, inline: true },
+      { name: "Region", value: event.regionCode, inline: true },
+      { name: "Start", value: discordTimestamp(event.startAtUtc) },
+      { name: "End", value: discordTimestamp(event.endAtUtc) }
+    ],
+    footer: { text: `Subculture Hub event #${event.eventId}` },
+    timestamp: new Date().toISOString()
+  };
+
+  if (event.sourceUrl) {
+    embed.url = event.sourceUrl;
+    embed.fields!.push({ name: "Source", value: event.sourceUrl });
+  }
+
+  if (event.imageUrl) {
+    embed.image = { url: event.imageUrl };
+  }
+
+  return embed;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readRetryAfterMs(response: Response) {
+  try {
+    const body = (await response.json()) as { retry_after?: unknown };
+    if (typeof body.retry_after === "number") {
+      return Math.ceil(body.retry_after * 1000);
+    }
+  } catch {
+    // fall through to the header
+  }
+
+  const header = Number(response.headers.get("retry-after"));
+  return Number.isFinite(header) && header > 0 ? Math.ceil(header * 1000) : 1000;
+}
+
+export async function postDiscordWebhook(
+  url: string,
+  payload: DiscordWebhookPayload,
+  options: { maxRetries?: number; maxRetryWaitMs?: number; timeoutMs?: number } = {}
+) {
+  const maxRetries = options.maxRetries ?? 2;
+  const maxRetryWaitMs = options.maxRetryWaitMs ?? 10000;
+  const timeoutMs = options.timeoutMs ?? 10000;
+  let attempts = 0;
+
+  while (true) {
+    attempts += 1;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ username: "Subculture Hub", ...payload }),
+        signal: controller.signal
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (response.status === 429) {
+      const retryAfterMs = await readRetryAfterMs(response);
+      if (attempts <= maxRetries && retryAfterMs <= maxRetryWaitMs) {
+        await sleep(retryAfterMs);
+        continue;
+      }
+
+      return { ok: false, statusCode: 429, gone: false, attempts, retryAfterMs };
+    }
+
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      gone: response.status === 401 || response.status === 404,
+      attempts
+    };
+  }
+}
@@ -1,4 +1,15 @@
-﻿import { pool } from "../db.js";
+﻿import { config } from "../config.js";
+import { pool } from "../db.js";
+import { buildEventEmbed, postDiscordWebhook, type DiscordWebhookPayload } from "./discord.js";
+import { getMailTransport } from "./mailer.js";
+import { getRetryPolicy, resolveFailure, type RetryPolicy } from "./notification-retry.js";
+import {
+  describeTrigger,
+  renderDigestEmail,
+  renderNotificationEmail,
+  summarizeNotification
+} from "./notification-templates.js";
+import { getVapidDetails, sendWebPush, type PushMessage } from "./webpush.js";
 
 type ScheduleRow = {
   id: string;
@@ -9,79 +20,440 @@ type ScheduleRow = {
   trigger_offset_minutes: number;
   scheduled_at_utc: Date | string;
   payload_json: Record<string, unknown>;
+  attempt_count: number;
 };
 
-async function markScheduleResult(
-  scheduleId: number,
-  result: "SUCCESS" | "FAILED",
-  errorMessage?: string,
-  responsePayload?: Record<string, unknown>
-) {
+type BatchKeyRow = Pick<ScheduleRow, "id" | "user_id" | "channel" | "scheduled_at_utc" | "payload_json">;
+
+type DeliveryOutcome = {
+  ok: boolean;
+  errorMessage?: string;
+  // false when another attempt cannot succeed without user/admin action (e.g. no target configured)
+  retryable?: boolean;
+  responsePayload: Record<string, unknown>;
+};
+
+async function markScheduleResult(schedule: ScheduleRow, outcome: DeliveryOutcome, policy: RetryPolicy) {
+  const scheduleId = Number(schedule.id);
+  const attempt = schedule.attempt_count;
+
   await pool.query(
     `INSERT INTO notification_deliveries (
       schedule_id,
       result,
       error_message,
-      response_payload
-    ) VALUES ($1, $2, $3, $4::jsonb)`,
-    [scheduleId, result, errorMessage ?? null, JSON.stringify(responsePayload ?? {})]
+      response_payload,
+      attempt
+    ) VALUES ($1, $2, $3, $4::jsonb, $5)`,
+    [scheduleId, outcome.ok ? "SUCCESS" : "FAILED", outcome.errorMessage ?? null, JSON.stringify(outcome.responsePayload), attempt]
   );
 
+  if (outcome.ok) {
+    await pool.query(
+      `UPDATE notification_schedules
+       SET status = 'SENT',
+           next_attempt_at = NULL,
+           processing_started_at = NULL,
+           last_error = NULL,
+           updated_at = NOW()
+       WHERE id = $1`,
+      [scheduleId]
+    );
+    return "SENT" as const;
+  }
+
+  const failure = resolveFailure(attempt, outcome.retryable ?? true, policy);
+
   await pool.query(
     `UPDATE notification_schedules
      SET status = $2,
+         next_attempt_at = CASE WHEN $3::int IS NULL THEN NULL ELSE NOW() + make_interval(secs => $3::int) END,
+         processing_started_at = NULL,
+         last_error = $4,
          updated_at = NOW()
      WHERE id = $1`,
-    [scheduleId, result === "SUCCESS" ? "SENT" : "FAILED"]
+    [scheduleId, failure.status, failure.retryInSeconds, outcome.errorMessage ?? null]
   );
+
+  return failure.status;
+}
+
+function buildPushMessage(schedules: ScheduleRow[]): PushMessage {
+  if (schedules.length > 1) {
+    const lines = schedules.slice(0, 5).map((schedule) => summarizeNotification(schedule.payload_json ?? {}));
+    if (schedules.length > 5) lines.push(`and ${schedules.length - 5} more`);
+
+    return {
+      title: `${schedules.length} notifications`,
+      body: lines.join("\n"),
+      url: "/my-feed",
+      tag: `digest-${schedules.map((schedule) => schedule.id).join("-")}`
+    };
+  }
+
+  const [schedule] = schedules;
+  const payload = schedule.payload_json ?? {};
+  const eventTitle = typeof payload.eventTitle === "string" ? payload.eventTitle : "Event update";
+  const eventType = typeof payload.eventType === "string" ? payload.eventType : "EVENT";
+
+  return {
+    title: `[${eventType}] ${eventTitle}`,
+    body: describeTrigger(schedule.trigger_type, schedule.trigger_offset_minutes, payload.changeSummary),
+    url: `/events/${schedule.event_id}`,
+    tag: `event-${schedule.event_id}-${schedule.trigger_type}`
+  };
 }
 
-async function hasPushSubscription(userId: number) {
-  const result = await pool.query<{ count: string }>(
-    `SELECT COUNT(*)::text AS count
+async function deliverWebPush(schedules: ScheduleRow[], userId: number): Promise<DeliveryOutcome> {
+  const subscriptions = await pool.query<{ id: string; endpoint: string; p256dh: string; auth: string }>(
+    `SELECT id, endpoint, p256dh, auth
      FROM push_subscriptions
      WHERE user_id = $1`,
     [userId]
   );
 
-  return Number(result.rows[0]?.count ?? 0) > 0;
+  if (subscriptions.rows.length === 0) {
+    return {
+      ok: false,
+      errorMessage: "No push subscription for user",
+      retryable: false,
+      responsePayload: { channel: schedules[0].channel }
+    };
+  }
+
+  const vapid = getVapidDetails();
+  if (!vapid) {
+    return {
+      ok: false,
+      errorMessage: "Web Push VAPID keys are not configured",
+      retryable: false,
+      responsePayload: { channel: schedules[0].channel }
+    };
+  }
+
+  const message = buildPushMessage(schedules);
+  const results: Array<{ subscriptionId: number; statusCode: number | null; removed: boolean; error?: string }> = [];
+
+  for (const subscription of subscriptions.rows) {
+    const subscriptionId = Number(subscription.id);
+
+    try {
+      const result = await sendWebPush(subscription, message, vapid);
+
+      if (result.gone) {
+        await pool.query(`DELETE FROM push_subscriptions WHERE id = $1`, [subscriptionId]);
+      }
+
+      results.push({ subscriptionId, statusCode: result.statusCode, removed: result.gone });
+    } catch (error) {
+      const messageText = error instanceof Error ? error.message : "Push request failed";
+      results.push({ subscriptionId, statusCode: null, removed: false, error: messageText });
+    }
+  }
+
+  const delivered = results.filter((result) => result.statusCode !== null && result.statusCode < 300).length;
+  const removed = results.filter((result) => result.removed).length;
+
+  return {
+    ok: delivered > 0,
+    errorMessage: delivered > 0 ? undefined : "Push delivery failed for all subscriptions",
+    retryable: removed < results.length,
+    responsePayload: {
+      channel: schedules[0].channel,
+      delivered,
+      removed,
+      results,
+      sentAt: new Date().toISOString()
+    }
+  };
+}
+
+async function deliverEmail(schedules: ScheduleRow[], userId: number): Promise<DeliveryOutcome> {
+  const result = await pool.query<{ email: string | null; timezone: string; email_verified_at: Date | null }>(
+    `SELECT email, timezone, email_verified_at FROM users WHERE id = $1`,
+    [userId]
+  );
+
+  const user = result.rows[0];
+  if (!user?.email) {
+    return {
+      ok: false,
+      errorMessage: "User email not available",
+      retryable: false,
+      responsePayload: { channel: schedules[0].channel }
+    };
+  }
+
+  if (!user.email_verified_at) {
+    return {
+      ok: false,
+      errorMessage: "User email is not verified",
+      retryable: false,
+      responsePayload: { channel: schedules[0].channel }
+    };
+  }
+
+  const transport = getMailTransport();
+  const rendered =
+    schedules.length > 1
+      ? renderDigestEmail({
+          items: schedules.map((schedule) => ({ eventId: Number(schedule.event_id), payload: schedule.payload_json ?? {} })),
+          timezone: user.timezone
+        })
+      : renderNotificationEmail({
+          eventId: Number(schedules[0].event_id),
+          payload: schedules[0].payload_json ?? {},
+          timezone: user.timezone
+        });
+  const sendResult = await transport.send({ to: user.email, ...rendered });
+
+  return {
+    ok: true,
+    responsePayload: {
+      channel: schedules[0].channel,
+      transport: transport.name,
+      ...sendResult,
+      sentAt: new Date().toISOString()
+    }
+  };
 }
 
-async function hasEmail(userId: number) {
-  const result = await pool.query<{ email: string | null }>(
-    `SELECT email FROM users WHERE id = $1`,
+async function deliverDiscord(schedules: ScheduleRow[], userId: number): Promise<DeliveryOutcome> {
+  const webhooks = await pool.query<{ id: string; webhook_url: string }>(
+    `SELECT id, webhook_url
+     FROM user_discord_webhooks
+     WHERE user_id = $1 AND enabled = true`,
     [userId]
   );
 
-  return Boolean(result.rows[0]?.email);
+  if (webhooks.rows.length === 0) {
+    return {
+      ok: false,
+      errorMessage: "Discord webhook is not configured",
+      retryable: false,
+      responsePayload: { channel: schedules[0].channel }
+    };
+  }
+
+  const eventResult = await pool.query<{
+    id: string;
+    title: string;
+    type: string;
+    start_at_utc: Date | null;
+    end_at_utc: Date | null;
+    source_url: string | null;
+    image_url: string | null;
+    region_code: string;
+    game_name: string;
+  }>(
+    `SELECT e.id, e.title, e.type, e.start_at_utc, e.end_at_utc, e.source_url, e.image_url, r.code AS region_code, g.name AS game_name
+     FROM events e
+     JOIN regions r ON r.id = e.region_id
+     JOIN games g ON g.id = r.game_id
+     WHERE e.id = ANY($1::bigint[])`,
+    [schedules.map((schedule) => Number(schedule.event_id))]
+  );
+
+  const eventsById = new Map(eventResult.rows.map((row) => [Number(row.id), row]));
+  const embeds = schedules.flatMap((schedule) => {
+    const event = eventsById.get(Number(schedule.event_id));
+    if (!event) return [];
+
+    return [
+      buildEventEmbed(
+        {
+          eventId: Number(schedule.event_id),
+          title: event.title,
+          type: event.type,
+          gameName: event.game_name,
+          regionCode: event.region_code,
+          startAtUtc: event.start_at_utc?.toISOString() ?? null,
+          endAtUtc: event.end_at_utc?.toISOString() ?? null,
+          sourceUrl: event.source_url,
+          imageUrl: event.image_url
+        },
+        describeTrigger(schedule.trigger_type, schedule.trigger_offset_minutes, schedule.payload_json?.changeSummary)
+      )
+    ];
+  });
+
+  if (embeds.length === 0) {
+    return { ok: false, errorMessage: "Event not found", retryable: false, responsePayload: { channel: schedules[0].channel } };
+  }
+
+  // Discord accepts at most 10 embeds per message.
+  const messages: DiscordWebhookPayload[] = [];
+  for (let index = 0; index < embeds.length; index += 10) {
+    messages.push({
+      ...(schedules.length > 1 && index === 0 ? { content: `${schedules.length} notifications` } : {}),
+      embeds: embeds.slice(index, index + 10)
+    });
+  }
+
+  const results: Array<{ webhookId: number; statusCode: number | null; disabled: boolean; error?: string }> = [];
+
+  for (const webhook of webhooks.rows) {
+    const webhookId = Number(webhook.id);
+
+    try {
+      let result = await postDiscordWebhook(webhook.webhook_url, messages[0]);
+      for (const message of messages.slice(1)) {
+        if (!result.ok) break;
+        result = await postDiscordWebhook(webhook.webhook_url, message);
+      }
+      const error = result.ok ? null : `Discord responded with ${result.statusCode}`;
+
+      await pool.query(
+        `UPDATE user_discord_webhooks
+         SET last_used_at = NOW(),
+             last_error = $2,
+             enabled = CASE WHEN $3 THEN false ELSE enabled END
+         WHERE id = $1`,
+        [webhookId, error, result.gone]
+      );
+
+      results.push({ webhookId, statusCode: result.statusCode, disabled: result.gone, ...(error ? { error } : {}) });
+    } catch (error) {
+      const messageText = error instanceof Error ? error.message : "Discord request failed";
+      await pool.query(`UPDATE user_discord_webhooks SET last_error = $2 WHERE id = $1`, [webhookId, messageText]);
+      results.push({ webhookId, statusCode: null, disabled: false, error: messageText });
+    }
+  }
+
+  const delivered = results.filter((result) => result.statusCode !== null && result.statusCode < 300).length;
+
+  return {
+    ok: delivered > 0,
+    errorMessage: delivered > 0 ? undefined : "Discord delivery failed for all webhooks",
+    retryable: results.some((result) => !result.disabled),
+    responsePayload: {
+      channel: schedules[0].channel,
+      delivered,
+      results,
+      sentAt: new Date().toISOString()
+    }
+  };
+}
+
+const deliverers: Record<ScheduleRow["channel"], (schedules: ScheduleRow[], userId: number) => Promise<DeliveryOutcome>> = {
+  WEBPUSH: deliverWebPush,
+  EMAIL: deliverEmail,
+  DISCORD: deliverDiscord
+};
+
+// Digest schedules were aligned to the same window end at planning time, so they share scheduled_at_utc.
+function digestBatchKey(schedule: BatchKeyRow) {
+  return schedule.payload_json?.digest === true
+    ? `${schedule.user_id}|${schedule.channel}|${new Date(schedule.scheduled_at_utc).toISOString()}`
+    : `schedule|${schedule.id}`;
+}
+
+/** Digest windows the picked schedules belong to; the rest of each window is claimed with them so it goes out as one message. */
+export function collectDigestGroups(schedules: BatchKeyRow[]) {
+  const groups = new Map<string, { userId: number; channel: ScheduleRow["channel"]; scheduledAt: string }>();
+
+  for (const schedule of schedules) {
+    if (schedule.payload_json?.digest !== true) continue;
+    const key = digestBatchKey(schedule);
+    if (!groups.has(key)) {
+      groups.set(key, {
+        userId: Number(schedule.user_id),
+        channel: schedule.channel,
+        scheduledAt: new Date(schedule.scheduled_at_utc).toISOString()
+      });
+    }
+  }
+
+  return [...groups.values()];
+}
+
+export function groupDigestBatches<T extends BatchKeyRow>(schedules: T[]) {
+  const batches = new Map<string, T[]>();
+
+  for (const schedule of schedules) {
+    const key = digestBatchKey(schedule);
+    const batch = batches.get(key) ?? [];
+    batch.push(schedule);
+    batches.set(key, batch);
+  }
+
+  return [...batches.values()];
+}
+
+export async function reapStaleProcessingSchedules(timeoutSeconds: number, policy: RetryPolicy = getRetryPolicy()) {
+  const result = await pool.query<{ status: string }>(
+    `UPDATE notification_schedules
+     SET status = CASE WHEN attempt_count >= $2 THEN 'DEAD' ELSE 'PENDING' END,
+         last_error = CASE WHEN attempt_count >= $2 THEN 'Delivery interrupted while processing' ELSE last_error END,
+         processing_started_at = NULL,
+         updated_at = NOW()
+     WHERE status = 'PROCESSING'
+       AND COALESCE(processing_started_at, updated_at) < NOW() - make_interval(secs => $1::int)
+     RETURNING status`,
+    [timeoutSeconds, policy.maxAttempts]
+  );
+
+  return {
+    requeued: result.rows.filter((row) => row.status === "PENDING").length,
+    dead: result.rows.filter((row) => row.status === "DEAD").length
+  };
 }
 
+const dueScheduleSql = `((status = 'PENDING' AND scheduled_at_utc <= NOW()) OR (status = 'FAILED' AND next_attempt_at <= NOW()))`;
+
 export async function dispatchDueNotifications(limit = 100) {
+  const policy = getRetryPolicy();
+  const reaped = await reapStaleProcessingSchedules(config.notificationProcessingTimeoutSeconds, policy);
   const client = await pool.connect();
   let schedules: ScheduleRow[] = [];
 
   try {
     await client.query("BEGIN");
-    const pickResult = await client.query<ScheduleRow>(
-      `WITH picked AS (
-        SELECT id
-        FROM notification_schedules
-        WHERE status = 'PENDING'
-          AND scheduled_at_utc <= NOW()
-        ORDER BY scheduled_at_utc ASC
-        LIMIT $1
-        FOR UPDATE SKIP LOCKED
-      )
-      UPDATE notification_schedules ns
-      SET status = 'PROCESSING',
-          updated_at = NOW()
-      FROM picked
-      WHERE ns.id = picked.id
-      RETURNING ns.id, ns.user_id, ns.event_id, ns.channel, ns.trigger_type, ns.trigger_offset_minutes, ns.scheduled_at_utc, ns.payload_json`,
+    const pickResult = await client.query<BatchKeyRow>(
+      `SELECT id, user_id, channel, scheduled_at_utc, payload_json
+       FROM notification_schedules
+       WHERE ${dueScheduleSql}
+       ORDER BY COALESCE(next_attempt_at, scheduled_at_utc) ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED`,
       [limit]
     );
+    const scheduleIds = pickResult.rows.map((row) => Number(row.id));
+
+    // The limit may cut a digest window in half; claim its other due schedules too, even past the limit.
+    const groups = collectDigestGroups(pickResult.rows);
+    if (groups.length > 0) {
+      const siblingResult = await client.query<{ id: string }>(
+        `SELECT ns.id
+         FROM notification_schedules ns
+         JOIN UNNEST($1::bigint[], $2::text[], $3::timestamptz[]) AS g(group_user_id, group_channel, group_scheduled_at)
+           ON ns.user_id = g.group_user_id AND ns.channel = g.group_channel AND ns.scheduled_at_utc = g.group_scheduled_at
+         WHERE ns.payload_json->>'digest' = 'true'
+           AND NOT (ns.id = ANY($4::bigint[]))
+           AND ${dueScheduleSql}
+         FOR UPDATE OF ns SKIP LOCKED`,
+        [
+          groups.map((group) => group.userId),
+          groups.map((group) => group.channel),
+          groups.map((group) => group.scheduledAt),
+          scheduleIds
+        ]
+      );
+      scheduleIds.push(...siblingResult.rows.map((row) => Number(row.id)));
+    }
+
+    const claimResult = await client.query<ScheduleRow>(
+      `UPDATE notification_schedules
+       SET status = 'PROCESSING',
+           attempt_count = attempt_count + 1,
+           processing_started_at = NOW(),
+           updated_at = NOW()
+       WHERE id = ANY($1::bigint[])
+       RETURNING id, user_id, event_id, channel, trigger_type, trigger_offset_minutes, scheduled_at_utc, payload_json, attempt_count`,
+      [scheduleIds]
+    );
 
-    schedules = pickResult.rows;
+    schedules = claimResult.rows;
     await client.query("COMMIT");
   } catch (error) {
     await client.query("ROLLBACK");
@@ -92,58 +464,39 @@ export async function dispatchDueNotifications(limit = 100) {
 
   let sent = 0;
   let failed = 0;
+  let dead = 0;
 
-  for (const schedule of schedules) {
-    const scheduleId = Number(schedule.id);
-    const userId = Number(schedule.user_id);
+  for (const batch of groupDigestBatches(schedules)) {
+    const userId = Number(batch[0].user_id);
+    let outcome: DeliveryOutcome;
 
     try {
-      if (schedule.channel === "WEBPUSH") {
-        const available = await hasPushSubscription(userId);
-        if (!available) {
-          await markScheduleResult(scheduleId, "FAILED", "No push subscription for user", {
-            channel: schedule.channel
-          });
-          failed += 1;
-          continue;
-        }
-      }
+      outcome = await deliverers[batch[0].channel](batch, userId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unexpected delivery error";
+      outcome = { ok: false, errorMessage: message, responsePayload: { channel: batch[0].channel } };
+    }
 
-      if (schedule.channel === "EMAIL") {
-        const available = await hasEmail(userId);
-        if (!available) {
-          await markScheduleResult(scheduleId, "FAILED", "User email not available", {
-            channel: schedule.channel
-          });
-          failed += 1;
-          continue;
-        }
-      }
+    if (batch.length > 1) {
+      outcome.responsePayload = { ...outcome.responsePayload, digestScheduleIds: batch.map((schedule) => Number(schedule.id)) };
+    }
 
-      if (schedule.channel === "DISCORD") {
-        await markScheduleResult(scheduleId, "FAILED", "Discord webhook is not configured", {
-          channel: schedule.channel
-        });
+    for (const schedule of batch) {
+      const status = await markScheduleResult(schedule, outcome, policy);
+      if (status === "SENT") {
+        sent += 1;
+      } else {
         failed += 1;
-        continue;
+        if (status === "DEAD") dead += 1;
       }
-
-      await markScheduleResult(scheduleId, "SUCCESS", undefined, {
-        channel: schedule.channel,
-        simulated: true,
-        sentAt: new Date().toISOString()
-      });
-      sent += 1;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unexpected delivery error";
-      await markScheduleResult(scheduleId, "FAILED", message, { channel: schedule.channel });
-      failed += 1;
     }
   }
 
   return {
     picked: schedules.length,
     sent,
-    failed
+    failed,
+    dead,
+    reaped: reaped.requeued + reaped.dead
   };
 }
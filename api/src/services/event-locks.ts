@@ -0,0 +1,144 @@
+﻿import { pool } from "../db.js";
+
+export type LockableField = "type" | "title" | "summary" | "startAtUtc" | "endAtUtc" | "visibility";
+
+export const lockableFields: readonly LockableField[] = ["type", "title", "summary", "startAtUtc", "endAtUtc", "visibility"];
+
+// Field values as compared for conflicts: timestamps as ISO strings, missing values as null.
+export type EventFieldValues = Record<LockableField, string | null>;
+
+export type FieldConflict = {
+  field: LockableField;
+  lockedValue: string | null;
+  incomingValue: string | null;
+};
+
+export type LockedEventRow = {
+  id: string;
+  type: string;
+  title: string;
+  summary: string | null;
+  start_at_utc: Date | string | null;
+  end_at_utc: Date | string | null;
+  visibility: string;
+  locked_fields: string[];
+};
+
+const columnByField: Record<LockableField, string> = {
+  type: "type",
+  title: "title",
+  summary: "summary",
+  startAtUtc: "start_at_utc",
+  endAtUtc: "end_at_utc",
+  visibility: "visibility"
+};
+
+export function isLockableField(value: string): value is LockableField {
+  return (lockableFields as readonly string[]).includes(value);
+}
+
+function toIso(value: Date | string | null) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function eventRowToFieldValues(row: LockedEventRow): EventFieldValues {
+  return {
+    type: row.type,
+    title: row.title,
+    summary: row.summary,
+    startAtUtc: toIso(row.start_at_utc),
+    endAtUtc: toIso(row.end_at_utc),
+    visibility: row.visibility
+  };
+}
+
+/**
+ * Applies incoming parser values to an event while keeping admin-locked fields. A locked field
+ * whose incoming value differs is reported as a conflict; one that agrees again is reported as
+ * matched so a pending conflict for it can be closed.
+ */
+export function mergeLockedFields(current: EventFieldValues, incoming: EventFieldValues, lockedFields: readonly string[]) {
+  const values = { ...incoming };
+  const conflicts: FieldConflict[] = [];
+  const matched: LockableField[] = [];
+
+  for (const field of lockableFields) {
+    if (!lockedFields.includes(field)) continue;
+
+    values[field] = current[field];
+    if (current[field] === incoming[field]) {
+      matched.push(field);
+    } else {
+      conflicts.push({ field, lockedValue: current[field], incomingValue: incoming[field] });
+    }
+  }
+
+  return { values, conflicts, matched };
+}
+
+export async function recordFieldConflicts(
+  eventId: number,
+  rawNoticeId: number,
+  conflicts: FieldConflict[],
+  matched: LockableField[]
+) {
+  for (const conflict of conflicts) {
+    await pool.query(
+      `INSERT INTO event_field_conflicts (event_id, raw_notice_id, field, locked_value, incoming_value)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (event_id, field) WHERE resolved_at IS NULL
+       DO UPDATE SET
+         raw_notice_id = EXCLUDED.raw_notice_id,
+         locked_value = EXCLUDED.locked_value,
+         incoming_value = EXCLUDED.incoming_value`,
+      [eventId, rawNoticeId, conflict.field, conflict.lockedValue, conflict.incomingValue]
+    );
+  }
+
+  if (matched.length > 0) {
+    await pool.query(
+      `UPDATE event_field_conflicts
+       SET resolved_at = NOW(),
+           resolution = 'MATCHED'
+       WHERE event_id = $1 AND field = ANY($2::text[]) AND resolved_at IS NULL`,
+      [eventId, matched]
+    );
+  }
+}
+
+// Accepting a conflict writes the incoming value and unlocks the field so later ingests keep it current.
+export async function resolveFieldConflict(conflictId: number, action: "KEEP" | "ACCEPT") {
+  const result = await pool.query<{
+    event_id: string;
+    field: LockableField;
+    locked_value: string | null;
+    incoming_value: string | null;
+  }>(
+    `UPDATE event_field_conflicts
+     SET resolved_at = NOW(),
+         resolution = $2
+     WHERE id = $1 AND resolved_at IS NULL
+     RETURNING event_id, field, locked_value, incoming_value`,
+    [conflictId, action === "KEEP" ? "KEPT" : "ACCEPTED"]
+  );
+
+  const conflict = result.rows[0];
+  if (!conflict) return null;
+
+  if (action === "ACCEPT") {
+    await pool.query(
+      `UPDATE events
+       SET ${columnByField[conflict.field]} = $2,
+           locked_fields = array_remove(locked_fields, $3)
+       WHERE id = $1`,
+      [Number(conflict.event_id), conflict.incoming_value, conflict.field]
+    );
+  }
+
+  return {
+    eventId: Number(conflict.event_id),
+    field: conflict.field,
+    lockedValue: conflict.locked_value,
+    incomingValue: conflict.incoming_value
+  };
+}
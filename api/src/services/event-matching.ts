@@ -0,0 +1,125 @@
+﻿export type MatchCandidate = {
+  id: number;
+  type: string;
+  title: string;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  // The event's own source URL plus the URLs of every notice linked to it.
+  noticeUrls: string[];
+};
+
+export type MatchTarget = {
+  type: string;
+  title: string;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  url: string;
+};
+
+export type EventMatch = {
+  eventId: number;
+  titleSimilarity: number;
+  sharedUrl: boolean;
+  reason: string;
+};
+
+// Titles this similar are the same announcement with a typo fixed or a tag added.
+const minTitleSimilarity = 0.8;
+// Notices at the same URL only need roughly similar titles; sections of one notice are excluded by the caller.
+const minSharedUrlTitleSimilarity = 0.5;
+// Windows this far apart still overlap, which absorbs time zone slips between publishers' pages.
+const dateSlackMs = 24 * 60 * 60 * 1000;
+
+function bigrams(title: string) {
+  const compact = title.normalize("NFKC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+  if (compact.length < 2) return compact ? [compact] : [];
+
+  const grams: string[] = [];
+  for (let index = 0; index < compact.length - 1; index += 1) {
+    grams.push(compact.slice(index, index + 2));
+  }
+  return grams;
+}
+
+/** Dice coefficient over character bigrams, which also works for titles without spaces (CJK). */
+export function titleSimilarity(left: string, right: string) {
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of leftGrams) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+
+  let shared = 0;
+  for (const gram of rightGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared += 1;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+}
+
+function toWindow(startAtUtc: string | null, endAtUtc: string | null) {
+  const start = Date.parse(startAtUtc ?? endAtUtc ?? "");
+  const end = Date.parse(endAtUtc ?? startAtUtc ?? "");
+  return Number.isNaN(start) || Number.isNaN(end) ? null : { start, end };
+}
+
+/** Null when either side has no dates, so callers can tell "unknown" from "different". */
+export function windowsOverlap(left: Pick<MatchTarget, "startAtUtc" | "endAtUtc">, right: Pick<MatchTarget, "startAtUtc" | "endAtUtc">) {
+  const a = toWindow(left.startAtUtc, left.endAtUtc);
+  const b = toWindow(right.startAtUtc, right.endAtUtc);
+  if (!a || !b) return null;
+  return a.start <= b.end + dateSlackMs && b.start <= a.end + dateSlackMs;
+}
+
+export function normalizeNoticeUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+    return parsed.toString().replace(/\/$/, "");
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Decides whether a parsed notice describes an existing event. Date windows that do not overlap
+ * always mean a different occurrence (next week's maintenance); otherwise a shared notice URL with a
+ * similar title, or the same type with a near-identical title and overlapping dates, is a match.
+ */
+export function scoreEventMatch(candidate: MatchCandidate, target: MatchTarget): EventMatch | null {
+  const overlap = windowsOverlap(candidate, target);
+  if (overlap === false) return null;
+
+  const similarity = titleSimilarity(candidate.title, target.title);
+  const targetUrl = normalizeNoticeUrl(target.url);
+  const sharedUrl = candidate.noticeUrls.some((url) => normalizeNoticeUrl(url) === targetUrl);
+
+  const matched =
+    (sharedUrl && similarity >= minSharedUrlTitleSimilarity) ||
+    (candidate.type === target.type && overlap === true && similarity >= minTitleSimilarity);
+  if (!matched) return null;
+
+  const reasons = [`title ${similarity.toFixed(2)}`];
+  if (sharedUrl) reasons.push("same url");
+  if (overlap) reasons.push("dates overlap");
+
+  return { eventId: candidate.id, titleSimilarity: similarity, sharedUrl, reason: `SIMILAR: ${reasons.join(", ")}` };
+}
+
+// A shared notice URL outranks any title similarity; ties go to the more similar title.
+const rank = (match: EventMatch) => (match.sharedUrl ? 1 : 0) + match.titleSimilarity;
+
+export function findBestMatch(candidates: MatchCandidate[], target: MatchTarget) {
+  let best: EventMatch | null = null;
+  for (const candidate of candidates) {
+    const match = scoreEventMatch(candidate, target);
+    if (match && (!best || rank(match) > rank(best))) best = match;
+  }
+  return best;
+}
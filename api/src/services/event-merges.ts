@@ -0,0 +1,251 @@
+﻿import { pool } from "../db.js";
+import { applyParserToRawNotice } from "./ingest.js";
+import { planNotificationsForEvent, retargetDedupeKey } from "./scheduling.js";
+
+export type MergeFailure = {
+  status: 400 | 404 | 409;
+  error: string;
+};
+
+type MergeEventRow = {
+  id: string;
+  region_id: string;
+  merged_into_event_id: string | null;
+};
+
+/**
+ * Folds duplicate events into `targetEventId`. Duplicates are hidden and point at the survivor
+ * rather than being deleted, so their delivery history stays intact; their notice links move to the
+ * survivor, and sent alerts are re-keyed to it so replanning does not notify users a second time.
+ */
+export async function mergeEvents(targetEventId: number, duplicateEventIds: number[]): Promise<MergeFailure | { mergedEventIds: number[] }> {
+  const duplicates = [...new Set(duplicateEventIds)].filter((id) => id !== targetEventId);
+  if (duplicates.length === 0) {
+    return { status: 400, error: "Nothing to merge" };
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const result = await client.query<MergeEventRow>(
+      `SELECT id, region_id, merged_into_event_id
+       FROM events
+       WHERE id = ANY($1::bigint[])
+       FOR UPDATE`,
+      [[targetEventId, ...duplicates]]
+    );
+    const byId = new Map(result.rows.map((row) => [Number(row.id), row]));
+
+    const failure = validateMerge(targetEventId, duplicates, byId);
+    if (failure) {
+      await client.query("ROLLBACK");
+      return failure;
+    }
+
+    await client.query(
+      `UPDATE event_raw_links l
+       SET event_id = $1,
+           match_reason = 'MERGED'
+       WHERE l.event_id = ANY($2::bigint[])
+         AND NOT EXISTS (SELECT 1 FROM event_raw_links t WHERE t.event_id = $1 AND t.raw_notice_id = l.raw_notice_id)`,
+      [targetEventId, duplicates]
+    );
+    await client.query(`DELETE FROM event_raw_links WHERE event_id = ANY($1::bigint[])`, [duplicates]);
+
+    const sent = await client.query<{ id: string; dedupe_key: string }>(
+      `SELECT id, dedupe_key
+       FROM notification_schedules
+       WHERE event_id = ANY($1::bigint[]) AND status IN ('SENT', 'DEAD')`,
+      [duplicates]
+    );
+    for (const schedule of sent.rows) {
+      // A key the survivor already has means the user got that alert from it; the duplicate keeps its copy.
+      await client.query(
+        `UPDATE notification_schedules
+         SET event_id = $2,
+             dedupe_key = $3
+         WHERE id = $1
+           AND NOT EXISTS (SELECT 1 FROM notification_schedules WHERE dedupe_key = $3)`,
+        [Number(schedule.id), targetEventId, retargetDedupeKey(schedule.dedupe_key, targetEventId)]
+      );
+    }
+
+    await client.query(
+      `DELETE FROM notification_schedules
+       WHERE event_id = ANY($1::bigint[]) AND status IN ('PENDING', 'FAILED', 'CANCELED')`,
+      [duplicates]
+    );
+
+    await client.query(
+      `UPDATE events
+       SET merged_into_event_id = $1
+       WHERE merged_into_event_id = ANY($2::bigint[])`,
+      [targetEventId, duplicates]
+    );
+    await client.query(
+      `UPDATE events
+       SET merged_into_event_id = $1,
+           visibility = 'HIDDEN'
+       WHERE id = ANY($2::bigint[])`,
+      [targetEventId, duplicates]
+    );
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await planNotificationsForEvent(targetEventId);
+  return { mergedEventIds: duplicates };
+}
+
+function validateMerge(targetEventId: number, duplicates: number[], byId: Map<number, MergeEventRow>): MergeFailure | null {
+  const target = byId.get(targetEventId);
+  if (!target) return { status: 404, error: "Event not found" };
+  if (target.merged_into_event_id) {
+    return { status: 409, error: `Event ${targetEventId} was merged into event ${target.merged_into_event_id}` };
+  }
+
+  for (const id of duplicates) {
+    const duplicate = byId.get(id);
+    if (!duplicate) return { status: 404, error: `Event ${id} not found` };
+    if (duplicate.merged_into_event_id) {
+      return { status: 409, error: `Event ${id} was already merged into event ${duplicate.merged_into_event_id}` };
+    }
+    if (duplicate.region_id !== target.region_id) {
+      return { status: 409, error: "Only events of the same region can be merged" };
+    }
+  }
+
+  return null;
+}
+
+function validateSplit(eventId: number, row: MergeEventRow | undefined, moving: number[], linked: number[]): MergeFailure | null {
+  if (!row) return { status: 404, error: "Event not found" };
+  if (row.merged_into_event_id) {
+    return { status: 409, error: `Event ${eventId} was merged into event ${row.merged_into_event_id}` };
+  }
+  if (moving.some((id) => !linked.includes(id))) {
+    return { status: 400, error: `Raw notices must be linked to event ${eventId}` };
+  }
+  if (moving.length === linked.length) {
+    return { status: 409, error: "At least one notice has to stay on the event" };
+  }
+  return null;
+}
+
+/**
+ * Moves the given notices off an event into a new one, for a notice that was attached to the wrong
+ * event. The new event starts as a copy and is then reparsed from its notices; the notices left
+ * behind are reparsed too, since the event may have described itself from a notice that moved.
+ */
+export async function splitEvent(eventId: number, rawNoticeIds: number[]): Promise<MergeFailure | { eventId: number }> {
+  const moving = [...new Set(rawNoticeIds)];
+  if (moving.length === 0) {
+    return { status: 400, error: "Nothing to split" };
+  }
+
+  const client = await pool.connect();
+  let newEventId: number;
+  let remaining: number[];
+
+  try {
+    await client.query("BEGIN");
+
+    const event = await client.query<MergeEventRow>(
+      `SELECT id, region_id, merged_into_event_id
+       FROM events
+       WHERE id = $1
+       FOR UPDATE`,
+      [eventId]
+    );
+    const row = event.rows[0];
+    const links = await client.query<{ raw_notice_id: string }>(
+      `SELECT raw_notice_id FROM event_raw_links WHERE event_id = $1`,
+      [eventId]
+    );
+    const linked = links.rows.map((link) => Number(link.raw_notice_id));
+    remaining = linked.filter((id) => !moving.includes(id));
+
+    const failure = validateSplit(eventId, row, moving, linked);
+    if (failure) {
+      await client.query("ROLLBACK");
+      return failure;
+    }
+
+    const inserted = await client.query<{ id: string }>(
+      `INSERT INTO events (
+        region_id,
+        type,
+        title,
+        summary,
+        start_at_utc,
+        end_at_utc,
+        source_url,
+        image_url,
+        canonical_event_key,
+        confidence,
+        visibility,
+        section_key
+      )
+      SELECT
+        e.region_id,
+        e.type,
+        e.title,
+        e.summary,
+        e.start_at_utc,
+        e.end_at_utc,
+        (SELECT url FROM raw_notices WHERE id = $2),
+        e.image_url,
+        e.canonical_event_key || '-split-' || $2,
+        e.confidence,
+        e.visibility,
+        e.section_key
+      FROM events e
+      WHERE e.id = $1
+      RETURNING id`,
+      [eventId, moving[0]]
+    );
+    newEventId = Number(inserted.rows[0].id);
+
+    await client.query(
+      `UPDATE event_raw_links
+       SET event_id = $2,
+           match_reason = 'SPLIT'
+       WHERE event_id = $1 AND raw_notice_id = ANY($3::bigint[])`,
+      [eventId, newEventId, moving]
+    );
+
+    await client.query(
+      `UPDATE events
+       SET source_url = (
+         SELECT rn.url
+         FROM event_raw_links l
+         JOIN raw_notices rn ON rn.id = l.raw_notice_id
+         WHERE l.event_id = $1
+         ORDER BY rn.published_at DESC NULLS LAST, rn.id DESC
+         LIMIT 1
+       )
+       WHERE id = $1`,
+      [eventId]
+    );
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  for (const rawNoticeId of [...moving, ...remaining]) {
+    await applyParserToRawNotice(rawNoticeId);
+  }
+  await planNotificationsForEvent(eventId);
+
+  return { eventId: newEventId };
+}
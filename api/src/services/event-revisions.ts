@@ -0,0 +1,98 @@
+﻿import { pool } from "../db.js";
+import { lockableFields, type EventFieldValues, type LockableField } from "./event-locks.js";
+
+export type RevisionSource = "INGEST" | "REPARSE" | "ADMIN";
+
+export type EventFieldChange = {
+  field: LockableField;
+  before: string | null;
+  after: string | null;
+};
+
+export type EventRevision = {
+  id: number;
+  source: RevisionSource;
+  rawNoticeId: number | null;
+  changedBy: number | null;
+  changes: EventFieldChange[];
+  createdAt: string;
+};
+
+const timeFields: readonly LockableField[] = ["startAtUtc", "endAtUtc"];
+
+function normalize(field: LockableField, value: string | null) {
+  if (value === null || !timeFields.includes(field)) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/** Lists the fields whose value differs; timestamps are compared as instants, not as text. */
+export function diffEventFields(before: EventFieldValues, after: EventFieldValues): EventFieldChange[] {
+  return lockableFields.flatMap((field) => {
+    const previous = normalize(field, before[field]);
+    const next = normalize(field, after[field]);
+    return previous === next ? [] : [{ field, before: previous, after: next }];
+  });
+}
+
+export function isScheduleChange(changes: EventFieldChange[]) {
+  return changes.some((change) => timeFields.includes(change.field));
+}
+
+/** Headline for a time change notification, e.g. "Maintenance extended". */
+export function describeScheduleChange(eventType: string, changes: EventFieldChange[]) {
+  const noun = eventType === "MAINTENANCE" ? "Maintenance" : "Event";
+  const start = changes.find((change) => change.field === "startAtUtc");
+  const end = changes.find((change) => change.field === "endAtUtc");
+
+  if (!start && end?.before && end.after) {
+    return end.after > end.before ? `${noun} extended` : `${noun} ends earlier`;
+  }
+  return `${noun} time changed`;
+}
+
+export async function recordEventRevision(params: {
+  eventId: number;
+  source: RevisionSource;
+  changes: EventFieldChange[];
+  rawNoticeId?: number | null;
+  changedBy?: number | null;
+}) {
+  if (params.changes.length === 0) return null;
+
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO event_revisions (event_id, source, raw_notice_id, changed_by, changes)
+     VALUES ($1, $2, $3, $4, $5::jsonb)
+     RETURNING id`,
+    [params.eventId, params.source, params.rawNoticeId ?? null, params.changedBy ?? null, JSON.stringify(params.changes)]
+  );
+
+  return Number(result.rows[0].id);
+}
+
+export async function getEventRevisions(eventId: number): Promise<EventRevision[]> {
+  const result = await pool.query<{
+    id: string;
+    source: RevisionSource;
+    raw_notice_id: string | null;
+    changed_by: string | null;
+    changes: EventFieldChange[];
+    created_at: Date;
+  }>(
+    `SELECT id, source, raw_notice_id, changed_by, changes, created_at
+     FROM event_revisions
+     WHERE event_id = $1
+     ORDER BY created_at DESC, id DESC
+     LIMIT 100`,
+    [eventId]
+  );
+
+  return result.rows.map((row) => ({
+    id: Number(row.id),
+    source: row.source,
+    rawNoticeId: row.raw_notice_id ? Number(row.raw_notice_id) : null,
+    changedBy: row.changed_by ? Number(row.changed_by) : null,
+    changes: row.changes,
+    createdAt: row.created_at.toISOString()
+  }));
+}
@@ -0,0 +1,94 @@
+﻿import type { HttpFetch } from "./http.js";
+
+export type HostBudget = {
+  // Requests to one host that may be in flight at the same time.
+  concurrency: number;
+  // Minimum spacing between request starts to one host.
+  minIntervalMs: number;
+  // A Retry-After longer than this fails the request instead of waiting it out.
+  maxRetryAfterMs: number;
+};
+
+type HostState = {
+  active: number;
+  waiters: Array<() => void>;
+  nextStartAt: number;
+  blockedUntil: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Reads a Retry-After header given either as delay seconds or as an HTTP date. */
+export function parseRetryAfterMs(value: string | null, now = Date.now()) {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Wraps a fetch implementation with a per-host budget: at most `concurrency` requests in flight,
+ * request starts spaced by `minIntervalMs`, and a 429/503 with Retry-After pauses the whole host.
+ * A rate-limited request is retried once when the requested pause fits within `maxRetryAfterMs`.
+ */
+export function createHostLimiter(inner: HttpFetch, budget: HostBudget): HttpFetch {
+  const hosts = new Map<string, HostState>();
+
+  const stateFor = (host: string) => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, waiters: [], nextStartAt: 0, blockedUntil: 0 };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  const acquire = async (host: string, state: HostState) => {
+    const blockedFor = state.blockedUntil - Date.now();
+    if (blockedFor > budget.maxRetryAfterMs) {
+      throw new Error(`${host} asked to retry after ${new Date(state.blockedUntil).toISOString()}`);
+    }
+
+    while (state.active >= Math.max(1, budget.concurrency)) {
+      await new Promise<void>((resolve) => state.waiters.push(resolve));
+    }
+    state.active += 1;
+
+    const startAt = Math.max(Date.now(), state.nextStartAt, state.blockedUntil);
+    state.nextStartAt = startAt + budget.minIntervalMs;
+    const delay = startAt - Date.now();
+    if (delay > 0) await sleep(delay);
+  };
+
+  const release = (state: HostState) => {
+    state.active -= 1;
+    state.waiters.shift()?.();
+  };
+
+  return async (url, init) => {
+    const host = new URL(url).host;
+    const state = stateFor(host);
+
+    for (let attempt = 1; ; attempt += 1) {
+      await acquire(host, state);
+      let response: Response;
+      try {
+        response = await inner(url, init);
+      } finally {
+        release(state);
+      }
+
+      if (response.status !== 429 && response.status !== 503) return response;
+
+      const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
+      if (retryAfterMs === null) return response;
+
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + retryAfterMs);
+      if (attempt > 1 || retryAfterMs > budget.maxRetryAfterMs) return response;
+      await response.body?.cancel();
+    }
+  };
+}
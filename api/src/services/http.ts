@@ -0,0 +1,152 @@
+﻿import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "../config.js";
+import { createHostLimiter } from "./host-limiter.js";
+
+export type HttpRequestInit = RequestInit & {
+  // Starts once the host budget lets the request go, so time spent queued does not count.
+  timeoutMs?: number;
+};
+
+// How a crawler presents itself to a publisher: the User-Agent robots.txt is checked for, plus extra request headers.
+export type CrawlerIdentity = {
+  userAgent: string;
+  headers: Record<string, string>;
+};
+
+export type HttpFetch = (url: string, init?: HttpRequestInit) => Promise<Response>;
+
+export type HttpFixture = {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  // Bodies that are not valid UTF-8 (EUC-KR notice pages, images) are stored as base64.
+  bodyEncoding: "utf8" | "base64";
+  body: string;
+  recordedAt: string;
+};
+
+const timedFetch: HttpFetch = async (url, init) => {
+  const { timeoutMs, ...requestInit } = init ?? {};
+  if (!timeoutMs) return fetch(url, requestInit);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...requestInit, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// One limiter for the whole process, so every source and collector hitting the same host shares its budget.
+const networkFetch = createHostLimiter(timedFetch, {
+  concurrency: config.httpHostConcurrency,
+  minIntervalMs: config.httpHostMinIntervalMs,
+  maxRetryAfterMs: config.httpMaxRetryAfterSeconds * 1000
+});
+
+// Only headers the ingest code reads are kept, so fixtures stay small and free of cookies.
+const recordedHeaders = ["content-type", "etag", "last-modified", "location", "retry-after"];
+
+export function fixtureFileName(method: string, url: string) {
+  const parsed = new URL(url);
+  const host = parsed.hostname.replace(/[^a-z0-9.-]/gi, "_");
+  const hash = crypto.createHash("sha256").update(`${method.toUpperCase()} ${url}`).digest("hex").slice(0, 16);
+  return `${host}-${hash}.json`;
+}
+
+function requestMethod(init?: HttpRequestInit) {
+  return (init?.method ?? "GET").toUpperCase();
+}
+
+function encodeBody(bytes: Uint8Array): Pick<HttpFixture, "bodyEncoding" | "body"> {
+  try {
+    return { bodyEncoding: "utf8", body: new TextDecoder("utf-8", { fatal: true }).decode(bytes) };
+  } catch {
+    return { bodyEncoding: "base64", body: Buffer.from(bytes).toString("base64") };
+  }
+}
+
+export function fixtureToResponse(fixture: HttpFixture) {
+  const body = fixture.bodyEncoding === "base64" ? Buffer.from(fixture.body, "base64") : Buffer.from(fixture.body, "utf8");
+  // Response rejects a body for null-body statuses such as 304.
+  const nullBody = fixture.status === 204 || fixture.status === 304;
+  return new Response(nullBody ? null : new Uint8Array(body), { status: fixture.status, headers: fixture.headers });
+}
+
+/**
+ * Wraps a fetch implementation and writes every response it returns to `dir` as a fixture,
+ * keyed by method and URL. Re-recording the same URL overwrites the previous capture.
+ */
+export function createRecordingFetch(dir: string, inner: HttpFetch = networkFetch): HttpFetch {
+  return async (url, init) => {
+    const response = await inner(url, init);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const headers: Record<string, string> = {};
+    for (const name of recordedHeaders) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    const method = requestMethod(init);
+    const fixture: HttpFixture = {
+      method,
+      url,
+      status: response.status,
+      headers,
+      ...encodeBody(bytes),
+      recordedAt: new Date().toISOString()
+    };
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, fixtureFileName(method, url)), `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+    return fixtureToResponse(fixture);
+  };
+}
+
+/**
+ * Serves responses from fixtures in `dir` and never touches the network. A request without a
+ * fixture fails loudly so a test cannot silently pass against live pages.
+ */
+export function createReplayFetch(dir: string): HttpFetch {
+  return async (url, init) => {
+    const method = requestMethod(init);
+    const file = path.join(dir, fixtureFileName(method, url));
+    if (!fs.existsSync(file)) {
+      throw new Error(`No HTTP fixture for ${method} ${url} (expected ${file})`);
+    }
+
+    return fixtureToResponse(JSON.parse(fs.readFileSync(file, "utf8")) as HttpFixture);
+  };
+}
+
+function fetchFromConfig(): HttpFetch {
+  if (config.httpFixturesMode === "record") return createRecordingFetch(config.httpFixturesDir);
+  if (config.httpFixturesMode === "replay") return createReplayFetch(config.httpFixturesDir);
+  return networkFetch;
+}
+
+let activeFetch = fetchFromConfig();
+
+// Every outbound request made while ingesting sources goes through here, so it can be recorded or replayed.
+export function httpFetch(url: string, init?: HttpRequestInit) {
+  return activeFetch(url, init);
+}
+
+export function setHttpFetch(next: HttpFetch | null) {
+  const previous = activeFetch;
+  activeFetch = next ?? fetchFromConfig();
+  return previous;
+}
+
+export async function withHttpFetch<T>(next: HttpFetch, run: () => Promise<T>) {
+  const previous = setHttpFetch(next);
+  try {
+    return await run();
+  } finally {
+    setHttpFetch(previous);
+  }
+}
@@ -0,0 +1,291 @@
+﻿import crypto from "node:crypto";
+import dns from "node:dns/promises";
+import fs from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+import sharp from "sharp";
+import { config } from "../config.js";
+import { pool } from "../db.js";
+import { isPrivateHost } from "./banner-images.js";
+import { httpFetch } from "./http.js";
+
+// Requested widths snap up to one of these, so the cache holds a handful of variants per image.
+export const imageWidths = [320, 640, 960, 1280] as const;
+export const defaultImageWidth = 640;
+
+export type ImageCacheOptions = {
+  cacheDir: string;
+  // A cached original older than this is revalidated against the publisher on the next request.
+  refreshMs: number;
+  maxBytes: number;
+  now?: number;
+  // Looks up the addresses of an image host before it is fetched; DNS unless a test swaps it out.
+  resolveHost?: HostResolver;
+};
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export type ProxiedImage = {
+  body: Buffer;
+  etag: string;
+  // STALE means the original could not be refreshed and the cached copy was served instead.
+  cacheStatus: "HIT" | "MISS" | "STALE";
+  // Why fetching the original failed during this request, for the caller to log; null otherwise.
+  fetchError: string | null;
+};
+
+// The image was never cached and could not be fetched, or is in its post-failure backoff (fetchError is null then).
+export type UnavailableImage = {
+  body: null;
+  fetchError: string | null;
+};
+
+type CacheMeta = {
+  url: string;
+  fetchedAt: string;
+  etag: string | null;
+  lastModified: string | null;
+};
+
+type CachePaths = {
+  dir: string;
+  meta: string;
+  original: string;
+  variant: (width: number) => string;
+};
+
+// After a failed fetch the URL is left alone for a while instead of being retried on every page view.
+const failureBackoffMs = 10 * 60 * 1000;
+// Bounds decoding memory for hostile or oversized inputs.
+const maxInputPixels = 50_000_000;
+
+// Publisher CDNs often redirect once or twice; each hop is checked before it is fetched.
+const maxRedirects = 3;
+
+const lookupHost: HostResolver = async (hostname) =>
+  (await dns.lookup(hostname, { all: true })).map((entry) => entry.address);
+
+const failedUntil = new Map<string, number>();
+const inFlight = new Map<string, Promise<ProxiedImage | UnavailableImage>>();
+
+export function pickImageWidth(requested: number | null | undefined) {
+  if (!requested || !Number.isFinite(requested) || requested <= 0) return defaultImageWidth;
+  return imageWidths.find((width) => width >= requested) ?? imageWidths[imageWidths.length - 1];
+}
+
+export function imageCacheKey(url: string) {
+  return crypto.createHash("sha256").update(url).digest("hex");
+}
+
+function cachePaths(cacheDir: string, key: string): CachePaths {
+  const dir = path.join(cacheDir, key.slice(0, 2));
+  return {
+    dir,
+    meta: path.join(dir, `${key}.json`),
+    original: path.join(dir, `${key}.orig`),
+    variant: (width) => path.join(dir, `${key}-${width}.webp`)
+  };
+}
+
+async function readFileOrNull(file: string) {
+  try {
+    return await fs.readFile(file);
+  } catch {
+    return null;
+  }
+}
+
+// Readers never see a half-written file: data goes to a temporary name first and is renamed into place.
+async function writeFileAtomic(file: string, data: Buffer | string) {
+  const temporary = `${file}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  await fs.writeFile(temporary, data);
+  await fs.rename(temporary, file);
+}
+
+function renderVariant(original: Buffer, width: number) {
+  return sharp(original, { limitInputPixels: maxInputPixels })
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+function variantEtag(body: Buffer) {
+  return `"${crypto.createHash("sha256").update(body).digest("base64url").slice(0, 22)}"`;
+}
+
+/** Rejects URLs that are not http(s) or whose host is or resolves to a private, loopback or link-local address. */
+async function assertPublicImageUrl(url: URL, resolveHost: HostResolver) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported image URL ${url}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isPrivateHost(host) || net.isIP(host) ? [host] : await resolveHost(host);
+  if (addresses.some(isPrivateHost)) {
+    throw new Error(`Image URL ${url} points to a private address`);
+  }
+}
+
+/** Reads the body while counting bytes, so a response without content-length cannot exceed `maxBytes` in memory. */
+async function readCappedBody(response: Response, url: string, maxBytes: number) {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Image at ${url} is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  return Buffer.concat(chunks, length);
+}
+
+/** Fetches the original, conditionally when it is cached. `body` is null when the publisher answered 304. */
+async function fetchOriginal(url: string, previous: CacheMeta | null, options: ImageCacheOptions, now: number) {
+  const { maxBytes, resolveHost = lookupHost } = options;
+  const headers: Record<string, string> = {
+    Accept: "image/avif,image/webp,image/*;q=0.8",
+    "User-Agent": config.crawlerUserAgent
+  };
+  if (previous?.etag) headers["If-None-Match"] = previous.etag;
+  if (previous?.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+
+  // isKnownImageUrl only proves a publisher page named the URL, so the stored URL and every redirect hop are checked.
+  let target = new URL(url);
+  await assertPublicImageUrl(target, resolveHost);
+  let response = await httpFetch(target.toString(), { timeoutMs: 15000, headers, redirect: "manual" });
+  for (let hop = 0; response.status >= 300 && response.status < 400 && response.status !== 304; hop += 1) {
+    const location = response.headers.get("location");
+    if (!location || hop >= maxRedirects) {
+      throw new Error(`Image fetch for ${url} stopped at redirect status ${response.status}`);
+    }
+    await response.body?.cancel();
+    target = new URL(location, target);
+    await assertPublicImageUrl(target, resolveHost);
+    response = await httpFetch(target.toString(), { timeoutMs: 15000, headers, redirect: "manual" });
+  }
+  const fetchedAt = new Date(now).toISOString();
+
+  if (response.status === 304 && previous) {
+    return { meta: { ...previous, fetchedAt }, body: null };
+  }
+  if (!response.ok) {
+    throw new Error(`Image fetch failed with status ${response.status} for ${url}`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("image/")) {
+    await response.body?.cancel();
+    throw new Error(`Expected an image from ${url}, got "${contentType || "no content type"}"`);
+  }
+  if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Image at ${url} is larger than ${maxBytes} bytes`);
+  }
+
+  return {
+    meta: { url, fetchedAt, etag: response.headers.get("etag"), lastModified: response.headers.get("last-modified") },
+    body: await readCappedBody(response, url, maxBytes)
+  };
+}
+
+async function serveCached(
+  paths: CachePaths,
+  width: number,
+  cacheStatus: ProxiedImage["cacheStatus"],
+  fetchError: string | null = null
+): Promise<ProxiedImage | UnavailableImage> {
+  let body: Buffer | null = await readFileOrNull(paths.variant(width));
+  if (!body) {
+    const original = await readFileOrNull(paths.original);
+    if (!original) return { body: null, fetchError };
+    body = await renderVariant(original, width);
+    await writeFileAtomic(paths.variant(width), body);
+  }
+
+  return { body, etag: variantEtag(body), cacheStatus, fetchError };
+}
+
+async function loadProxiedImage(url: string, width: number, options: ImageCacheOptions): Promise<ProxiedImage | UnavailableImage> {
+  const paths = cachePaths(options.cacheDir, imageCacheKey(url));
+  const now = options.now ?? Date.now();
+  const metaFile = await readFileOrNull(paths.meta);
+  const meta = metaFile ? (JSON.parse(metaFile.toString("utf8")) as CacheMeta) : null;
+
+  if (meta && now - Date.parse(meta.fetchedAt) < options.refreshMs) {
+    return serveCached(paths, width, "HIT");
+  }
+  if ((failedUntil.get(url) ?? 0) > now) {
+    return meta ? serveCached(paths, width, "STALE") : { body: null, fetchError: null };
+  }
+
+  try {
+    const fetched = await fetchOriginal(url, meta, options, now);
+    await fs.mkdir(paths.dir, { recursive: true });
+
+    if (!fetched.body) {
+      await writeFileAtomic(paths.meta, JSON.stringify(fetched.meta));
+      return serveCached(paths, width, "HIT");
+    }
+
+    // Rendering before anything is written keeps an undecodable response from replacing a good copy.
+    const variant = await renderVariant(fetched.body, width);
+    await Promise.all(imageWidths.map((other) => fs.rm(paths.variant(other), { force: true })));
+    await writeFileAtomic(paths.original, fetched.body);
+    await writeFileAtomic(paths.variant(width), variant);
+    await writeFileAtomic(paths.meta, JSON.stringify(fetched.meta));
+    failedUntil.delete(url);
+    return { body: variant, etag: variantEtag(variant), cacheStatus: "MISS", fetchError: null };
+  } catch (error) {
+    failedUntil.set(url, now + failureBackoffMs);
+    const fetchError = error instanceof Error ? error.message : String(error);
+    // The original moved or its host is down; the cached copy keeps the banner visible.
+    return meta ? serveCached(paths, width, "STALE", fetchError) : { body: null, fetchError };
+  }
+}
+
+export function imageCacheOptionsFromConfig(): ImageCacheOptions {
+  return {
+    cacheDir: path.resolve(process.cwd(), config.imageCacheDir),
+    refreshMs: config.imageCacheRefreshHours * 60 * 60 * 1000,
+    maxBytes: config.imageMaxBytes
+  };
+}
+
+/**
+ * Returns `url` resized to `width` as WebP from the local cache, fetching the original on first
+ * use and revalidating it once it is older than `refreshMs`. `body` is null when the image was
+ * never cached and cannot be fetched. Concurrent requests for the same variant share one fetch.
+ */
+export function getProxiedImage(url: string, width: number, options = imageCacheOptionsFromConfig()) {
+  const key = `${options.cacheDir}|${url}|${width}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = loadProxiedImage(url, width, options).finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+}
+
+/** Only banners the ingest pipeline stored are proxied, so the endpoint cannot fetch arbitrary URLs. */
+export async function isKnownImageUrl(url: string) {
+  const result = await pool.query<{ known: boolean }>(
+    `SELECT
+      EXISTS (SELECT 1 FROM events WHERE image_url = $1)
+      OR EXISTS (SELECT 1 FROM pickup_snapshot_items WHERE image_url = $1) AS known`,
+    [url]
+  );
+  return result.rows[0]?.known ?? false;
+}
+
+export function clearImageFailures() {
+  failedUntil.clear();
+}
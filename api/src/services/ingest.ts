@@ -1,11 +1,36 @@
 ﻿import crypto from "node:crypto";
 import { load } from "cheerio";
 import Parser from "rss-parser";
+import { config } from "../config.js";
 import { pool } from "../db.js";
-import { planNotificationsForEvent } from "./scheduling.js";
-
-type SourceType = "RSS" | "HTML_LIST" | "HTML_DETAIL" | "API";
-type EventType = "PICKUP" | "UPDATE" | "MAINTENANCE" | "EVENT" | "CAMPAIGN";
+import { extractBannerImageFromHtml, extractRssItemImage, resolveImageUrl, type RssImageFields } from "./banner-images.js";
+import { parseDateRanges, toUtcIso, type ParsedDateRange } from "./date-parser.js";
+import { eventRowToFieldValues, mergeLockedFields, recordFieldConflicts, type LockedEventRow } from "./event-locks.js";
+import { findBestMatch } from "./event-matching.js";
+import {
+  diffEventFields,
+  isScheduleChange,
+  recordEventRevision,
+  type EventFieldChange,
+  type RevisionSource
+} from "./event-revisions.js";
+import {
+  defaultParserProfile,
+  detectEventType,
+  eventTypes,
+  getParserProfileForGame,
+  getParserProfileForSource,
+  stripTitlePrefixes,
+  type EventType,
+  type ParserProfile
+} from "./parser-profiles.js";
+import { httpFetch, type CrawlerIdentity } from "./http.js";
+import { getPickupAdapter } from "./pickup-adapters.js";
+import { assertAllowedByRobots } from "./robots.js";
+import { planChangeNotificationsForEvent, planNotificationsForEvent } from "./scheduling.js";
+import { getSourceHealthScores, recordSourceFailure, recordSourceSuccess } from "./source-health.js";
+
+type SourceType = "RSS" | "HTML_LIST" | "HTML_DETAIL" | "API" | "ADAPTER";
 
 type Visibility = "PUBLIC" | "NEED_REVIEW";
 
@@ -20,6 +45,7 @@ type SourceRow = {
   last_success_at: Date | null;
   last_error_at: Date | null;
   last_error_message: string | null;
+  consecutive_failures: number;
   config_json: Record<string, unknown>;
   region_timezone: string;
   region_code: string;
@@ -52,12 +78,38 @@ type ParsedEventDraft = {
   endAtUtc: string | null;
   confidence: number;
   visibility: Visibility;
+  // Banner heading for notices split into several events; null for single-event notices.
+  sectionKey: string | null;
 };
 
 type DateRange = {
   startAtUtc: string | null;
   endAtUtc: string | null;
   score: number;
+  ranges: ParsedDateRange[];
+};
+
+type HttpValidators = {
+  etag: string | null;
+  lastModified: string | null;
+};
+
+type KnownListEntry = {
+  title: string;
+  listDateText: string;
+  contentText: string;
+  imageUrl?: string | null;
+};
+
+export type SourceFetchState = {
+  // ETag / Last-Modified from the last successful run, keyed by list page URL.
+  validators: Map<string, HttpValidators>;
+  // Validators returned during this run; saved only after the run succeeds, so a failed run is fetched in full next time.
+  nextValidators: Map<string, HttpValidators>;
+  // Stored HTML list entries whose detail page was fetched, keyed by URL.
+  knownEntries: Map<string, KnownListEntry>;
+  notModifiedPages: number;
+  skippedDetails: number;
 };
 
 type RunSourceFetchSummary = {
@@ -69,7 +121,24 @@ type RunSourceFetchSummary = {
   status: "SUCCESS" | "PARTIAL";
 };
 
-const rssParser = new Parser();
+const rssParser = new Parser<Record<string, unknown>, RssImageFields>({
+  customFields: {
+    item: [
+      ["media:content", "mediaContent", { keepArray: true }],
+      ["media:thumbnail", "mediaThumbnail"]
+    ]
+  }
+});
+
+// A source is due once its backoff has passed, or, when it is not backing off, one interval after its last success.
+const dueSourceCondition = `s.enabled = true
+  AND (
+    (s.next_fetch_at IS NOT NULL AND s.next_fetch_at <= NOW())
+    OR (
+      s.next_fetch_at IS NULL
+      AND (s.last_success_at IS NULL OR s.last_success_at + (s.fetch_interval_minutes * INTERVAL '1 minute') <= NOW())
+    )
+  )`;
 
 function sha256(input: string) {
   return crypto.createHash("sha256").update(input).digest("hex");
@@ -94,150 +163,33 @@ function slugify(input: string) {
     .slice(0, 60);
 }
 
-function timezoneOffset(timezone: string) {
-  const map: Record<string, string> = {
-    "Asia/Seoul": "+09:00",
-    "Asia/Tokyo": "+09:00",
-    UTC: "+00:00"
-  };
-
-  return map[timezone] ?? "+00:00";
-}
-
-function toUtcIso(parts: {
-  year: number;
-  month: number;
-  day: number;
-  hour: number;
-  minute: number;
-  timezone: string;
-}) {
-  const yyyy = String(parts.year).padStart(4, "0");
-  const mm = String(parts.month).padStart(2, "0");
-  const dd = String(parts.day).padStart(2, "0");
-  const hh = String(parts.hour).padStart(2, "0");
-  const min = String(parts.minute).padStart(2, "0");
-  const offset = timezoneOffset(parts.timezone);
-  const value = new Date(`${yyyy}-${mm}-${dd}T${hh}:${min}:00${offset}`);
-  if (Number.isNaN(value.getTime())) return null;
-  return value.toISOString();
-}
-
-export function extractDateRange(text: string, timezone: string): DateRange {
-  const source = normalizeText(text);
-
-  const fullRangePattern =
-    /(\d{4})[./-](\d{1,2})[./-](\d{1,2})\s*(\d{1,2}):(\d{2})\s*[~\-–]\s*(\d{4})[./-](\d{1,2})[./-](\d{1,2})\s*(\d{1,2}):(\d{2})/;
-  const fullRangeMatch = source.match(fullRangePattern);
-
-  if (fullRangeMatch) {
-    const startAtUtc = toUtcIso({
-      year: Number(fullRangeMatch[1]),
-      month: Number(fullRangeMatch[2]),
-      day: Number(fullRangeMatch[3]),
-      hour: Number(fullRangeMatch[4]),
-      minute: Number(fullRangeMatch[5]),
-      timezone
-    });
-
-    const endAtUtc = toUtcIso({
-      year: Number(fullRangeMatch[6]),
-      month: Number(fullRangeMatch[7]),
-      day: Number(fullRangeMatch[8]),
-      hour: Number(fullRangeMatch[9]),
-      minute: Number(fullRangeMatch[10]),
-      timezone
-    });
-
-    return {
-      startAtUtc,
-      endAtUtc,
-      score: startAtUtc && endAtUtc ? 0.35 : 0.15
-    };
-  }
-
-  const sameDateRangePattern =
-    /(\d{4})[./-](\d{1,2})[./-](\d{1,2})\s*(\d{1,2}):(\d{2})\s*[~\-–]\s*(\d{1,2}):(\d{2})/;
-  const sameDateRangeMatch = source.match(sameDateRangePattern);
-
-  if (sameDateRangeMatch) {
-    const startAtUtc = toUtcIso({
-      year: Number(sameDateRangeMatch[1]),
-      month: Number(sameDateRangeMatch[2]),
-      day: Number(sameDateRangeMatch[3]),
-      hour: Number(sameDateRangeMatch[4]),
-      minute: Number(sameDateRangeMatch[5]),
-      timezone
-    });
-
-    const endAtUtc = toUtcIso({
-      year: Number(sameDateRangeMatch[1]),
-      month: Number(sameDateRangeMatch[2]),
-      day: Number(sameDateRangeMatch[3]),
-      hour: Number(sameDateRangeMatch[6]),
-      minute: Number(sameDateRangeMatch[7]),
-      timezone
-    });
-
-    return {
-      startAtUtc,
-      endAtUtc,
-      score: startAtUtc && endAtUtc ? 0.3 : 0.1
-    };
-  }
-
-  const singlePattern = /(\d{4})[./-](\d{1,2})[./-](\d{1,2})\s*(\d{1,2}):(\d{2})/;
-  const singleMatch = source.match(singlePattern);
-
-  if (singleMatch) {
-    const date = toUtcIso({
-      year: Number(singleMatch[1]),
-      month: Number(singleMatch[2]),
-      day: Number(singleMatch[3]),
-      hour: Number(singleMatch[4]),
-      minute: Number(singleMatch[5]),
-      timezone
-    });
-
-    return {
-      startAtUtc: date,
-      endAtUtc: null,
-      score: date ? 0.15 : 0.05
-    };
-  }
+export function extractDateRange(text: string, timezone: string, publishedAt: string | null = null): DateRange {
+  const ranges = parseDateRanges(text, { timezone, referenceDate: publishedAt });
+  // The most confident range drives the draft; ties keep the one mentioned first.
+  const best = ranges.reduce<ParsedDateRange | null>(
+    (top, range) => (!top || range.confidence > top.confidence ? range : top),
+    null
+  );
 
   return {
-    startAtUtc: null,
-    endAtUtc: null,
-    score: 0
+    startAtUtc: best?.startAtUtc ?? null,
+    endAtUtc: best?.endAtUtc ?? null,
+    score: best?.confidence ?? 0,
+    ranges
   };
 }
 
-function detectEventType(text: string): { type: EventType; score: number } {
-  const source = text.toLowerCase();
-
-  const pickupKeywords = ["pickup", "pick-up", "rate up", "가챠", "픽업", "recruitment", "warp"];
-  const updateKeywords = ["update", "patch", "패치", "업데이트", "version", "점검 후 업데이트"];
-  const maintenanceKeywords = ["maintenance", "점검", "maintenance notice", "긴급 점검"];
-  const campaignKeywords = ["campaign", "캠페인", "보너스", "2x", "double drop"];
-
-  const hit = (keywords: string[]) => keywords.some((word) => source.includes(word));
-
-  if (hit(pickupKeywords)) return { type: "PICKUP", score: 0.25 };
-  if (hit(maintenanceKeywords)) return { type: "MAINTENANCE", score: 0.25 };
-  if (hit(updateKeywords)) return { type: "UPDATE", score: 0.22 };
-  if (hit(campaignKeywords)) return { type: "CAMPAIGN", score: 0.2 };
-  return { type: "EVENT", score: 0.1 };
-}
-
 function toCanonicalEventKey(params: {
   regionId: number;
   type: EventType;
   title: string;
   startAtUtc: string | null;
   endAtUtc: string | null;
+  sectionKey: string | null;
 }) {
-  const base = `${params.regionId}:${params.type}:${slugify(params.title)}:${params.startAtUtc ?? "na"}:${params.endAtUtc ?? "na"}`;
+  let base = `${params.regionId}:${params.type}:${slugify(params.title)}:${params.startAtUtc ?? "na"}:${params.endAtUtc ?? "na"}`;
+  // Non-latin banner titles slugify to nothing, so split drafts also hash their section heading.
+  if (params.sectionKey) base = `${base}:${params.sectionKey}`;
   const hash = sha256(base).slice(0, 12);
   return `${params.regionId}-${params.type.toLowerCase()}-${slugify(params.title)}-${hash}`;
 }
@@ -246,49 +198,183 @@ function toVisibility(confidence: number): Visibility {
   return confidence >= 0.65 ? "PUBLIC" : "NEED_REVIEW";
 }
 
-export function parseRawNoticeToEventDraft(params: {
-  title: string;
-  contentText: string;
-  timezone: string;
-}): ParsedEventDraft {
-  const merged = `${params.title}\n${params.contentText}`;
-  const { type, score: typeScore } = detectEventType(merged);
-  const dateRange = extractDateRange(merged, params.timezone);
-  const summary = summarize(params.contentText || params.title, 220);
+function toEventDraft(
+  title: string,
+  contentText: string,
+  dateRange: DateRange,
+  sectionKey: string | null,
+  profile: ParserProfile
+): ParsedEventDraft {
+  const { type, score: typeScore } = detectEventType(title, contentText, profile);
+  const summary = summarize(contentText || title, 220);
 
   const confidence = Math.min(1, 0.35 + typeScore + dateRange.score + (summary.length > 20 ? 0.1 : 0));
 
   return {
     type,
-    title: normalizeText(params.title),
+    title: normalizeText(stripTitlePrefixes(title, profile)),
     summary,
     startAtUtc: dateRange.startAtUtc,
     endAtUtc: dateRange.endAtUtc,
     confidence,
-    visibility: toVisibility(confidence)
+    visibility: toVisibility(confidence),
+    sectionKey
   };
 }
 
-async function fetchWithTimeout(url: string, timeoutMs = 15000) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+export function parseRawNoticeToEventDraft(params: {
+  title: string;
+  contentText: string;
+  timezone: string;
+  publishedAt?: string | null;
+  profile?: ParserProfile;
+}): ParsedEventDraft {
+  const merged = `${params.title}\n${params.contentText}`;
+  const dateRange = extractDateRange(merged, params.timezone, params.publishedAt ?? null);
+  return toEventDraft(params.title, params.contentText, dateRange, null, params.profile ?? defaultParserProfile);
+}
 
-  try {
-    return await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "SubcultureHubBot/0.1 (+https://example.local)",
-        Accept: "text/html,application/rss+xml,application/xml;q=0.9,*/*;q=0.8"
-      }
-    });
-  } finally {
-    clearTimeout(timeout);
+const bracketHeadingPattern = /【([^】]{2,60})】/g;
+const namedBannerPattern =
+  /(?:event wish|chronicled wish|warp|signal search|recruitment|rate[- ]?up|pick[- ]?up|픽업|ピックアップ|祈愿|跃迁)\s*[「『"“]([^」』"”]{2,60})[」』"”]/gi;
+// A bracket heading opens a banner section only when it names a banner; 【Event Period】 or 【Exchange Period】 do not.
+const bannerHeadingPattern =
+  /pick[- ]?up|wish|gacha|banner|recruit|warp|signal search|rate[- ]?up|픽업|모집|가챠|뽑기|ピックアップ|ガチャ|募集|祈愿|卡池|跃迁|招募/i;
+
+function findBannerSections(contentText: string) {
+  const headings = [
+    ...[...contentText.matchAll(bracketHeadingPattern)].map((match) => ({
+      index: match.index,
+      end: match.index + match[0].length,
+      heading: match[1],
+      named: bannerHeadingPattern.test(match[1])
+    })),
+    ...[...contentText.matchAll(namedBannerPattern)].map((match) => ({
+      index: match.index,
+      end: match.index + match[0].length,
+      heading: match[0],
+      named: true
+    }))
+  ].sort((left, right) => left.index - right.index);
+
+  // 【Event Wish "X"】 matches both patterns; keep the outer heading and remember it names a banner.
+  const merged: typeof headings = [];
+  for (const heading of headings) {
+    const previous = merged[merged.length - 1];
+    if (previous && heading.index < previous.end) {
+      previous.named ||= heading.named;
+      continue;
+    }
+    merged.push({ ...heading });
   }
+
+  // Other headings such as 【Wish Duration】 or 【Notes】 stay inside the banner section above them.
+  const banners = merged.filter((heading) => heading.named);
+  return banners.map((heading, index) => ({
+    heading: normalizeText(heading.heading),
+    text: contentText.slice(heading.end, banners[index + 1]?.index ?? contentText.length)
+  }));
+}
+
+/**
+ * Splits notices that announce several banners at once into one draft per banner section.
+ * A section counts only when its heading names a banner; it uses its own period, or the
+ * notice-wide period when it states none. Notices with fewer than two sections yield one draft.
+ */
+export function parseRawNoticeToEventDrafts(params: {
+  title: string;
+  contentText: string;
+  timezone: string;
+  publishedAt?: string | null;
+  profile?: ParserProfile;
+}): ParsedEventDraft[] {
+  const publishedAt = params.publishedAt ?? null;
+  const profile = params.profile ?? defaultParserProfile;
+  const noticeRange = extractDateRange(`${params.title}\n${params.contentText}`, params.timezone, publishedAt);
+
+  const drafts = findBannerSections(params.contentText).map((section) => {
+    const sectionRange = extractDateRange(section.text, params.timezone, publishedAt);
+    const hasOwnRange = Boolean(sectionRange.startAtUtc || sectionRange.endAtUtc);
+
+    return toEventDraft(
+      `${params.title} - ${section.heading}`,
+      normalizeText(`${section.heading} ${section.text}`),
+      hasOwnRange ? sectionRange : noticeRange,
+      section.heading,
+      profile
+    );
+  });
+
+  if (drafts.length < 2) {
+    return [toEventDraft(params.title, params.contentText, noticeRange, null, profile)];
+  }
+  return drafts;
 }
 
-async function fetchRssEntries(source: SourceRow): Promise<RawCandidate[]> {
+export function createFetchState(init: { validators?: Map<string, HttpValidators>; knownEntries?: Map<string, KnownListEntry> } = {}) {
+  const state: SourceFetchState = {
+    validators: init.validators ?? new Map(),
+    nextValidators: new Map(),
+    knownEntries: init.knownEntries ?? new Map(),
+    notModifiedPages: 0,
+    skippedDetails: 0
+  };
+  return state;
+}
+
+// config_json.userAgent and config_json.headers let a source present itself differently to one publisher.
+function readCrawlerIdentity(source: SourceRow): CrawlerIdentity {
+  const sourceConfig = source.config_json ?? {};
+  const userAgent =
+    typeof sourceConfig.userAgent === "string" && sourceConfig.userAgent.trim() ? sourceConfig.userAgent.trim() : config.crawlerUserAgent;
+  const headers: Record<string, string> = {};
+  if (sourceConfig.headers && typeof sourceConfig.headers === "object" && !Array.isArray(sourceConfig.headers)) {
+    for (const [name, value] of Object.entries(sourceConfig.headers)) {
+      if (typeof value === "string" && name.toLowerCase() !== "user-agent") headers[name] = value;
+    }
+  }
+  return { userAgent, headers };
+}
+
+async function fetchWithTimeout(url: string, identity: CrawlerIdentity, timeoutMs = 15000, validators?: HttpValidators) {
+  await assertAllowedByRobots(url, identity.userAgent);
+
+  const headers: Record<string, string> = {
+    Accept: "text/html,application/rss+xml,application/xml;q=0.9,*/*;q=0.8",
+    ...identity.headers,
+    "User-Agent": identity.userAgent
+  };
+  if (validators?.etag) headers["If-None-Match"] = validators.etag;
+  if (validators?.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+  return httpFetch(url, { timeoutMs, headers });
+}
+
+// Fetches a list page conditionally. Returns null when the server answers 304 Not Modified.
+async function fetchListPage(url: string, identity: CrawlerIdentity, state: SourceFetchState) {
+  const response = await fetchWithTimeout(url, identity, 15000, state.validators.get(url));
+  if (response.status === 304) {
+    state.notModifiedPages += 1;
+    return null;
+  }
+
+  const etag = response.headers.get("etag");
+  const lastModified = response.headers.get("last-modified");
+  if (response.ok && (etag || lastModified)) {
+    state.nextValidators.set(url, { etag, lastModified });
+  }
+  return response;
+}
+
+async function fetchRssEntries(source: SourceRow, state: SourceFetchState): Promise<RawCandidate[]> {
   const listUrl = source.list_url ?? source.base_url;
-  const feed = await rssParser.parseURL(listUrl);
+  const response = await fetchListPage(listUrl, readCrawlerIdentity(source), state);
+  if (!response) return [];
+  if (!response.ok) {
+    throw new Error(`RSS fetch failed with status ${response.status}`);
+  }
+
+  const feed = await rssParser.parseString(await response.text());
 
   const items = (feed.items ?? []).slice(0, 50);
   return items
@@ -307,7 +393,8 @@ async function fetchRssEntries(source: SourceRow): Promise<RawCandidate[]> {
         rawPayload: {
           sourceType: "RSS",
           guid: item.guid ?? null,
-          categories: item.categories ?? []
+          categories: item.categories ?? [],
+          imageUrl: extractRssItemImage(item, url)
         }
       };
     });
@@ -321,9 +408,11 @@ function resolveMaybeRelativeUrl(baseUrl: string, maybeRelative: string) {
   }
 }
 
-async function fetchHtmlEntries(source: SourceRow): Promise<RawCandidate[]> {
+async function fetchHtmlEntries(source: SourceRow, state: SourceFetchState): Promise<RawCandidate[]> {
   const listUrl = source.list_url ?? source.base_url;
-  const response = await fetchWithTimeout(listUrl);
+  const identity = readCrawlerIdentity(source);
+  const response = await fetchListPage(listUrl, identity, state);
+  if (!response) return [];
   if (!response.ok) {
     throw new Error(`HTML list fetch failed with status ${response.status}`);
   }
@@ -337,8 +426,9 @@ async function fetchHtmlEntries(source: SourceRow): Promise<RawCandidate[]> {
   const linkSelector = typeof config.linkSelector === "string" ? config.linkSelector : "";
   const dateSelector = typeof config.dateSelector === "string" ? config.dateSelector : "";
   const detailSelector = typeof config.detailSelector === "string" ? config.detailSelector : "";
+  const imageSelector = typeof config.imageSelector === "string" ? config.imageSelector : "";
 
-  const entries: RawCandidate[] = [];
+  const listEntries: Array<{ url: string; title: string; dateText: string; listImageUrl: string | null }> = [];
   const items = $(itemSelector).slice(0, 30).toArray();
 
   for (const item of items) {
@@ -356,33 +446,258 @@ async function fetchHtmlEntries(source: SourceRow): Promise<RawCandidate[]> {
 
     const url = resolveMaybeRelativeUrl(source.base_url, linkTarget);
     const dateText = dateSelector ? node.find(dateSelector).first().text().trim() : "";
+    const image = imageSelector ? node.find(imageSelector).first() : null;
+    const listImageUrl = image ? resolveImageUrl(source.base_url, image.attr("data-src") ?? image.attr("src")) : null;
+    listEntries.push({ url, title, dateText, listImageUrl });
+  }
 
-    let contentText = normalizeText(`${title} ${dateText}`);
-
-    if (detailSelector) {
-      try {
-        const detailRes = await fetchWithTimeout(url, 12000);
-        if (detailRes.ok) {
-          const detailHtml = await detailRes.text();
-          const $$ = load(detailHtml);
-          const detailBody = $$(detailSelector).first().text().trim();
-          if (detailBody) {
-            contentText = normalizeText(`${contentText} ${detailBody}`);
+  // Detail pages are fetched concurrently; the per-host budget in http.ts keeps this polite.
+  return Promise.all(
+    listEntries.map(async ({ url, title, dateText, listImageUrl }): Promise<RawCandidate> => {
+      let contentText = normalizeText(`${title} ${dateText}`);
+      let detailFetched = false;
+      let detailImageUrl: string | null = null;
+
+      const known = state.knownEntries.get(url);
+      if (detailSelector && known && known.title === title && known.listDateText === dateText) {
+        // The list entry is unchanged, so the stored detail text is reused instead of refetching the page.
+        contentText = known.contentText;
+        detailImageUrl = known.imageUrl ?? null;
+        detailFetched = true;
+        state.skippedDetails += 1;
+      } else if (detailSelector) {
+        try {
+          const detailRes = await fetchWithTimeout(url, identity, 12000);
+          if (detailRes.ok) {
+            const detailHtml = await detailRes.text();
+            const $$ = load(detailHtml);
+            const detailBody = $$(detailSelector).first().text().trim();
+            if (detailBody) {
+              contentText = normalizeText(`${contentText} ${detailBody}`);
+            }
+            detailImageUrl = extractBannerImageFromHtml(detailHtml, url, detailSelector);
+            detailFetched = true;
           }
+        } catch {
+          // Ignore detail failures, list content is enough for fallback parsing.
+        }
+      }
+
+      return {
+        url,
+        title,
+        publishedAt: null,
+        contentText,
+        rawPayload: {
+          sourceType: "HTML_LIST",
+          extractedDateText: dateText,
+          detailFetched,
+          // The detail page's banner beats the list thumbnail, which is often cropped.
+          imageUrl: detailImageUrl ?? listImageUrl
         }
+      };
+    })
+  );
+}
+
+function readConfigString(config: Record<string, unknown>, key: string, fallback = "") {
+  const value = config[key];
+  return typeof value === "string" && value.length > 0 ? value : fallback;
+}
+
+function readConfigNumber(config: Record<string, unknown>, key: string, fallback: number) {
+  const value = Number(config[key]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function readJsonPath(value: unknown, pathExpression: string): unknown {
+  if (!pathExpression) return value;
+
+  let current: unknown = value;
+  for (const segment of pathExpression.split(".")) {
+    if (current === null || current === undefined) return undefined;
+
+    if (Array.isArray(current)) {
+      const index = Number(segment);
+      current = Number.isInteger(index) ? current[index] : undefined;
+      continue;
+    }
+
+    if (typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+export function fillUrlTemplate(template: string, item: unknown, id: string) {
+  return template.replace(/\{([^}]+)\}/g, (_match, key: string) => {
+    const value = key === "id" ? id : readJsonPath(item, key);
+    return value === null || value === undefined ? "" : encodeURIComponent(String(value));
+  });
+}
+
+function jsonValueToText(value: unknown) {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : String(value);
+}
+
+function htmlToText(input: string) {
+  if (!/<[a-z!/]/i.test(input)) return normalizeText(input);
+  return normalizeText(load(`<div>${input}</div>`)("div").text());
+}
+
+function parseApiDate(value: unknown, timezone: string): string | null {
+  if (value === null || value === undefined || value === "") return null;
+
+  if (typeof value === "number" || /^\d{9,13}$/.test(String(value))) {
+    const numeric = Number(value);
+    const millis = numeric < 1e12 ? numeric * 1000 : numeric;
+    const date = new Date(millis);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const text = String(value);
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const match = text.match(/(\d{4})[./-](\d{1,2})[./-](\d{1,2})(?:[\sT]+(\d{1,2}):(\d{2}))?/);
+  if (!match) return null;
+
+  return toUtcIso({
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    timezone
+  });
+}
+
+async function readJsonResponse(response: Response, url: string): Promise<unknown> {
+  if (!response.ok) {
+    throw new Error(`API fetch failed with status ${response.status} for ${url}`);
+  }
+
+  const raw = await response.text();
+  return JSON.parse(raw.replace(/^\uFEFF/, ""));
+}
+
+async function fetchJsonWithTimeout(url: string, identity: CrawlerIdentity, timeoutMs = 15000): Promise<unknown> {
+  return readJsonResponse(await fetchWithTimeout(url, identity, timeoutMs), url);
+}
+
+async function fetchApiEntries(source: SourceRow, state: SourceFetchState): Promise<RawCandidate[]> {
+  const listUrl = source.list_url ?? source.base_url;
+  const config = source.config_json ?? {};
+
+  const itemsPath = readConfigString(config, "itemsPath");
+  const idField = readConfigString(config, "idField", "id");
+  const titleField = readConfigString(config, "titleField", "title");
+  const contentField = readConfigString(config, "contentField", "content");
+  const dateField = readConfigString(config, "dateField");
+  const urlField = readConfigString(config, "urlField");
+  const itemUrlTemplate = readConfigString(config, "itemUrlTemplate");
+  const detailUrlTemplate = readConfigString(config, "detailUrlTemplate");
+  const detailItemPath = readConfigString(config, "detailItemPath");
+  const detailTitleField = readConfigString(config, "detailTitleField", titleField);
+  const detailContentField = readConfigString(config, "detailContentField", contentField);
+  const detailDateField = readConfigString(config, "detailDateField", dateField);
+  const imageField = readConfigString(config, "imageField");
+  const detailImageField = readConfigString(config, "detailImageField", imageField);
+  const titlePattern = readConfigString(config, "titlePattern");
+  const pageParam = readConfigString(config, "pageParam");
+  const startPage = Number.isInteger(config.startPage) ? Number(config.startPage) : 1;
+  const maxPages = pageParam ? readConfigNumber(config, "maxPages", 1) : 1;
+  const maxItems = readConfigNumber(config, "maxItems", 50);
+  const titleFilter = titlePattern ? new RegExp(titlePattern, "i") : null;
+  const identity = readCrawlerIdentity(source);
+
+  const listItems: unknown[] = [];
+
+  for (let page = startPage; page < startPage + maxPages && listItems.length < maxItems; page += 1) {
+    let pageUrl = listUrl;
+    if (pageParam) {
+      const url = new URL(listUrl);
+      url.searchParams.set(pageParam, String(page));
+      pageUrl = url.toString();
+    }
+
+    const response = await fetchListPage(pageUrl, identity, state);
+    // An unchanged page only holds items that are already stored.
+    if (!response) continue;
+
+    const body = await readJsonResponse(response, pageUrl);
+    const items = readJsonPath(body, itemsPath);
+    if (!Array.isArray(items)) {
+      throw new Error(`API response has no array at "${itemsPath || "(root)"}"`);
+    }
+
+    if (items.length === 0) break;
+    listItems.push(...items);
+  }
+
+  const entries: RawCandidate[] = [];
+
+  for (const item of listItems) {
+    if (entries.length >= maxItems) break;
+
+    const id = jsonValueToText(readJsonPath(item, idField));
+    let title = htmlToText(jsonValueToText(readJsonPath(item, titleField)));
+    if (!title || (titleFilter && !titleFilter.test(title))) {
+      continue;
+    }
+
+    let contentHtml = jsonValueToText(readJsonPath(item, contentField));
+    let publishedAt = dateField ? parseApiDate(readJsonPath(item, dateField), source.region_timezone) : null;
+    let imageTarget = imageField ? jsonValueToText(readJsonPath(item, imageField)) : "";
+    let detailUrl: string | null = null;
+
+    if (detailUrlTemplate) {
+      detailUrl = resolveMaybeRelativeUrl(source.base_url, fillUrlTemplate(detailUrlTemplate, item, id));
+      try {
+        const detailBody = await fetchJsonWithTimeout(detailUrl, identity, 12000);
+        const detail = readJsonPath(detailBody, detailItemPath);
+        title = htmlToText(jsonValueToText(readJsonPath(detail, detailTitleField))) || title;
+        contentHtml = jsonValueToText(readJsonPath(detail, detailContentField)) || contentHtml;
+        publishedAt =
+          (detailDateField ? parseApiDate(readJsonPath(detail, detailDateField), source.region_timezone) : null) ??
+          publishedAt;
+        imageTarget = (detailImageField ? jsonValueToText(readJsonPath(detail, detailImageField)) : "") || imageTarget;
       } catch {
-        // Ignore detail failures, list content is enough for fallback parsing.
+        // Ignore detail failures, list fields are enough for fallback parsing.
       }
     }
 
+    const linkTarget = urlField
+      ? jsonValueToText(readJsonPath(item, urlField))
+      : itemUrlTemplate
+        ? fillUrlTemplate(itemUrlTemplate, item, id)
+        : detailUrl ?? "";
+
+    if (!linkTarget) {
+      continue;
+    }
+
+    // Without a configured image field, the first image of the content body stands in for the banner.
+    const imageUrl = imageTarget
+      ? resolveImageUrl(source.base_url, imageTarget)
+      : /<img\s/i.test(contentHtml)
+        ? extractBannerImageFromHtml(`<div>${contentHtml}</div>`, source.base_url)
+        : null;
+
     entries.push({
-      url,
+      url: resolveMaybeRelativeUrl(source.base_url, linkTarget),
       title,
-      publishedAt: null,
-      contentText,
+      publishedAt,
+      contentText: htmlToText(contentHtml) || title,
       rawPayload: {
-        sourceType: "HTML_LIST",
-        extractedDateText: dateText
+        sourceType: "API",
+        itemId: id || null,
+        detailUrl,
+        imageUrl
       }
     });
   }
@@ -390,17 +705,47 @@ async function fetchHtmlEntries(source: SourceRow): Promise<RawCandidate[]> {
   return entries;
 }
 
-async function fetchRawCandidates(source: SourceRow): Promise<RawCandidate[]> {
+async function fetchAdapterEntries(source: SourceRow): Promise<RawCandidate[]> {
+  const adapterName = readConfigString(source.config_json ?? {}, "adapter");
+  const adapter = getPickupAdapter(adapterName);
+  if (!adapter) {
+    throw new Error(`Unknown source adapter "${adapterName}"`);
+  }
+
+  const notices = await adapter.collect(readCrawlerIdentity(source));
+
+  return notices.map((notice) => ({
+    url: notice.sourceUrl,
+    title: notice.title,
+    publishedAt: notice.publishedAt,
+    contentText: normalizeText(notice.contentText || notice.title),
+    rawPayload: {
+      sourceType: "ADAPTER",
+      adapter: adapter.name,
+      eventType: "PICKUP",
+      startAtUtc: notice.startAtUtc,
+      endAtUtc: notice.endAtUtc,
+      imageUrl: notice.imageUrl ?? null,
+      note: notice.note ?? null
+    }
+  }));
+}
+
+async function fetchRawCandidates(source: SourceRow, state = createFetchState()): Promise<RawCandidate[]> {
   if (source.type === "RSS") {
-    return fetchRssEntries(source);
+    return fetchRssEntries(source, state);
   }
 
   if (source.type === "HTML_LIST" || source.type === "HTML_DETAIL") {
-    return fetchHtmlEntries(source);
+    return fetchHtmlEntries(source, state);
   }
 
   if (source.type === "API") {
-    throw new Error("API source type is not implemented yet");
+    return fetchApiEntries(source, state);
+  }
+
+  if (source.type === "ADAPTER") {
+    return fetchAdapterEntries(source);
   }
 
   return [];
@@ -419,6 +764,7 @@ async function getSourceById(sourceId: number): Promise<SourceRow | null> {
       s.last_success_at,
       s.last_error_at,
       s.last_error_message,
+      s.consecutive_failures,
       s.config_json,
       r.timezone AS region_timezone,
       r.code AS region_code,
@@ -433,6 +779,59 @@ async function getSourceById(sourceId: number): Promise<SourceRow | null> {
   return result.rows[0] ?? null;
 }
 
+async function loadFetchState(source: SourceRow) {
+  const validatorResult = await pool.query<{ url: string; etag: string | null; last_modified: string | null }>(
+    `SELECT url, etag, last_modified
+     FROM source_http_validators
+     WHERE source_id = $1`,
+    [Number(source.id)]
+  );
+  const validators = new Map(
+    validatorResult.rows.map((row) => [row.url, { etag: row.etag, lastModified: row.last_modified }] as const)
+  );
+
+  const knownEntries = new Map<string, KnownListEntry>();
+  if (typeof source.config_json?.detailSelector === "string" && source.config_json.detailSelector) {
+    const noticeResult = await pool.query<{
+      url: string;
+      title: string;
+      content_text: string | null;
+      list_date_text: string | null;
+      image_url: string | null;
+    }>(
+      `SELECT url, title, content_text, raw_payload->>'extractedDateText' AS list_date_text, raw_payload->>'imageUrl' AS image_url
+       FROM raw_notices
+       WHERE source_id = $1
+         AND raw_payload->>'detailFetched' = 'true'
+       ORDER BY fetched_at DESC
+       LIMIT 200`,
+      [Number(source.id)]
+    );
+    for (const row of noticeResult.rows) {
+      knownEntries.set(row.url, {
+        title: row.title,
+        listDateText: row.list_date_text ?? "",
+        contentText: row.content_text ?? "",
+        imageUrl: row.image_url
+      });
+    }
+  }
+
+  return createFetchState({ validators, knownEntries });
+}
+
+async function saveHttpValidators(sourceId: number, validators: Map<string, HttpValidators>) {
+  for (const [url, value] of validators) {
+    await pool.query(
+      `INSERT INTO source_http_validators (source_id, url, etag, last_modified)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (source_id, url)
+       DO UPDATE SET etag = EXCLUDED.etag, last_modified = EXCLUDED.last_modified, updated_at = NOW()`,
+      [sourceId, url, value.etag, value.lastModified]
+    );
+  }
+}
+
 async function upsertRawNotice(sourceId: number, candidate: RawCandidate) {
   const merged = normalizeText(`${candidate.title}\n${candidate.contentText}`);
   const contentHash = sha256(merged);
@@ -512,24 +911,228 @@ async function getRawNotice(rawNoticeId: number): Promise<RawNoticeRow | null> {
   return result.rows[0] ?? null;
 }
 
-async function upsertEventFromRaw(source: SourceRow, rawNotice: RawNoticeRow) {
-  const contentText = rawNotice.content_text ?? "";
+function readPayloadString(payload: Record<string, unknown> | null, key: string) {
+  const value = payload?.[key];
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
 
-  const draft = parseRawNoticeToEventDraft({
-    title: rawNotice.title,
-    contentText,
-    timezone: source.region_timezone
-  });
+// Adapters already extract dates and banner images with game-specific rules,
+// so their values win over the generic text parser.
+function applyAdapterHints(
+  draft: ParsedEventDraft,
+  payload: Record<string, unknown> | null,
+  split: boolean
+): ParsedEventDraft {
+  if (payload?.sourceType !== "ADAPTER") return draft;
+
+  // Adapter dates describe the whole notice, so banner sections keep their own periods when they have one.
+  const hintedStart = readPayloadString(payload, "startAtUtc");
+  const hintedEnd = readPayloadString(payload, "endAtUtc");
+  const eventType = readPayloadString(payload, "eventType");
+  const startAtUtc = split ? draft.startAtUtc ?? hintedStart : hintedStart ?? draft.startAtUtc;
+  const endAtUtc = split ? draft.endAtUtc ?? hintedEnd : hintedEnd ?? draft.endAtUtc;
+  const confidence = Math.max(draft.confidence, startAtUtc && endAtUtc ? 0.9 : 0.7);
 
-  const canonicalEventKey = toCanonicalEventKey({
-    regionId: Number(source.region_id),
-    type: draft.type,
-    title: draft.title,
-    startAtUtc: draft.startAtUtc,
-    endAtUtc: draft.endAtUtc
-  });
+  return {
+    ...draft,
+    type: eventType && eventTypes.includes(eventType as EventType) ? (eventType as EventType) : draft.type,
+    startAtUtc,
+    endAtUtc,
+    confidence,
+    visibility: toVisibility(confidence)
+  };
+}
+
+type ExistingEventMatch = {
+  event: LockedEventRow;
+  // Stored on the notice link, so admins can see why a notice was attached before splitting it off.
+  reason: string;
+  // False when the event is described by a newer notice; this one is then only linked.
+  updateFields: boolean;
+};
+
+type ExistingEventRow = LockedEventRow & {
+  source_url: string;
+  other_published_at: Date | null;
+};
 
-  const eventResult = await pool.query<{ id: string }>(
+// $2 is always the raw notice id; other_published_at is the newest date among the event's other notices.
+const existingEventColumns = `e.id, e.type, e.title, e.summary, e.start_at_utc, e.end_at_utc, e.visibility, e.locked_fields,
+  e.source_url,
+  (
+    SELECT MAX(rn.published_at)
+    FROM event_raw_links ol
+    JOIN raw_notices rn ON rn.id = ol.raw_notice_id
+    WHERE ol.event_id = e.id AND ol.raw_notice_id <> $2
+  ) AS other_published_at`;
+
+/**
+ * The newest notice describes the event: an older notice for the same event, e.g. the RSS copy of
+ * an HTML announcement, is linked without overwriting what the newer one said.
+ */
+function describesEvent(rawNotice: RawNoticeRow, event: ExistingEventRow) {
+  if (event.source_url === rawNotice.url || !event.other_published_at) return true;
+  return !!rawNotice.published_at && new Date(rawNotice.published_at) > new Date(event.other_published_at);
+}
+
+async function findSimilarEvent(regionId: number, rawNotice: RawNoticeRow, draft: ParsedEventDraft) {
+  const result = await pool.query<ExistingEventRow & { notice_urls: string[] }>(
+    `SELECT
+      ${existingEventColumns},
+      ARRAY(
+        SELECT rn.url FROM event_raw_links l JOIN raw_notices rn ON rn.id = l.raw_notice_id WHERE l.event_id = e.id
+      ) AS notice_urls
+     FROM events e
+     WHERE e.region_id = $1
+       AND e.merged_into_event_id IS NULL
+       AND NOT EXISTS (SELECT 1 FROM event_raw_links l WHERE l.event_id = e.id AND l.raw_notice_id = $2)
+       AND (
+         e.source_url = $3
+         OR EXISTS (
+           SELECT 1
+           FROM event_raw_links l
+           JOIN raw_notices rn ON rn.id = l.raw_notice_id
+           WHERE l.event_id = e.id AND rn.url = $3
+         )
+         OR (
+           COALESCE(e.start_at_utc, e.end_at_utc) <= COALESCE($5::timestamptz, $4::timestamptz) + INTERVAL '1 day'
+           AND COALESCE(e.end_at_utc, e.start_at_utc) >= COALESCE($4::timestamptz, $5::timestamptz) - INTERVAL '1 day'
+         )
+       )
+     ORDER BY e.id DESC
+     LIMIT 50`,
+    [regionId, Number(rawNotice.id), rawNotice.url, draft.startAtUtc, draft.endAtUtc]
+  );
+
+  const match = findBestMatch(
+    result.rows.map((row) => {
+      const values = eventRowToFieldValues(row);
+      return {
+        id: Number(row.id),
+        type: row.type,
+        title: row.title,
+        startAtUtc: values.startAtUtc,
+        endAtUtc: values.endAtUtc,
+        noticeUrls: [row.source_url, ...row.notice_urls]
+      };
+    }),
+    { type: draft.type, title: draft.title, startAtUtc: draft.startAtUtc, endAtUtc: draft.endAtUtc, url: rawNotice.url }
+  );
+  if (!match) return null;
+
+  const row = result.rows.find((item) => Number(item.id) === match.eventId)!;
+  return { event: row, reason: match.reason, updateFields: describesEvent(rawNotice, row) };
+}
+
+/**
+ * Finds the event this draft belongs to, in order: the event this notice is already linked to for
+ * the same banner section, so a notice that moved its dates stays on its event; the event with the
+ * same canonical key, or the event it was merged into; and finally a similar event announced by
+ * another notice or source in the same region.
+ */
+async function findExistingEventForDraft(
+  source: SourceRow,
+  rawNotice: RawNoticeRow,
+  canonicalEventKey: string,
+  draft: ParsedEventDraft
+): Promise<ExistingEventMatch | null> {
+  // A notice that produced a single event follows its link even if an admin merged it into a sectioned event.
+  const linked = await pool.query<ExistingEventRow>(
+    `SELECT ${existingEventColumns}
+     FROM events e
+     JOIN event_raw_links l ON l.event_id = e.id
+     WHERE l.raw_notice_id = $2
+       AND e.merged_into_event_id IS NULL
+       AND (e.section_key IS NOT DISTINCT FROM $1 OR $1 IS NULL)
+     ORDER BY (e.section_key IS NOT DISTINCT FROM $1) DESC, e.id DESC
+     LIMIT 1`,
+    [draft.sectionKey, Number(rawNotice.id)]
+  );
+  if (linked.rows[0]) {
+    return { event: linked.rows[0], reason: "LINKED", updateFields: describesEvent(rawNotice, linked.rows[0]) };
+  }
+
+  const keyed = await pool.query<ExistingEventRow>(
+    `SELECT ${existingEventColumns}
+     FROM events e
+     WHERE e.id = (
+       SELECT COALESCE(k.merged_into_event_id, k.id)
+       FROM events k
+       WHERE k.canonical_event_key = $1
+     )`,
+    [canonicalEventKey, Number(rawNotice.id)]
+  );
+  if (keyed.rows[0]) {
+    return { event: keyed.rows[0], reason: "KEY", updateFields: describesEvent(rawNotice, keyed.rows[0]) };
+  }
+
+  return findSimilarEvent(Number(source.region_id), rawNotice, draft);
+}
+
+async function updateExistingEvent(event: LockedEventRow, rawNotice: RawNoticeRow, draft: ParsedEventDraft, imageUrl: string | null) {
+  const eventId = Number(event.id);
+  const current = eventRowToFieldValues(event);
+  const { values, conflicts, matched } = mergeLockedFields(
+    current,
+    {
+      type: draft.type,
+      title: draft.title,
+      summary: draft.summary,
+      startAtUtc: draft.startAtUtc,
+      endAtUtc: draft.endAtUtc,
+      visibility: draft.visibility
+    },
+    event.locked_fields
+  );
+
+  // The canonical key is left as is, so the event keeps its identity when its title or dates move.
+  await pool.query(
+    `UPDATE events
+     SET type = $2,
+         title = $3,
+         summary = $4,
+         start_at_utc = $5,
+         end_at_utc = $6,
+         visibility = $7,
+         source_url = $8,
+         image_url = COALESCE($9, image_url),
+         confidence = $10,
+         section_key = $11
+     WHERE id = $1`,
+    [
+      eventId,
+      values.type,
+      values.title,
+      values.summary,
+      values.startAtUtc,
+      values.endAtUtc,
+      values.visibility,
+      rawNotice.url,
+      imageUrl,
+      draft.confidence,
+      draft.sectionKey
+    ]
+  );
+
+  // Parsed visibility only reflects confidence, so an admin's review decision on it is never a conflict.
+  await recordFieldConflicts(
+    eventId,
+    Number(rawNotice.id),
+    conflicts.filter((conflict) => conflict.field !== "visibility"),
+    matched
+  );
+  return { eventId, visibility: values.visibility, changes: diffEventFields(current, values) };
+}
+
+/** Inserts a new event for the draft; null when another fetch stored the same canonical key first. */
+async function insertEventFromDraft(
+  source: SourceRow,
+  rawNotice: RawNoticeRow,
+  draft: ParsedEventDraft,
+  canonicalEventKey: string,
+  imageUrl: string | null
+) {
+  const result = await pool.query<{ id: string }>(
     `INSERT INTO events (
       region_id,
       type,
@@ -538,20 +1141,13 @@ async function upsertEventFromRaw(source: SourceRow, rawNotice: RawNoticeRow) {
       start_at_utc,
       end_at_utc,
       source_url,
+      image_url,
       canonical_event_key,
       confidence,
-      visibility
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-    ON CONFLICT (canonical_event_key)
-    DO UPDATE SET
-      type = EXCLUDED.type,
-      title = EXCLUDED.title,
-      summary = EXCLUDED.summary,
-      start_at_utc = EXCLUDED.start_at_utc,
-      end_at_utc = EXCLUDED.end_at_utc,
-      source_url = EXCLUDED.source_url,
-      confidence = EXCLUDED.confidence,
-      visibility = EXCLUDED.visibility
+      visibility,
+      section_key
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    ON CONFLICT (canonical_event_key) DO NOTHING
     RETURNING id`,
     [
       Number(source.region_id),
@@ -561,38 +1157,160 @@ async function upsertEventFromRaw(source: SourceRow, rawNotice: RawNoticeRow) {
       draft.startAtUtc,
       draft.endAtUtc,
       rawNotice.url,
+      imageUrl,
       canonicalEventKey,
       draft.confidence,
-      draft.visibility
+      draft.visibility,
+      draft.sectionKey
     ]
   );
 
-  const eventId = Number(eventResult.rows[0].id);
+  return result.rows[0] ? Number(result.rows[0].id) : null;
+}
+
+async function upsertEventFromDraft(
+  source: SourceRow,
+  rawNotice: RawNoticeRow,
+  draft: ParsedEventDraft,
+  revisionSource: RevisionSource
+) {
+  const imageUrl = readPayloadString(rawNotice.raw_payload, "imageUrl");
+
+  const canonicalEventKey = toCanonicalEventKey({
+    regionId: Number(source.region_id),
+    type: draft.type,
+    title: draft.title,
+    startAtUtc: draft.startAtUtc,
+    endAtUtc: draft.endAtUtc,
+    sectionKey: draft.sectionKey
+  });
+
+  let existing = await findExistingEventForDraft(source, rawNotice, canonicalEventKey, draft);
+  let insertedId: number | null = null;
+  if (!existing) {
+    insertedId = await insertEventFromDraft(source, rawNotice, draft, canonicalEventKey, imageUrl);
+    // A concurrent fetch stored the same key after the lookup; update its event like any match so locks and revisions apply.
+    if (insertedId === null) {
+      existing = await findExistingEventForDraft(source, rawNotice, canonicalEventKey, draft);
+    }
+  }
+
+  let eventId: number;
+  let visibility: string = draft.visibility;
+  let matchReason = "NEW";
+  let scheduleChange: { id: number; changes: EventFieldChange[] } | null = null;
+
+  if (insertedId !== null) {
+    eventId = insertedId;
+  } else if (!existing) {
+    throw new Error(`Event with canonical key ${canonicalEventKey} was not found after an insert conflict`);
+  } else if (!existing.updateFields) {
+    eventId = Number(existing.event.id);
+    visibility = existing.event.visibility;
+    matchReason = existing.reason;
+  } else {
+    const updated = await updateExistingEvent(existing.event, rawNotice, draft, imageUrl);
+    eventId = updated.eventId;
+    visibility = updated.visibility ?? draft.visibility;
+    matchReason = existing.reason;
+
+    const revisionId = await recordEventRevision({
+      eventId,
+      source: revisionSource,
+      rawNoticeId: Number(rawNotice.id),
+      changes: updated.changes
+    });
+    if (revisionId && isScheduleChange(updated.changes)) {
+      scheduleChange = { id: revisionId, changes: updated.changes };
+    }
+  }
 
   await pool.query(
-    `INSERT INTO event_raw_links (event_id, raw_notice_id)
-     VALUES ($1, $2)
+    `INSERT INTO event_raw_links (event_id, raw_notice_id, match_reason)
+     VALUES ($1, $2, $3)
      ON CONFLICT (event_id, raw_notice_id) DO NOTHING`,
-    [eventId, Number(rawNotice.id)]
+    [eventId, Number(rawNotice.id), matchReason]
   );
 
+  await planNotificationsForEvent(eventId);
+  if (scheduleChange) {
+    await planChangeNotificationsForEvent(eventId, scheduleChange);
+  }
+
+  return {
+    eventId,
+    visibility,
+    confidence: draft.confidence
+  };
+}
+
+/**
+ * Unlinks events this notice produced before but no longer does, e.g. banner sections a corrected
+ * notice dropped. An event left without any notice is sent back to review instead of staying
+ * public with the old data; it is not deleted, since users may already follow it.
+ */
+async function retireDroppedEvents(rawNoticeId: number, producedIds: number[]) {
+  const result = await pool.query<{ id: string }>(
+    `WITH dropped AS (
+       DELETE FROM event_raw_links l
+       USING events e
+       WHERE l.raw_notice_id = $1
+         AND e.id = l.event_id
+         AND e.merged_into_event_id IS NULL
+         AND NOT (l.event_id = ANY($2::bigint[]))
+       RETURNING l.event_id
+     )
+     UPDATE events e
+     SET visibility = 'NEED_REVIEW'
+     WHERE e.id IN (SELECT event_id FROM dropped)
+       AND e.visibility = 'PUBLIC'
+       AND NOT ('visibility' = ANY(e.locked_fields))
+       AND NOT EXISTS (
+         SELECT 1 FROM event_raw_links ol WHERE ol.event_id = e.id AND ol.raw_notice_id <> $1
+       )
+     RETURNING e.id`,
+    [rawNoticeId, producedIds]
+  );
+
+  for (const row of result.rows) {
+    await planNotificationsForEvent(Number(row.id));
+  }
+}
+
+async function upsertEventFromRaw(source: SourceRow, rawNotice: RawNoticeRow, revisionSource: RevisionSource) {
+  const profile = await getParserProfileForSource(Number(source.id));
+  const parsed = parseRawNoticeToEventDrafts({
+    title: rawNotice.title,
+    contentText: rawNotice.content_text ?? "",
+    timezone: source.region_timezone,
+    publishedAt: rawNotice.published_at,
+    profile
+  });
+  const split = parsed.length > 1;
+
+  const events = [];
+  for (const draft of parsed) {
+    events.push(await upsertEventFromDraft(source, rawNotice, applyAdapterHints(draft, rawNotice.raw_payload, split), revisionSource));
+  }
+  await retireDroppedEvents(Number(rawNotice.id), events.map((event) => event.eventId));
+
   await pool.query(
     `UPDATE raw_notices
-     SET status = 'PARSED'
+     SET status = 'PARSED',
+         parser_version = $2
      WHERE id = $1`,
-    [Number(rawNotice.id)]
+    [Number(rawNotice.id), profile.parserVersion]
   );
 
-  await planNotificationsForEvent(eventId);
-
   return {
-    eventId,
-    visibility: draft.visibility,
-    confidence: draft.confidence
+    eventId: events[0].eventId,
+    eventIds: events.map((event) => event.eventId),
+    visibility: events[0].visibility,
+    confidence: events[0].confidence
   };
 }
 
-async function logIngestRun(params: {
+export async function logIngestRun(params: {
   sourceId: number | null;
   mode: "MANUAL" | "SCHEDULED" | "REPARSE";
   status: "SUCCESS" | "FAILED" | "PARTIAL";
@@ -600,8 +1318,9 @@ async function logIngestRun(params: {
   parsedCount: number;
   errorCount: number;
   logMessage: string;
+  startedAt?: Date | null;
 }) {
-  await pool.query(
+  const result = await pool.query<{ id: string }>(
     `INSERT INTO ingest_runs (
       source_id,
       mode,
@@ -612,7 +1331,8 @@ async function logIngestRun(params: {
       log_message,
       started_at,
       finished_at
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::timestamptz, NOW()), NOW())
+    RETURNING id`,
     [
       params.sourceId,
       params.mode,
@@ -620,9 +1340,12 @@ async function logIngestRun(params: {
       params.fetchedCount,
       params.parsedCount,
       params.errorCount,
-      params.logMessage
+      params.logMessage,
+      params.startedAt ?? null
     ]
   );
+
+  return Number(result.rows[0].id);
 }
 
 export async function runSourceFetch(
@@ -650,7 +1373,8 @@ export async function runSourceFetch(
   let errorCount = 0;
 
   try {
-    const candidates = await fetchRawCandidates(source);
+    const fetchState = await loadFetchState(source);
+    const candidates = await fetchRawCandidates(source, fetchState);
 
     fetchedCount = candidates.length;
 
@@ -667,7 +1391,7 @@ export async function runSourceFetch(
           continue;
         }
 
-        await upsertEventFromRaw(source, rawNotice);
+        await upsertEventFromRaw(source, rawNotice, "INGEST");
         parsedCount += 1;
       } catch (error) {
         errorCount += 1;
@@ -697,8 +1421,14 @@ export async function runSourceFetch(
        WHERE id = $1`,
       [Number(source.id)]
     );
+    await saveHttpValidators(Number(source.id), fetchState.nextValidators);
+    await recordSourceSuccess(Number(source.id), { fetchedCount, notModified: fetchState.notModifiedPages > 0 });
 
     const status: "SUCCESS" | "PARTIAL" = errorCount > 0 ? "PARTIAL" : "SUCCESS";
+    const cacheNote =
+      fetchState.notModifiedPages > 0 || fetchState.skippedDetails > 0
+        ? `, not modified pages ${fetchState.notModifiedPages}, reused details ${fetchState.skippedDetails}`
+        : "";
 
     await logIngestRun({
       sourceId: Number(source.id),
@@ -707,7 +1437,7 @@ export async function runSourceFetch(
       fetchedCount,
       parsedCount,
       errorCount,
-      logMessage: `Fetched ${fetchedCount}, parsed ${parsedCount}, errors ${errorCount}`
+      logMessage: `Fetched ${fetchedCount}, parsed ${parsedCount}, errors ${errorCount}${cacheNote}`
     });
 
     return {
@@ -728,6 +1458,18 @@ export async function runSourceFetch(
        WHERE id = $1`,
       [Number(source.id), message]
     );
+    const health = await recordSourceFailure(
+      {
+        id: Number(source.id),
+        fetchIntervalMinutes: source.fetch_interval_minutes,
+        consecutiveFailures: source.consecutive_failures,
+        lastSuccessAt: source.last_success_at
+      },
+      message
+    );
+    const backoffNote = health.disabled
+      ? ` (source disabled after ${health.consecutiveFailures} consecutive failures)`
+      : ` (failure ${health.consecutiveFailures}, next try in ${health.nextFetchInMinutes} min)`;
 
     await logIngestRun({
       sourceId: Number(source.id),
@@ -736,7 +1478,7 @@ export async function runSourceFetch(
       fetchedCount,
       parsedCount,
       errorCount: Math.max(1, errorCount),
-      logMessage: message
+      logMessage: `${message}${backoffNote}`
     });
 
     throw error;
@@ -745,14 +1487,10 @@ export async function runSourceFetch(
 
 export async function runDueSourceFetches(limit = 10) {
   const result = await pool.query<{ id: string }>(
-    `SELECT id
-     FROM sources
-     WHERE enabled = true
-       AND (
-         last_success_at IS NULL
-         OR last_success_at + (fetch_interval_minutes * INTERVAL '1 minute') <= NOW()
-       )
-     ORDER BY COALESCE(last_success_at, to_timestamp(0)) ASC
+    `SELECT s.id
+     FROM sources s
+     WHERE ${dueSourceCondition}
+     ORDER BY COALESCE(s.next_fetch_at, s.last_success_at, to_timestamp(0)) ASC
      LIMIT $1`,
     [limit]
   );
@@ -789,15 +1527,104 @@ export async function runDueSourceFetches(limit = 10) {
   };
 }
 
-export async function reparseRawNotice(rawNoticeId: number) {
-  const rawResult = await pool.query<RawNoticeRow>(
-    `SELECT id, source_id, url, title, published_at, content_text, raw_payload
-     FROM raw_notices
-     WHERE id = $1`,
-    [rawNoticeId]
+export type SourceFetchDefinition = {
+  type: SourceType;
+  baseUrl: string;
+  listUrl?: string | null;
+  configJson: Record<string, unknown>;
+  timezone: string;
+  regionCode: string;
+  gameSlug: string;
+};
+
+// Builds an in-memory source that was never saved, so the fetchers can run without a sources row.
+function toDetachedSourceRow(definition: SourceFetchDefinition & { regionId?: number }): SourceRow {
+  return {
+    id: "0",
+    region_id: String(definition.regionId ?? 0),
+    type: definition.type,
+    base_url: definition.baseUrl,
+    list_url: definition.listUrl ?? null,
+    enabled: true,
+    fetch_interval_minutes: 60,
+    last_success_at: null,
+    last_error_at: null,
+    last_error_message: null,
+    consecutive_failures: 0,
+    config_json: definition.configJson,
+    region_timezone: definition.timezone,
+    region_code: definition.regionCode,
+    game_slug: definition.gameSlug
+  };
+}
+
+// Runs only the fetch step of a source; used by fixture recording and replay tests.
+export function fetchSourceCandidates(definition: SourceFetchDefinition, state = createFetchState()) {
+  return fetchRawCandidates(toDetachedSourceRow(definition), state);
+}
+
+export type SourcePreviewDefinition = {
+  regionId: number;
+  type: SourceType;
+  baseUrl: string;
+  listUrl?: string | null;
+  configJson: Record<string, unknown>;
+};
+
+/**
+ * Fetches and parses an unsaved source definition exactly like a real run would, but returns
+ * the candidates and drafts instead of writing raw notices, events or ingest runs.
+ */
+export async function previewSource(definition: SourcePreviewDefinition, limit = 10) {
+  const regionResult = await pool.query<{ game_id: string; timezone: string; code: string; slug: string }>(
+    `SELECT r.game_id, r.timezone, r.code, g.slug
+     FROM regions r
+     JOIN games g ON g.id = r.game_id
+     WHERE r.id = $1`,
+    [definition.regionId]
   );
 
-  const rawNotice = rawResult.rows[0];
+  const region = regionResult.rows[0];
+  if (!region) return null;
+
+  const source = toDetachedSourceRow({
+    ...definition,
+    timezone: region.timezone,
+    regionCode: region.code,
+    gameSlug: region.slug
+  });
+
+  const profile = await getParserProfileForGame(Number(region.game_id));
+  const candidates = await fetchRawCandidates(source);
+
+  return {
+    fetchedCount: candidates.length,
+    parserVersion: profile.parserVersion,
+    items: candidates.slice(0, limit).map((candidate) => {
+      const drafts = parseRawNoticeToEventDrafts({
+        title: candidate.title,
+        contentText: candidate.contentText,
+        timezone: region.timezone,
+        publishedAt: candidate.publishedAt,
+        profile
+      });
+      const split = drafts.length > 1;
+
+      return {
+        url: candidate.url,
+        title: candidate.title,
+        publishedAt: candidate.publishedAt,
+        contentText: summarize(candidate.contentText, 500),
+        rawPayload: candidate.rawPayload,
+        drafts: drafts.map((draft) => applyAdapterHints(draft, candidate.rawPayload, split))
+      };
+    })
+  };
+}
+
+// Re-runs the parser for one stored notice without logging an ingest run; bulk reparse jobs log once per job.
+export async function applyParserToRawNotice(rawNoticeId: number) {
+  const rawNotice = await getRawNotice(rawNoticeId);
   if (!rawNotice) {
     throw new Error("Raw notice not found");
   }
@@ -807,10 +1634,17 @@ export async function reparseRawNotice(rawNoticeId: number) {
     throw new Error("Source not found for raw notice");
   }
 
-  const result = await upsertEventFromRaw(source, rawNotice);
+  return {
+    sourceId: Number(source.id),
+    ...(await upsertEventFromRaw(source, rawNotice, "REPARSE"))
+  };
+}
+
+export async function reparseRawNotice(rawNoticeId: number) {
+  const { sourceId, ...result } = await applyParserToRawNotice(rawNoticeId);
 
   await logIngestRun({
-    sourceId: Number(source.id),
+    sourceId,
     mode: "REPARSE",
     status: "SUCCESS",
     fetchedCount: 1,
@@ -826,8 +1660,7 @@ export async function listSources(params?: { dueOnly?: boolean }) {
   const where = ["1=1"];
 
   if (params?.dueOnly) {
-    where.push(`enabled = true`);
-    where.push(`(last_success_at IS NULL OR last_success_at + (fetch_interval_minutes * INTERVAL '1 minute') <= NOW())`);
+    where.push(dueSourceCondition);
   }
 
   const result = await pool.query(
@@ -842,6 +1675,9 @@ export async function listSources(params?: { dueOnly?: boolean }) {
       s.last_success_at,
       s.last_error_at,
       s.last_error_message,
+      s.consecutive_failures,
+      s.next_fetch_at,
+      s.disabled_reason,
       s.config_json,
       r.code AS region_code,
       g.name AS game_name
@@ -852,6 +1688,8 @@ export async function listSources(params?: { dueOnly?: boolean }) {
      ORDER BY s.id DESC`
   );
 
+  const healthScores = await getSourceHealthScores(result.rows.map((row) => Number(row.id)));
+
   return result.rows.map((row) => ({
     id: Number(row.id),
     regionId: Number(row.region_id),
@@ -865,6 +1703,10 @@ export async function listSources(params?: { dueOnly?: boolean }) {
     lastSuccessAt: row.last_success_at,
     lastErrorAt: row.last_error_at,
     lastErrorMessage: row.last_error_message,
+    consecutiveFailures: Number(row.consecutive_failures),
+    nextFetchAt: row.next_fetch_at,
+    disabledReason: row.disabled_reason,
+    healthScore: healthScores.get(Number(row.id)) ?? null,
     configJson: row.config_json
   }));
 }
@@ -0,0 +1,81 @@
+﻿import fs from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import { config } from "../config.js";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type MailTransport = {
+  name: "smtp" | "file" | "console";
+  send: (message: MailMessage) => Promise<Record<string, unknown>>;
+};
+
+export function createSmtpTransport(smtpUrl: string): MailTransport {
+  const transporter = nodemailer.createTransport(smtpUrl);
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      const info = await transporter.sendMail({ from: config.mailFrom, ...message });
+      return {
+        messageId: info.messageId,
+        accepted: info.accepted,
+        rejected: info.rejected,
+        response: info.response
+      };
+    }
+  };
+}
+
+export function createFileTransport(directory: string): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: "file",
+    send: async (message) => {
+      const info = await transporter.sendMail({ from: config.mailFrom, ...message });
+      const outDir = path.resolve(process.cwd(), directory);
+      await fs.mkdir(outDir, { recursive: true });
+
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^a-zA-Z0-9.-]/g, "")}.eml`;
+      const filePath = path.join(outDir, fileName);
+      await fs.writeFile(filePath, info.message as Buffer);
+
+      return { messageId: info.messageId, filePath };
+    }
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    send: async (message) => {
+      console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+      return { logged: true };
+    }
+  };
+}
+
+let cachedTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (cachedTransport) return cachedTransport;
+
+  if (config.mailTransport === "smtp") {
+    if (!config.smtpUrl) {
+      throw new Error("SMTP_URL is required when MAIL_TRANSPORT=smtp");
+    }
+    cachedTransport = createSmtpTransport(config.smtpUrl);
+  } else if (config.mailTransport === "file") {
+    cachedTransport = createFileTransport(config.mailFileDir);
+  } else {
+    cachedTransport = createConsoleTransport();
+  }
+
+  return cachedTransport;
+}
@@ -0,0 +1,28 @@
+﻿import { config } from "../config.js";
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+};
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, config.notificationMaxAttempts),
+    baseDelaySeconds: Math.max(1, config.notificationRetryBaseSeconds),
+    maxDelaySeconds: Math.max(1, config.notificationRetryMaxSeconds)
+  };
+}
+
+export function computeRetryDelaySeconds(attempt: number, policy: RetryPolicy) {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(policy.maxDelaySeconds, policy.baseDelaySeconds * 2 ** exponent);
+}
+
+export function resolveFailure(attempt: number, retryable: boolean, policy: RetryPolicy) {
+  if (!retryable || attempt >= policy.maxAttempts) {
+    return { status: "DEAD" as const, retryInSeconds: null };
+  }
+
+  return { status: "FAILED" as const, retryInSeconds: computeRetryDelaySeconds(attempt, policy) };
+}
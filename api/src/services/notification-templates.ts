@@ -0,0 +1,145 @@
+﻿import { config } from "../config.js";
+import { formatInTimezone } from "../timezone.js";
+
+export type NotificationPayload = {
+  eventTitle?: unknown;
+  eventType?: unknown;
+  trigger?: unknown;
+  offsetMinutes?: unknown;
+  startAtUtc?: unknown;
+  endAtUtc?: unknown;
+  changeSummary?: unknown;
+  previousStartAtUtc?: unknown;
+  previousEndAtUtc?: unknown;
+};
+
+export function escapeHtml(input: string) {
+  return input
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function asString(value: unknown, fallback: string) {
+  return typeof value === "string" && value.length > 0 ? value : fallback;
+}
+
+function formatOffset(offsetMinutes: number) {
+  if (offsetMinutes >= 60 && offsetMinutes % 60 === 0) return `${offsetMinutes / 60}h`;
+  return `${offsetMinutes}m`;
+}
+
+export function describeTrigger(trigger: string, offsetMinutes: number, changeSummary?: unknown) {
+  switch (trigger) {
+    case "ON_START":
+      return "Starts now";
+    case "ON_END":
+      return "Ends now";
+    case "BEFORE_END":
+      return `Ends in ${formatOffset(offsetMinutes)}`;
+    case "BEFORE_START":
+      return `Starts in ${formatOffset(offsetMinutes)}`;
+    case "ON_PUBLISH":
+      return "Newly announced";
+    case "ON_CHANGE":
+      return asString(changeSummary, "Schedule changed");
+    default:
+      return trigger;
+  }
+}
+
+function toTemplateItem(eventId: number, payload: NotificationPayload, timezone: string) {
+  return {
+    title: asString(payload.eventTitle, "Event update"),
+    type: asString(payload.eventType, "EVENT"),
+    trigger: describeTrigger(asString(payload.trigger, "ON_PUBLISH"), Number(payload.offsetMinutes ?? 0), payload.changeSummary),
+    startsAt: formatInTimezone(asString(payload.startAtUtc, ""), timezone),
+    endsAt: formatInTimezone(asString(payload.endAtUtc, ""), timezone),
+    // Change alerts also show the period the event had before it moved.
+    previously:
+      payload.trigger === "ON_CHANGE"
+        ? [payload.previousStartAtUtc, payload.previousEndAtUtc].map((value) => formatInTimezone(asString(value, ""), timezone)).join(" ~ ")
+        : null,
+    eventUrl: `${config.appBaseUrl.replace(/\/$/, "")}/events/${eventId}`
+  };
+}
+
+export function summarizeNotification(payload: NotificationPayload) {
+  const title = asString(payload.eventTitle, "Event update");
+  const type = asString(payload.eventType, "EVENT");
+  const trigger = describeTrigger(asString(payload.trigger, "ON_PUBLISH"), Number(payload.offsetMinutes ?? 0), payload.changeSummary);
+  return `[${type}] ${title} - ${trigger}`;
+}
+
+export function renderNotificationEmail(params: { eventId: number; payload: NotificationPayload; timezone: string }) {
+  const { title, type, trigger, startsAt, endsAt, previously, eventUrl } = toTemplateItem(
+    params.eventId,
+    params.payload,
+    params.timezone
+  );
+
+  const subject = `[${type}] ${title} - ${trigger}`;
+
+  const text = [
+    `${title} (${type})`,
+    trigger,
+    "",
+    `Start: ${startsAt}`,
+    `End: ${endsAt}`,
+    ...(previously ? [`Previously: ${previously}`] : []),
+    "",
+    `Details: ${eventUrl}`
+  ].join("\n");
+
+  const previouslyHtml = previously
+    ? `\n  <p style="margin: 4px 0; color: #5a6b76;"><strong>Previously:</strong> ${escapeHtml(previously)}</p>`
+    : "";
+
+  const html = `<!doctype html>
+<html>
+<body style="font-family: 'Noto Sans KR', 'Segoe UI', sans-serif; color: #172a34;">
+  <p style="color: #5a6b76; margin: 0 0 4px;">${escapeHtml(type)} &middot; ${escapeHtml(trigger)}</p>
+  <h2 style="margin: 0 0 12px;">${escapeHtml(title)}</h2>
+  <p style="margin: 4px 0;"><strong>Start:</strong> ${escapeHtml(startsAt)}</p>
+  <p style="margin: 4px 0;"><strong>End:</strong> ${escapeHtml(endsAt)}</p>${previouslyHtml}
+  <p style="margin: 16px 0 0;"><a href="${escapeHtml(eventUrl)}" style="color: #006f8f;">Open in Subculture Hub</a></p>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function renderDigestEmail(params: {
+  items: Array<{ eventId: number; payload: NotificationPayload }>;
+  timezone: string;
+}) {
+  const items = params.items.map((item) => toTemplateItem(item.eventId, item.payload, params.timezone));
+  const subject = `Subculture Hub digest: ${items.length} notification${items.length === 1 ? "" : "s"}`;
+
+  const text = items
+    .map((item) => [`[${item.type}] ${item.title} - ${item.trigger}`, `  ${item.startsAt} ~ ${item.endsAt}`, `  ${item.eventUrl}`].join("\n"))
+    .join("\n\n");
+
+  const rows = items
+    .map(
+      (item) => `  <li style="margin: 0 0 12px;">
+    <a href="${escapeHtml(item.eventUrl)}" style="color: #006f8f; font-weight: 600;">[${escapeHtml(item.type)}] ${escapeHtml(item.title)}</a>
+    <div style="color: #5a6b76;">${escapeHtml(item.trigger)} &middot; ${escapeHtml(item.startsAt)} ~ ${escapeHtml(item.endsAt)}</div>
+  </li>`
+    )
+    .join("\n");
+
+  const html = `<!doctype html>
+<html>
+<body style="font-family: 'Noto Sans KR', 'Segoe UI', sans-serif; color: #172a34;">
+  <h2 style="margin: 0 0 12px;">${escapeHtml(subject)}</h2>
+  <ul style="padding-left: 18px;">
+${rows}
+  </ul>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
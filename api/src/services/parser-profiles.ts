@@ -0,0 +1,158 @@
+﻿import { pool } from "../db.js";
+
+export type EventType = "PICKUP" | "UPDATE" | "MAINTENANCE" | "EVENT" | "CAMPAIGN";
+
+export const eventTypes: readonly EventType[] = ["PICKUP", "UPDATE", "MAINTENANCE", "EVENT", "CAMPAIGN"];
+
+// EVENT is the fallback type and never matched by keyword.
+type DetectableType = Exclude<EventType, "EVENT">;
+
+const detectableTypes: readonly DetectableType[] = ["PICKUP", "MAINTENANCE", "UPDATE", "CAMPAIGN"];
+
+export type ParserProfileRules = {
+  keywords?: Partial<Record<DetectableType, string[]>>;
+  negativeKeywords?: Partial<Record<DetectableType, string[]>>;
+  weights?: Partial<Record<DetectableType, number>>;
+  titlePrefixes?: string[];
+};
+
+export type ParserProfile = {
+  id: number | null;
+  name: string;
+  // Stored in raw_notices.parser_version so notices parsed by an older profile can be found again.
+  parserVersion: string;
+  keywords: Record<DetectableType, string[]>;
+  negativeKeywords: Record<DetectableType, string[]>;
+  weights: Record<DetectableType, number>;
+  titlePrefixes: string[];
+};
+
+type ParserProfileRow = {
+  id: string;
+  name: string;
+  version: number;
+  rules: ParserProfileRules | null;
+};
+
+// A keyword found in the title counts this many times more than one found in the body.
+const titleHitMultiplier = 3;
+
+export const defaultParserProfile: ParserProfile = {
+  id: null,
+  name: "default",
+  parserVersion: "v1",
+  keywords: {
+    PICKUP: ["pickup", "pick-up", "rate up", "가챠", "픽업", "recruitment", "warp"],
+    MAINTENANCE: ["maintenance", "점검", "maintenance notice", "긴급 점검"],
+    UPDATE: ["update", "patch", "패치", "업데이트", "version", "점검 후 업데이트"],
+    CAMPAIGN: ["campaign", "캠페인", "보너스", "2x", "double drop"]
+  },
+  negativeKeywords: { PICKUP: [], MAINTENANCE: [], UPDATE: [], CAMPAIGN: [] },
+  weights: { PICKUP: 0.25, MAINTENANCE: 0.25, UPDATE: 0.22, CAMPAIGN: 0.2 },
+  titlePrefixes: []
+};
+
+function cleanList(values: unknown) {
+  if (!Array.isArray(values)) return [];
+  return values.filter((value): value is string => typeof value === "string" && value.trim() !== "").map((value) => value.trim());
+}
+
+/**
+ * Layers stored rules over the defaults: keyword and negative keyword lists extend the
+ * default lists, weights replace the default weight for that type.
+ */
+export function buildParserProfile(row: ParserProfileRow): ParserProfile {
+  const rules = row.rules ?? {};
+  const profile: ParserProfile = {
+    id: Number(row.id),
+    name: row.name,
+    parserVersion: `profile-${row.id}-v${row.version}`,
+    keywords: { ...defaultParserProfile.keywords },
+    negativeKeywords: { ...defaultParserProfile.negativeKeywords },
+    weights: { ...defaultParserProfile.weights },
+    titlePrefixes: cleanList(rules.titlePrefixes)
+  };
+
+  for (const type of detectableTypes) {
+    profile.keywords[type] = [...profile.keywords[type], ...cleanList(rules.keywords?.[type])];
+    profile.negativeKeywords[type] = cleanList(rules.negativeKeywords?.[type]);
+    const weight = rules.weights?.[type];
+    if (typeof weight === "number" && Number.isFinite(weight) && weight >= 0) {
+      profile.weights[type] = Math.min(weight, 0.3);
+    }
+  }
+
+  return profile;
+}
+
+function countHits(text: string, keywords: string[]) {
+  return keywords.filter((keyword) => text.includes(keyword.toLowerCase())).length;
+}
+
+/**
+ * Scores every type by weighted keyword hits, title hits counting extra, so a maintenance
+ * notice that mentions the update it ships stays MAINTENANCE. A negative keyword rules its type out.
+ * The returned score is the winning type's weight, which feeds draft confidence.
+ */
+export function detectEventType(title: string, body: string, profile: ParserProfile = defaultParserProfile) {
+  const titleText = title.toLowerCase();
+  const bodyText = body.toLowerCase();
+
+  let best: { type: EventType; score: number; rank: number } = { type: "EVENT", score: 0.1, rank: 0 };
+  for (const type of detectableTypes) {
+    if (countHits(`${titleText}\n${bodyText}`, profile.negativeKeywords[type]) > 0) continue;
+
+    const hits = countHits(titleText, profile.keywords[type]) * titleHitMultiplier + countHits(bodyText, profile.keywords[type]);
+    const rank = hits * profile.weights[type];
+    if (rank > best.rank) {
+      best = { type, score: profile.weights[type], rank };
+    }
+  }
+
+  return { type: best.type, score: best.score };
+}
+
+export function stripTitlePrefixes(title: string, profile: ParserProfile = defaultParserProfile) {
+  let result = title.trim();
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const prefix of profile.titlePrefixes) {
+      if (result.toLowerCase().startsWith(prefix.toLowerCase())) {
+        result = result.slice(prefix.length).trim();
+        stripped = true;
+      }
+    }
+  }
+  return result || title.trim();
+}
+
+// A source-level profile wins over the profile of the source's game.
+export async function getParserProfileForSource(sourceId: number) {
+  const result = await pool.query<ParserProfileRow>(
+    `SELECT p.id, p.name, p.version, p.rules
+     FROM sources s
+     JOIN regions r ON r.id = s.region_id
+     JOIN parser_profiles p ON p.source_id = s.id OR p.game_id = r.game_id
+     WHERE s.id = $1
+     ORDER BY (p.source_id IS NOT NULL) DESC
+     LIMIT 1`,
+    [sourceId]
+  );
+
+  const row = result.rows[0];
+  return row ? buildParserProfile(row) : defaultParserProfile;
+}
+
+// Used for unsaved source definitions (config previews), which can only inherit their game's profile.
+export async function getParserProfileForGame(gameId: number) {
+  const result = await pool.query<ParserProfileRow>(
+    `SELECT id, name, version, rules
+     FROM parser_profiles
+     WHERE game_id = $1`,
+    [gameId]
+  );
+
+  const row = result.rows[0];
+  return row ? buildParserProfile(row) : defaultParserProfile;
+}
@@ -0,0 +1,222 @@
+﻿import { pool } from "../db.js";
+import type { PickupItem } from "./pickup-adapters.js";
+
+type SnapshotRow = {
+  id: string;
+  snapshot_date: string;
+  generated_at: Date | string;
+  item_count: number;
+  failures: string[];
+};
+
+type SnapshotItemRow = {
+  game: string;
+  region: string;
+  title: string;
+  start_at_utc: Date | string | null;
+  end_at_utc: Date | string | null;
+  source_url: string;
+  image_url: string | null;
+  note: string | null;
+};
+
+export type PickupSnapshotInput = {
+  generatedAt: string;
+  failures: string[];
+  items: PickupItem[];
+};
+
+function toIso(value: Date | string | null) {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toPickupItem(row: SnapshotItemRow): PickupItem {
+  return {
+    game: row.game,
+    region: row.region,
+    title: row.title,
+    startAtUtc: toIso(row.start_at_utc),
+    endAtUtc: toIso(row.end_at_utc),
+    sourceUrl: row.source_url,
+    imageUrl: row.image_url,
+    ...(row.note ? { note: row.note } : {})
+  };
+}
+
+function pickupItemKey(item: PickupItem) {
+  return `${item.game}|${item.sourceUrl}`;
+}
+
+/** Keeps the first item per game and source URL, the same key the items table is unique on. */
+export function dedupePickupItems(items: PickupItem[]) {
+  const byKey = new Map<string, PickupItem>();
+  for (const item of items) {
+    const key = pickupItemKey(item);
+    if (!byKey.has(key)) byKey.set(key, item);
+  }
+  return [...byKey.values()];
+}
+
+export function diffPickupItems(before: PickupItem[], after: PickupItem[]) {
+  const beforeKeys = new Set(before.map(pickupItemKey));
+  const afterKeys = new Set(after.map(pickupItemKey));
+
+  return {
+    appeared: after.filter((item) => !beforeKeys.has(pickupItemKey(item))),
+    disappeared: before.filter((item) => !afterKeys.has(pickupItemKey(item))),
+    unchangedCount: after.filter((item) => beforeKeys.has(pickupItemKey(item))).length
+  };
+}
+
+export async function savePickupSnapshot(snapshot: PickupSnapshotInput) {
+  const snapshotDate = snapshot.generatedAt.slice(0, 10);
+  // Deduplicated up front so item_count matches the rows that are actually stored.
+  const items = dedupePickupItems(snapshot.items);
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const result = await client.query<{ id: string }>(
+      `INSERT INTO pickup_snapshots (snapshot_date, generated_at, item_count, failures)
+       VALUES ($1, $2, $3, $4::jsonb)
+       ON CONFLICT (snapshot_date)
+       DO UPDATE SET
+         generated_at = EXCLUDED.generated_at,
+         item_count = EXCLUDED.item_count,
+         failures = EXCLUDED.failures
+       RETURNING id`,
+      [snapshotDate, snapshot.generatedAt, items.length, JSON.stringify(snapshot.failures)]
+    );
+
+    const snapshotId = Number(result.rows[0].id);
+
+    await client.query(`DELETE FROM pickup_snapshot_items WHERE snapshot_id = $1`, [snapshotId]);
+
+    for (const [position, item] of items.entries()) {
+      await client.query(
+        `INSERT INTO pickup_snapshot_items (
+          snapshot_id,
+          position,
+          game,
+          region,
+          title,
+          start_at_utc,
+          end_at_utc,
+          source_url,
+          image_url,
+          note
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (snapshot_id, game, source_url) DO NOTHING`,
+        [
+          snapshotId,
+          position,
+          item.game,
+          item.region,
+          item.title,
+          item.startAtUtc,
+          item.endAtUtc,
+          item.sourceUrl,
+          item.imageUrl ?? null,
+          item.note ?? null
+        ]
+      );
+    }
+
+    await client.query("COMMIT");
+    return { snapshotId, snapshotDate };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function loadSnapshot(row: SnapshotRow | undefined) {
+  if (!row) return null;
+
+  const items = await pool.query<SnapshotItemRow>(
+    `SELECT game, region, title, start_at_utc, end_at_utc, source_url, image_url, note
+     FROM pickup_snapshot_items
+     WHERE snapshot_id = $1
+     ORDER BY position ASC`,
+    [Number(row.id)]
+  );
+
+  return {
+    snapshotDate: row.snapshot_date,
+    generatedAt: toIso(row.generated_at),
+    itemCount: row.item_count,
+    failures: row.failures ?? [],
+    items: items.rows.map(toPickupItem)
+  };
+}
+
+const snapshotColumns = `id, to_char(snapshot_date, 'YYYY-MM-DD') AS snapshot_date, generated_at, item_count, failures`;
+
+export async function getLatestPickupSnapshot() {
+  const result = await pool.query<SnapshotRow>(
+    `SELECT ${snapshotColumns}
+     FROM pickup_snapshots
+     ORDER BY snapshot_date DESC
+     LIMIT 1`
+  );
+
+  return loadSnapshot(result.rows[0]);
+}
+
+export async function getPickupSnapshotByDate(snapshotDate: string) {
+  const result = await pool.query<SnapshotRow>(
+    `SELECT ${snapshotColumns}
+     FROM pickup_snapshots
+     WHERE snapshot_date = $1::date`,
+    [snapshotDate]
+  );
+
+  return loadSnapshot(result.rows[0]);
+}
+
+export async function listPickupSnapshots(limit = 60) {
+  const result = await pool.query<SnapshotRow>(
+    `SELECT ${snapshotColumns}
+     FROM pickup_snapshots
+     ORDER BY snapshot_date DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows.map((row) => ({
+    snapshotDate: row.snapshot_date,
+    generatedAt: toIso(row.generated_at),
+    itemCount: row.item_count,
+    failureCount: (row.failures ?? []).length
+  }));
+}
+
+export async function diffPickupSnapshots(params: { from?: string; to?: string }) {
+  const to = params.to ? await getPickupSnapshotByDate(params.to) : await getLatestPickupSnapshot();
+  if (!to) return null;
+
+  let from = params.from ? await getPickupSnapshotByDate(params.from) : null;
+  if (!params.from) {
+    const previous = await pool.query<SnapshotRow>(
+      `SELECT ${snapshotColumns}
+       FROM pickup_snapshots
+       WHERE snapshot_date < $1::date
+       ORDER BY snapshot_date DESC
+       LIMIT 1`,
+      [to.snapshotDate]
+    );
+    from = await loadSnapshot(previous.rows[0]);
+  }
+
+  if (!from) return null;
+
+  return {
+    from: from.snapshotDate,
+    to: to.snapshotDate,
+    ...diffPickupItems(from.items, to.items)
+  };
+}
@@ -0,0 +1,337 @@
+﻿import { pool } from "../db.js";
+import { applyParserToRawNotice, logIngestRun } from "./ingest.js";
+
+export type ReparseFilters = {
+  sourceId?: number;
+  gameId?: number;
+  status?: "NEW" | "PARSED" | "ERROR";
+  parserVersion?: string;
+  // Only notices whose parser_version differs from the profile that applies to them today.
+  outdatedOnly?: boolean;
+  publishedFrom?: string;
+  publishedTo?: string;
+};
+
+export type EventSnapshot = {
+  id: number;
+  type: string;
+  title: string;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  visibility: string;
+};
+
+export type EventChangeKind = "TYPE" | "DATES" | "VISIBILITY" | "CREATED" | "STALE";
+
+export type EventChange = {
+  eventId: number;
+  changes: EventChangeKind[];
+  before: EventSnapshot | null;
+  after: EventSnapshot | null;
+};
+
+type ReparseJobRow = {
+  id: string;
+  status: string;
+  filters: ReparseFilters;
+  total_count: number;
+  processed_count: number;
+  changed_count: number;
+  error_count: number;
+  cursor_raw_notice_id: string;
+  last_error: string | null;
+  started_at: Date | null;
+};
+
+type EventSnapshotRow = {
+  id: string;
+  type: string;
+  title: string;
+  start_at_utc: Date | null;
+  end_at_utc: Date | null;
+  visibility: string;
+};
+
+// How long a batch may hold a job before another worker tick may pick it up again.
+const batchLockSeconds = 300;
+
+const noticeScopeSql = `
+  FROM raw_notices rn
+  JOIN sources s ON s.id = rn.source_id
+  JOIN regions r ON r.id = s.region_id
+  LEFT JOIN LATERAL (
+    SELECT 'profile-' || p.id || '-v' || p.version AS parser_version
+    FROM parser_profiles p
+    WHERE p.source_id = s.id OR p.game_id = r.game_id
+    ORDER BY (p.source_id IS NOT NULL) DESC
+    LIMIT 1
+  ) current_profile ON true`;
+
+function buildFilterWhere(filters: ReparseFilters, values: unknown[]) {
+  const where = ["1=1"];
+
+  if (filters.sourceId) {
+    values.push(filters.sourceId);
+    where.push(`rn.source_id = $${values.length}`);
+  }
+  if (filters.gameId) {
+    values.push(filters.gameId);
+    where.push(`r.game_id = $${values.length}`);
+  }
+  if (filters.status) {
+    values.push(filters.status);
+    where.push(`rn.status = $${values.length}`);
+  }
+  if (filters.parserVersion) {
+    values.push(filters.parserVersion);
+    where.push(`rn.parser_version = $${values.length}`);
+  }
+  if (filters.outdatedOnly) {
+    where.push(`rn.parser_version IS DISTINCT FROM COALESCE(current_profile.parser_version, 'v1')`);
+  }
+  if (filters.publishedFrom) {
+    values.push(filters.publishedFrom);
+    where.push(`COALESCE(rn.published_at, rn.fetched_at) >= $${values.length}::timestamptz`);
+  }
+  if (filters.publishedTo) {
+    values.push(filters.publishedTo);
+    where.push(`COALESCE(rn.published_at, rn.fetched_at) < $${values.length}::timestamptz`);
+  }
+
+  return where.join(" AND ");
+}
+
+function toSnapshot(row: EventSnapshotRow): EventSnapshot {
+  return {
+    id: Number(row.id),
+    type: row.type,
+    title: row.title,
+    startAtUtc: row.start_at_utc ? new Date(row.start_at_utc).toISOString() : null,
+    endAtUtc: row.end_at_utc ? new Date(row.end_at_utc).toISOString() : null,
+    visibility: row.visibility
+  };
+}
+
+/**
+ * Compares the events linked to a notice before a reparse with the ones it produced.
+ * Events the parser no longer produces (new dates changed the canonical key, or a banner section
+ * was dropped) are reported as STALE; the reparse unlinks them but does not delete them.
+ */
+export function diffEventSnapshots(before: EventSnapshot[], after: EventSnapshot[], producedIds: number[]) {
+  const beforeById = new Map(before.map((event) => [event.id, event]));
+  const afterById = new Map(after.map((event) => [event.id, event]));
+  const changes: EventChange[] = [];
+
+  for (const eventId of new Set(producedIds)) {
+    const previous = beforeById.get(eventId) ?? null;
+    const current = afterById.get(eventId) ?? null;
+
+    if (!previous) {
+      changes.push({ eventId, changes: ["CREATED"], before: null, after: current });
+      continue;
+    }
+    if (!current) continue;
+
+    const kinds: EventChangeKind[] = [];
+    if (previous.type !== current.type) kinds.push("TYPE");
+    if (previous.startAtUtc !== current.startAtUtc || previous.endAtUtc !== current.endAtUtc) kinds.push("DATES");
+    if (previous.visibility !== current.visibility) kinds.push("VISIBILITY");
+    if (kinds.length > 0) changes.push({ eventId, changes: kinds, before: previous, after: current });
+  }
+
+  for (const previous of before) {
+    if (producedIds.includes(previous.id)) continue;
+    changes.push({ eventId: previous.id, changes: ["STALE"], before: previous, after: afterById.get(previous.id) ?? null });
+  }
+
+  return changes;
+}
+
+async function loadEventSnapshots(query: string, values: unknown[]) {
+  const result = await pool.query<EventSnapshotRow>(query, values);
+  return result.rows.map(toSnapshot);
+}
+
+function loadLinkedEvents(rawNoticeId: number) {
+  return loadEventSnapshots(
+    `SELECT e.id, e.type, e.title, e.start_at_utc, e.end_at_utc, e.visibility
+     FROM event_raw_links l
+     JOIN events e ON e.id = l.event_id
+     WHERE l.raw_notice_id = $1`,
+    [rawNoticeId]
+  );
+}
+
+export async function createReparseJob(filters: ReparseFilters) {
+  const values: unknown[] = [];
+  const countResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*)::text AS count ${noticeScopeSql} WHERE ${buildFilterWhere(filters, values)}`,
+    values
+  );
+  const totalCount = Number(countResult.rows[0]?.count ?? 0);
+
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO reparse_jobs (filters, total_count)
+     VALUES ($1::jsonb, $2)
+     RETURNING id`,
+    [JSON.stringify(filters), totalCount]
+  );
+
+  return { id: Number(result.rows[0].id), totalCount };
+}
+
+async function claimNextJob() {
+  const result = await pool.query<ReparseJobRow>(
+    `UPDATE reparse_jobs
+     SET status = 'RUNNING',
+         started_at = COALESCE(started_at, NOW()),
+         locked_until = NOW() + ($1 * INTERVAL '1 second')
+     WHERE id = (
+       SELECT id
+       FROM reparse_jobs
+       WHERE status = 'QUEUED'
+          OR (status = 'RUNNING' AND (locked_until IS NULL OR locked_until < NOW()))
+       ORDER BY created_at ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, status, filters, total_count, processed_count, changed_count, error_count,
+               cursor_raw_notice_id, last_error, started_at`,
+    [batchLockSeconds]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+function summarizeChanges(jobId: number, processed: number, counts: Record<EventChangeKind, number>, errors: number) {
+  const parts = (Object.keys(counts) as EventChangeKind[])
+    .filter((kind) => counts[kind] > 0)
+    .map((kind) => `${kind.toLowerCase()}=${counts[kind]}`);
+  return `Reparse job ${jobId}: ${processed} notices, ${errors} errors${parts.length ? `, changes ${parts.join(" ")}` : ", no event changes"}`;
+}
+
+async function finishJob(job: ReparseJobRow) {
+  const jobId = Number(job.id);
+  const { processed_count: processed, error_count: errors } = job;
+  const countResult = await pool.query<{ change: EventChangeKind; count: string }>(
+    `SELECT change, COUNT(*)::text AS count
+     FROM reparse_job_changes, UNNEST(changes) AS change
+     WHERE job_id = $1
+     GROUP BY change`,
+    [jobId]
+  );
+  const counts: Record<EventChangeKind, number> = { TYPE: 0, DATES: 0, VISIBILITY: 0, CREATED: 0, STALE: 0 };
+  for (const row of countResult.rows) counts[row.change] = Number(row.count);
+
+  const ingestRunId = await logIngestRun({
+    sourceId: job.filters.sourceId ?? null,
+    mode: "REPARSE",
+    status: errors === 0 ? "SUCCESS" : errors >= processed && processed > 0 ? "FAILED" : "PARTIAL",
+    fetchedCount: processed,
+    parsedCount: processed - errors,
+    errorCount: errors,
+    logMessage: summarizeChanges(jobId, processed, counts, errors),
+    startedAt: job.started_at
+  });
+
+  await pool.query(
+    `UPDATE reparse_jobs
+     SET status = 'COMPLETED',
+         finished_at = NOW(),
+         locked_until = NULL,
+         ingest_run_id = $2
+     WHERE id = $1`,
+    [jobId, ingestRunId]
+  );
+}
+
+/**
+ * Processes one batch of the oldest queued or running reparse job. The worker calls this every
+ * tick, so large jobs advance in small steps and resume from their cursor after a restart.
+ */
+export async function runNextReparseBatch(batchSize = 25) {
+  const job = await claimNextJob();
+  if (!job) return { jobId: null, processed: 0, changed: 0, errors: 0, completed: false };
+
+  const jobId = Number(job.id);
+  const values: unknown[] = [Number(job.cursor_raw_notice_id)];
+  const where = buildFilterWhere(job.filters, values);
+  values.push(batchSize);
+  const notices = await pool.query<{ id: string }>(
+    `SELECT rn.id ${noticeScopeSql}
+     WHERE rn.id > $1 AND ${where}
+     ORDER BY rn.id ASC
+     LIMIT $${values.length}`,
+    values
+  );
+
+  let changed = 0;
+  let errors = 0;
+  let lastError: string | null = null;
+  let cursor = Number(job.cursor_raw_notice_id);
+
+  for (const notice of notices.rows) {
+    const rawNoticeId = Number(notice.id);
+    cursor = rawNoticeId;
+
+    try {
+      const before = await loadLinkedEvents(rawNoticeId);
+      const result = await applyParserToRawNotice(rawNoticeId);
+      const ids = [...new Set([...before.map((event) => event.id), ...result.eventIds])];
+      const after = await loadEventSnapshots(
+        `SELECT id, type, title, start_at_utc, end_at_utc, visibility
+         FROM events
+         WHERE id = ANY($1::bigint[])`,
+        [ids]
+      );
+
+      for (const change of diffEventSnapshots(before, after, result.eventIds)) {
+        changed += 1;
+        await pool.query(
+          `INSERT INTO reparse_job_changes (job_id, raw_notice_id, event_id, changes, before_snapshot, after_snapshot)
+           VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb)`,
+          [
+            jobId,
+            rawNoticeId,
+            change.eventId,
+            change.changes,
+            change.before ? JSON.stringify(change.before) : null,
+            change.after ? JSON.stringify(change.after) : null
+          ]
+        );
+      }
+    } catch (error) {
+      errors += 1;
+      lastError = `Raw notice ${rawNoticeId}: ${error instanceof Error ? error.message : "Unknown parse error"}`;
+      await pool.query(
+        `UPDATE raw_notices
+         SET status = 'ERROR'
+         WHERE id = $1`,
+        [rawNoticeId]
+      );
+    }
+  }
+
+  const progress = await pool.query<ReparseJobRow>(
+    `UPDATE reparse_jobs
+     SET processed_count = processed_count + $2,
+         changed_count = changed_count + $3,
+         error_count = error_count + $4,
+         cursor_raw_notice_id = $5,
+         last_error = COALESCE($6, last_error),
+         locked_until = NULL
+     WHERE id = $1
+     RETURNING id, status, filters, total_count, processed_count, changed_count, error_count,
+               cursor_raw_notice_id, last_error, started_at`,
+    [jobId, notices.rows.length, changed, errors, cursor, lastError]
+  );
+
+  const updated = progress.rows[0];
+  // A job cancelled while this batch ran keeps its CANCELLED status.
+  const completed = notices.rows.length < batchSize && updated.status === "RUNNING";
+  if (completed) {
+    await finishJob(updated);
+  }
+
+  return { jobId, processed: notices.rows.length, changed, errors, completed };
+}
@@ -0,0 +1,225 @@
+﻿import { pool } from "../db.js";
+import { recordEventRevision } from "./event-revisions.js";
+import { planNotificationsForEvent } from "./scheduling.js";
+
+export type ReviewAction = "APPROVE" | "REJECT";
+
+export type ReviewQueueFilter = {
+  // "me" and "unassigned" narrow the queue; undefined lists everything pending.
+  assignee?: "me" | "unassigned" | number;
+  // Null for requests authenticated with the admin key, which have no "me".
+  userId: number | null;
+  limit: number;
+};
+
+export type QueueAgeMetrics = {
+  pending: number;
+  unassigned: number;
+  oldestMinutes: number | null;
+  medianMinutes: number | null;
+  buckets: { underHour: number; underDay: number; underWeek: number; older: number };
+};
+
+type ReviewEventRow = {
+  id: string;
+  type: string;
+  title: string;
+  summary: string | null;
+  start_at_utc: Date | null;
+  end_at_utc: Date | null;
+  source_url: string;
+  confidence: string;
+  locked_fields: string[];
+  review_requested_at: Date;
+  review_assignee_id: string | null;
+  assignee_email: string | null;
+  game_name: string;
+  region_code: string;
+  region_timezone: string;
+};
+
+type ReviewNoticeRow = {
+  event_id: string;
+  id: string;
+  url: string;
+  title: string;
+  published_at: Date | null;
+  content_text: string | null;
+  parser_version: string;
+};
+
+// Long notices are cut so a page of the queue stays small; the full text is one click away at the source.
+const noticeContentLimit = 4000;
+
+/** Summarizes how long pending events have waited, from their NEED_REVIEW timestamps. */
+export function summarizeQueueAges(requestedAt: Date[], unassigned: number, now = Date.now()): QueueAgeMetrics {
+  const minutes = requestedAt.map((date) => Math.max(0, Math.round((now - date.getTime()) / 60000))).sort((a, b) => a - b);
+  const middle = Math.floor(minutes.length / 2);
+  let median: number | null = null;
+  if (minutes.length > 0) {
+    median = minutes.length % 2 === 1 ? minutes[middle] : Math.round((minutes[middle - 1] + minutes[middle]) / 2);
+  }
+
+  return {
+    pending: minutes.length,
+    unassigned,
+    oldestMinutes: minutes.length > 0 ? minutes[minutes.length - 1] : null,
+    medianMinutes: median,
+    buckets: {
+      underHour: minutes.filter((value) => value < 60).length,
+      underDay: minutes.filter((value) => value >= 60 && value < 24 * 60).length,
+      underWeek: minutes.filter((value) => value >= 24 * 60 && value < 7 * 24 * 60).length,
+      older: minutes.filter((value) => value >= 7 * 24 * 60).length
+    }
+  };
+}
+
+export async function getReviewQueueMetrics() {
+  const result = await pool.query<{ review_requested_at: Date; review_assignee_id: string | null }>(
+    `SELECT review_requested_at, review_assignee_id
+     FROM events
+     WHERE visibility = 'NEED_REVIEW'`
+  );
+
+  return summarizeQueueAges(
+    result.rows.map((row) => row.review_requested_at),
+    result.rows.filter((row) => !row.review_assignee_id).length
+  );
+}
+
+export async function getReviewQueue(filter: ReviewQueueFilter) {
+  const values: unknown[] = [filter.limit];
+  const clauses = [`e.visibility = 'NEED_REVIEW'`];
+
+  if (filter.assignee === "unassigned") {
+    clauses.push(`e.review_assignee_id IS NULL`);
+  } else if (filter.assignee !== undefined) {
+    values.push(filter.assignee === "me" ? filter.userId : filter.assignee);
+    clauses.push(`e.review_assignee_id = $${values.length}`);
+  }
+
+  const events = await pool.query<ReviewEventRow>(
+    `SELECT
+      e.id,
+      e.type,
+      e.title,
+      e.summary,
+      e.start_at_utc,
+      e.end_at_utc,
+      e.source_url,
+      e.confidence,
+      e.locked_fields,
+      e.review_requested_at,
+      e.review_assignee_id,
+      u.email AS assignee_email,
+      g.name AS game_name,
+      r.code AS region_code,
+      r.timezone AS region_timezone
+     FROM events e
+     JOIN regions r ON r.id = e.region_id
+     JOIN games g ON g.id = r.game_id
+     LEFT JOIN users u ON u.id = e.review_assignee_id
+     WHERE ${clauses.join(" AND ")}
+     ORDER BY e.review_requested_at ASC, e.id ASC
+     LIMIT $1`,
+    values
+  );
+
+  const eventIds = events.rows.map((row) => Number(row.id));
+  const notices = await pool.query<ReviewNoticeRow>(
+    `SELECT l.event_id, rn.id, rn.url, rn.title, rn.published_at, LEFT(rn.content_text, $2) AS content_text, rn.parser_version
+     FROM event_raw_links l
+     JOIN raw_notices rn ON rn.id = l.raw_notice_id
+     WHERE l.event_id = ANY($1::bigint[])
+     ORDER BY rn.published_at DESC NULLS LAST, rn.id DESC`,
+    [eventIds, noticeContentLimit]
+  );
+
+  return events.rows.map((row) => ({
+    id: Number(row.id),
+    type: row.type,
+    title: row.title,
+    summary: row.summary,
+    startAtUtc: row.start_at_utc?.toISOString() ?? null,
+    endAtUtc: row.end_at_utc?.toISOString() ?? null,
+    sourceUrl: row.source_url,
+    confidence: Number(row.confidence),
+    lockedFields: row.locked_fields,
+    reviewRequestedAt: row.review_requested_at.toISOString(),
+    assignee: row.review_assignee_id ? { id: Number(row.review_assignee_id), email: row.assignee_email } : null,
+    gameName: row.game_name,
+    regionCode: row.region_code,
+    regionTimezone: row.region_timezone,
+    notices: notices.rows
+      .filter((notice) => notice.event_id === row.id)
+      .map((notice) => ({
+        id: Number(notice.id),
+        url: notice.url,
+        title: notice.title,
+        publishedAt: notice.published_at?.toISOString() ?? null,
+        contentText: notice.content_text,
+        parserVersion: notice.parser_version
+      }))
+  }));
+}
+
+export async function listReviewers() {
+  const result = await pool.query<{ id: string; email: string }>(
+    `SELECT id, email
+     FROM users
+     WHERE role = 'ADMIN'
+     ORDER BY email ASC`
+  );
+
+  return result.rows.map((row) => ({ id: Number(row.id), email: row.email }));
+}
+
+/**
+ * Approves (PUBLIC) or rejects (HIDDEN) pending events. The decision locks the visibility field, so a
+ * later low-confidence parse of the same notice does not send the event back to the queue.
+ */
+export async function decideReview(eventIds: number[], action: ReviewAction, reviewerId: number | null) {
+  const visibility = action === "APPROVE" ? "PUBLIC" : "HIDDEN";
+  const result = await pool.query<{ id: string }>(
+    `UPDATE events
+     SET visibility = $2,
+         locked_fields = CASE
+           WHEN 'visibility' = ANY(locked_fields) THEN locked_fields
+           ELSE array_append(locked_fields, 'visibility')
+         END
+     WHERE id = ANY($1::bigint[]) AND visibility = 'NEED_REVIEW'
+     RETURNING id`,
+    [eventIds, visibility]
+  );
+
+  const decided = result.rows.map((row) => Number(row.id));
+  for (const eventId of decided) {
+    await recordEventRevision({
+      eventId,
+      source: "ADMIN",
+      changedBy: reviewerId,
+      changes: [{ field: "visibility", before: "NEED_REVIEW", after: visibility }]
+    });
+    await planNotificationsForEvent(eventId);
+  }
+
+  return decided;
+}
+
+/** Assigns pending events to an admin, or clears the assignment when `assigneeId` is null. */
+export async function assignReview(eventIds: number[], assigneeId: number | null) {
+  if (assigneeId !== null) {
+    const assignee = await pool.query(`SELECT 1 FROM users WHERE id = $1 AND role = 'ADMIN'`, [assigneeId]);
+    if (!assignee.rows[0]) return null;
+  }
+
+  const result = await pool.query<{ id: string }>(
+    `UPDATE events
+     SET review_assignee_id = $2
+     WHERE id = ANY($1::bigint[]) AND visibility = 'NEED_REVIEW'
+     RETURNING id`,
+    [eventIds, assigneeId]
+  );
+
+  return result.rows.map((row) => Number(row.id));
+}
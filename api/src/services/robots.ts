@@ -0,0 +1,144 @@
+﻿import { config } from "../config.js";
+import { httpFetch } from "./http.js";
+
+type RobotsRule = {
+  allow: boolean;
+  path: string;
+};
+
+type RobotsGroup = {
+  agents: string[];
+  rules: RobotsRule[];
+};
+
+export type RobotsPolicy = {
+  groups: RobotsGroup[];
+  // Set when robots.txt could not be read, which blocks the whole host.
+  unavailableReason?: string;
+};
+
+type CachedPolicy = {
+  policy: RobotsPolicy;
+  expiresAt: number;
+};
+
+const allowAll: RobotsPolicy = { groups: [] };
+
+function disallowAll(reason: string): RobotsPolicy {
+  return { groups: [{ agents: ["*"], rules: [{ allow: false, path: "/" }] }], unavailableReason: reason };
+}
+
+const cache = new Map<string, CachedPolicy>();
+
+/**
+ * Parses robots.txt into user-agent groups (RFC 9309). Consecutive User-agent lines share one
+ * group; lines other than User-agent / Allow / Disallow are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      // An empty User-agent names no crawler, so it must not match ours.
+      if (value) current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    if ((field === "allow" || field === "disallow") && current) {
+      collectingAgents = false;
+      // An empty Disallow allows everything and adds no rule.
+      if (value) current.rules.push({ allow: field === "allow", path: value });
+    }
+  }
+
+  return { groups };
+}
+
+// The product token is the part of a user agent before the version, e.g. "subculturehubbot".
+export function userAgentToken(userAgent: string) {
+  return userAgent.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+function matchLength(pattern: string, target: string) {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = new RegExp(`^${body.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}${anchored ? "$" : ""}`);
+  return regex.test(target) ? body.length : -1;
+}
+
+/**
+ * Decides whether `pathWithQuery` may be fetched. The group naming this crawler wins over `*`;
+ * inside a group the longest matching rule applies and Allow wins a tie.
+ */
+export function isAllowedByRobots(policy: RobotsPolicy, userAgent: string, pathWithQuery: string) {
+  const token = userAgentToken(userAgent);
+  const named = policy.groups.filter((group) => group.agents.some((agent) => agent !== "*" && agent === token));
+  const groups = named.length > 0 ? named : policy.groups.filter((group) => group.agents.includes("*"));
+
+  let best: { length: number; allow: boolean } = { length: -1, allow: true };
+  for (const rule of groups.flatMap((group) => group.rules)) {
+    const length = matchLength(rule.path, pathWithQuery);
+    if (length > best.length || (length === best.length && length >= 0 && rule.allow)) {
+      best = { length, allow: rule.allow };
+    }
+  }
+
+  return best.allow;
+}
+
+async function fetchRobotsPolicy(origin: string, userAgent: string): Promise<RobotsPolicy> {
+  try {
+    const response = await httpFetch(`${origin}/robots.txt`, {
+      timeoutMs: 10000,
+      headers: { "User-Agent": userAgent, Accept: "text/plain,*/*;q=0.8" }
+    });
+
+    if (response.ok) return parseRobotsTxt(await response.text());
+    // RFC 9309: a missing robots.txt (4xx) allows everything; a server error means the site may not be crawled.
+    if (response.status >= 400 && response.status < 500) return allowAll;
+    return disallowAll(`status ${response.status}`);
+  } catch (error) {
+    return disallowAll(error instanceof Error ? error.message : "request failed");
+  }
+}
+
+async function getRobotsPolicy(origin: string, userAgent: string) {
+  const cached = cache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  const policy = await fetchRobotsPolicy(origin, userAgent);
+  // An unreadable robots.txt is retried sooner, but not before every request to the host.
+  const ttlMs = policy.unavailableReason ? config.robotsFailureCacheTtlSeconds * 1000 : config.robotsCacheTtlMinutes * 60 * 1000;
+  cache.set(origin, { policy, expiresAt: Date.now() + ttlMs });
+  return policy;
+}
+
+/** Throws when robots.txt of the URL's host disallows it for `userAgent`. */
+export async function assertAllowedByRobots(url: string, userAgent: string) {
+  const parsed = new URL(url);
+  const policy = await getRobotsPolicy(parsed.origin, userAgent);
+  if (policy.unavailableReason) {
+    throw new Error(`Blocked by robots.txt: ${parsed.origin}/robots.txt could not be read (${policy.unavailableReason})`);
+  }
+  if (!isAllowedByRobots(policy, userAgent, `${parsed.pathname}${parsed.search}`)) {
+    throw new Error(`Blocked by robots.txt: ${url} is disallowed for ${userAgentToken(userAgent)}`);
+  }
+}
+
+export function clearRobotsCache() {
+  cache.clear();
+}
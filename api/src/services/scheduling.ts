@@ -1,4 +1,6 @@
 ﻿import { pool } from "../db.js";
+import { resolveDeliveryTime, resolveDeliveryTimeBefore, type DeliveryPreferences } from "./delivery-window.js";
+import { describeScheduleChange, type EventFieldChange } from "./event-revisions.js";
 
 type DbDate = Date | string | null;
 
@@ -19,12 +21,25 @@ type RuleRow = {
   scope: "GLOBAL" | "REGION";
   region_id: string | null;
   event_type: EventRow["type"];
-  trigger: "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH";
+  trigger: "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH" | "ON_CHANGE";
   offset_minutes: number | null;
   channel: "WEBPUSH" | "EMAIL" | "DISCORD";
   enabled: boolean;
 };
 
+type ScheduleRevision = {
+  id: number;
+  changes: EventFieldChange[];
+};
+
+export type ScheduleStatus = "PENDING" | "PROCESSING" | "SENT" | "FAILED" | "DEAD" | "CANCELED";
+
+export type ScheduleRetryState = {
+  status: ScheduleStatus;
+  attemptCount: number;
+  nextAttemptAt: Date | null;
+};
+
 function toDate(value: DbDate): Date | null {
   if (!value) return null;
   const date = value instanceof Date ? value : new Date(value);
@@ -106,35 +121,114 @@ async function getTargetUsersForRegion(regionId: number, userId?: number) {
   return result.rows.map((row) => Number(row.user_id));
 }
 
+async function getDeliveryPreferences(userId: number): Promise<DeliveryPreferences> {
+  const result = await pool.query<{
+    timezone: string;
+    quiet_hours_start: number | null;
+    quiet_hours_end: number | null;
+    digest_enabled: boolean;
+    digest_window_minutes: number;
+  }>(
+    `SELECT timezone, quiet_hours_start, quiet_hours_end, digest_enabled, digest_window_minutes
+     FROM users
+     WHERE id = $1`,
+    [userId]
+  );
+
+  const row = result.rows[0];
+  return {
+    timezone: row?.timezone ?? "UTC",
+    quietHoursStart: row?.quiet_hours_start ?? null,
+    quietHoursEnd: row?.quiet_hours_end ?? null,
+    digestEnabled: row?.digest_enabled ?? false,
+    digestWindowMinutes: row?.digest_window_minutes ?? 60
+  };
+}
+
 function makeDedupeKey(
   userId: number,
   eventId: number,
   channel: RuleRow["channel"],
   trigger: RuleRow["trigger"],
-  offsetMinutes: number
+  offsetMinutes: number,
+  revisionId?: number
 ) {
-  return [userId, eventId, channel, trigger, offsetMinutes].join(":");
+  const key = [userId, eventId, channel, trigger, offsetMinutes].join(":");
+  // Every revision is its own change alert, so a second change is not swallowed by the first one's SENT row.
+  return revisionId ? `${key}:r${revisionId}` : key;
+}
+
+/**
+ * Decides what replanning does to a schedule that already exists under the same dedupe key; null
+ * leaves the row alone. A row being sent is never touched, sent, dead and failed rows keep their
+ * status, attempt count and backoff, and pending rows keep their attempt count, so replanning cannot
+ * skip a retry delay or the attempt limit.
+ */
+export function replanScheduleState(existing: ScheduleRetryState): ScheduleRetryState | null {
+  switch (existing.status) {
+    case "PROCESSING":
+      return null;
+    case "SENT":
+    case "DEAD":
+    case "FAILED":
+      return existing;
+    default:
+      return { status: "PENDING", attemptCount: existing.attemptCount, nextAttemptAt: null };
+  }
+}
+
+/**
+ * State an admin requeue gives a dead-lettered schedule: a fresh attempt budget, due right away. It is
+ * queued as a due retry rather than as PENDING so replanning keeps it like any other retry, even though
+ * its requested time has passed and no new schedule would be planned for it.
+ */
+export function requeueScheduleState(now: Date): ScheduleRetryState {
+  return { status: "FAILED", attemptCount: 0, nextAttemptAt: now };
+}
+
+/** Points a dedupe key at another event, so a merged event's sent alerts count as sent for the survivor. */
+export function retargetDedupeKey(dedupeKey: string, eventId: number) {
+  const parts = dedupeKey.split(":");
+  parts[1] = String(eventId);
+  return parts.join(":");
 }
 
 async function upsertSchedule(params: {
   userId: number;
   event: EventRow;
   rule: RuleRow;
+  requestedAt: Date;
   scheduledAt: Date;
+  digest: boolean;
+  revision?: ScheduleRevision;
 }) {
-  const { userId, event, rule, scheduledAt } = params;
+  const { userId, event, rule, requestedAt, scheduledAt, digest, revision } = params;
   const offset = rule.offset_minutes ?? 0;
-  const dedupeKey = makeDedupeKey(userId, Number(event.id), rule.channel, rule.trigger, offset);
+  const dedupeKey = makeDedupeKey(userId, Number(event.id), rule.channel, rule.trigger, offset, revision?.id);
+  const previousStart = revision?.changes.find((change) => change.field === "startAtUtc");
+  const previousEnd = revision?.changes.find((change) => change.field === "endAtUtc");
 
   const payload = {
     eventTitle: event.title,
     eventType: event.type,
     trigger: rule.trigger,
     offsetMinutes: offset,
-    channel: rule.channel
+    channel: rule.channel,
+    startAtUtc: toDate(event.start_at_utc)?.toISOString() ?? null,
+    endAtUtc: toDate(event.end_at_utc)?.toISOString() ?? null,
+    requestedAtUtc: requestedAt.toISOString(),
+    digest,
+    ...(revision
+      ? {
+          revisionId: revision.id,
+          changeSummary: describeScheduleChange(event.type, revision.changes),
+          previousStartAtUtc: previousStart ? previousStart.before : toDate(event.start_at_utc)?.toISOString() ?? null,
+          previousEndAtUtc: previousEnd ? previousEnd.before : toDate(event.end_at_utc)?.toISOString() ?? null
+        }
+      : {})
   };
 
-  await pool.query(
+  const inserted = await pool.query(
     `INSERT INTO notification_schedules (
       user_id,
       event_id,
@@ -146,15 +240,7 @@ async function upsertSchedule(params: {
       payload_json,
       dedupe_key
     ) VALUES ($1, $2, $3, $4, $5, $6, 'PENDING', $7::jsonb, $8)
-    ON CONFLICT (dedupe_key)
-    DO UPDATE SET
-      scheduled_at_utc = EXCLUDED.scheduled_at_utc,
-      payload_json = EXCLUDED.payload_json,
-      status = CASE
-        WHEN notification_schedules.status = 'SENT' THEN notification_schedules.status
-        ELSE 'PENDING'
-      END,
-      updated_at = NOW()`,
+    ON CONFLICT (dedupe_key) DO NOTHING`,
     [
       userId,
       Number(event.id),
@@ -166,17 +252,114 @@ async function upsertSchedule(params: {
       dedupeKey
     ]
   );
+  if (inserted.rowCount) return;
+
+  const existing = await pool.query<{ status: ScheduleStatus; attempt_count: number; next_attempt_at: Date | null }>(
+    `SELECT status, attempt_count, next_attempt_at
+     FROM notification_schedules
+     WHERE dedupe_key = $1`,
+    [dedupeKey]
+  );
+  const row = existing.rows[0];
+  if (!row) return;
+
+  const next = replanScheduleState({ status: row.status, attemptCount: row.attempt_count, nextAttemptAt: row.next_attempt_at });
+  if (!next) return;
+
+  // The status guard skips the update when a dispatcher claimed the row after it was read.
+  await pool.query(
+    `UPDATE notification_schedules
+     SET scheduled_at_utc = $2,
+         payload_json = $3::jsonb,
+         status = $4,
+         attempt_count = $5,
+         next_attempt_at = $6,
+         updated_at = NOW()
+     WHERE dedupe_key = $1 AND status = $7`,
+    [dedupeKey, scheduledAt.toISOString(), JSON.stringify(payload), next.status, next.attemptCount, next.nextAttemptAt, row.status]
+  );
+}
+
+// Schedules that were already attempted: FAILED ones waiting for a retry (including ones an admin
+// requeued), and PENDING ones the reaper requeued after an interrupted send. Replanning keeps them so their attempt count keeps counting.
+const attemptedScheduleSql = `(status = 'FAILED' OR (status = 'PENDING' AND attempt_count > 0))`;
+
+/** Attempted schedules survive replanning to keep their retry state; those no rule produces anymore are removed here. */
+async function deleteUnplannedAttemptedSchedules(column: "event_id" | "user_id", id: number, plannedKeys: string[]) {
+  await pool.query(
+    `DELETE FROM notification_schedules
+     WHERE ${column} = $1
+       AND ${attemptedScheduleSql}
+       AND trigger_type <> 'ON_CHANGE'
+       AND NOT (dedupe_key = ANY($2::text[]))`,
+    [id, plannedKeys]
+  );
+}
+
+/**
+ * Whether an unsent change alert should still go out: its event must still be public, the user must
+ * still follow the event's region and still have an enabled ON_CHANGE rule for the alert's channel.
+ */
+export function isChangeScheduleWanted(
+  event: Pick<EventRow, "visibility">,
+  channel: RuleRow["channel"],
+  followsRegion: boolean,
+  rules: Pick<RuleRow, "trigger" | "channel">[]
+) {
+  return (
+    event.visibility === "PUBLIC" &&
+    followsRegion &&
+    rules.some((rule) => rule.trigger === "ON_CHANGE" && rule.channel === channel)
+  );
+}
+
+/** Change alerts are planned from revisions, so replanning drops the unsent ones nothing asks for anymore. */
+async function deleteUnwantedChangeSchedules(column: "event_id" | "user_id", id: number) {
+  const pending = await pool.query<{ id: string; user_id: string; event_id: string; channel: RuleRow["channel"] }>(
+    `SELECT id, user_id, event_id, channel
+     FROM notification_schedules
+     WHERE ${column} = $1
+       AND trigger_type = 'ON_CHANGE'
+       AND status IN ('PENDING', 'FAILED')`,
+    [id]
+  );
+
+  const unwanted: number[] = [];
+  for (const row of pending.rows) {
+    const event = await getEvent(Number(row.event_id));
+    const userId = Number(row.user_id);
+    const wanted =
+      event !== null &&
+      isChangeScheduleWanted(
+        event,
+        row.channel,
+        (await getTargetUsersForRegion(Number(event.region_id), userId)).length > 0,
+        await getEligibleRulesForEvent(event, userId)
+      );
+    if (!wanted) unwanted.push(Number(row.id));
+  }
+
+  if (unwanted.length === 0) return;
+  // The status guard skips rows a dispatcher claimed after they were read.
+  await pool.query(
+    `DELETE FROM notification_schedules
+     WHERE id = ANY($1::bigint[])
+       AND status IN ('PENDING', 'FAILED')`,
+    [unwanted]
+  );
 }
 
 async function planForEventAndUsers(event: EventRow, explicitUserId?: number) {
+  // Keys of every schedule the current rules produce, including ones whose time has passed.
+  const plannedKeys: string[] = [];
   if (event.visibility !== "PUBLIC") {
-    return { planned: 0, skipped: 0 };
+    return { planned: 0, skipped: 0, plannedKeys };
   }
 
   const now = Date.now();
   const targetUsers = await getTargetUsersForRegion(Number(event.region_id), explicitUserId);
   if (targetUsers.length === 0) {
-    return { planned: 0, skipped: 0 };
+    return { planned: 0, skipped: 0, plannedKeys };
   }
 
   let planned = 0;
@@ -190,24 +373,41 @@ async function planForEventAndUsers(event: EventRow, explicitUserId?: number) {
   }
 
   for (const [userId, rules] of groupedRulesByUser.entries()) {
+    if (rules.length === 0) continue;
+    const preferences = await getDeliveryPreferences(userId);
+
     for (const rule of rules) {
-      const scheduledAt = computeScheduledAt(rule, event);
-      if (!scheduledAt) {
+      // Change alerts are planned from revisions, not from the event's own times.
+      if (rule.trigger === "ON_CHANGE") continue;
+
+      const requestedAt = computeScheduledAt(rule, event);
+      if (!requestedAt) {
         skipped += 1;
         continue;
       }
 
-      if (scheduledAt.getTime() < now - 5 * 60 * 1000) {
+      // End alerts must not be deferred past the end they announce.
+      const endAt = rule.trigger === "BEFORE_END" || rule.trigger === "ON_END" ? toDate(event.end_at_utc) : null;
+      const delivery = endAt
+        ? resolveDeliveryTimeBefore(requestedAt, preferences, endAt)
+        : { scheduledAt: resolveDeliveryTime(requestedAt, preferences), digest: preferences.digestEnabled };
+      if (!delivery) {
         skipped += 1;
         continue;
       }
+      plannedKeys.push(makeDedupeKey(userId, Number(event.id), rule.channel, rule.trigger, rule.offset_minutes ?? 0));
 
-      await upsertSchedule({ userId, event, rule, scheduledAt });
+      if (requestedAt.getTime() < now - 5 * 60 * 1000) {
+        skipped += 1;
+        continue;
+      }
+
+      await upsertSchedule({ userId, event, rule, requestedAt, ...delivery });
       planned += 1;
     }
   }
 
-  return { planned, skipped };
+  return { planned, skipped, plannedKeys };
 }
 
 export async function planNotificationsForEvent(eventId: number) {
@@ -218,18 +418,51 @@ export async function planNotificationsForEvent(eventId: number) {
 
   await pool.query(
     `DELETE FROM notification_schedules
-     WHERE event_id = $1 AND status IN ('PENDING', 'FAILED', 'CANCELED')`,
+     WHERE event_id = $1
+       AND status IN ('PENDING', 'CANCELED')
+       AND NOT ${attemptedScheduleSql}
+       AND trigger_type <> 'ON_CHANGE'`,
     [eventId]
   );
 
-  const result = await planForEventAndUsers(event);
-  return { ...result, reason: "ok" };
+  const { planned, skipped, plannedKeys } = await planForEventAndUsers(event);
+  await deleteUnplannedAttemptedSchedules("event_id", eventId, plannedKeys);
+  await deleteUnwantedChangeSchedules("event_id", eventId);
+  return { planned, skipped, reason: "ok" };
+}
+
+/** Queues an immediate ON_CHANGE alert (deferred only by quiet hours) for a revision that moved the event's times. */
+export async function planChangeNotificationsForEvent(eventId: number, revision: ScheduleRevision) {
+  const event = await getEvent(eventId);
+  if (!event || event.visibility !== "PUBLIC") {
+    return { planned: 0 };
+  }
+
+  const requestedAt = new Date();
+  let planned = 0;
+
+  for (const userId of await getTargetUsersForRegion(Number(event.region_id))) {
+    const rules = (await getEligibleRulesForEvent(event, userId)).filter((rule) => rule.trigger === "ON_CHANGE");
+    if (rules.length === 0) continue;
+    const preferences = await getDeliveryPreferences(userId);
+
+    for (const rule of rules) {
+      const scheduledAt = resolveDeliveryTime(requestedAt, preferences);
+      await upsertSchedule({ userId, event, rule, requestedAt, scheduledAt, digest: preferences.digestEnabled, revision });
+      planned += 1;
+    }
+  }
+
+  return { planned };
 }
 
 export async function rebuildSchedulesForUser(userId: number) {
   await pool.query(
     `DELETE FROM notification_schedules
-     WHERE user_id = $1 AND status IN ('PENDING', 'FAILED', 'CANCELED')`,
+     WHERE user_id = $1
+       AND status IN ('PENDING', 'CANCELED')
+       AND NOT ${attemptedScheduleSql}
+       AND trigger_type <> 'ON_CHANGE'`,
     [userId]
   );
 
@@ -249,12 +482,16 @@ export async function rebuildSchedulesForUser(userId: number) {
 
   let planned = 0;
   let skipped = 0;
+  const plannedKeys: string[] = [];
 
   for (const event of eventRows.rows) {
     const result = await planForEventAndUsers(event, userId);
     planned += result.planned;
     skipped += result.skipped;
+    plannedKeys.push(...result.plannedKeys);
   }
+  await deleteUnplannedAttemptedSchedules("user_id", userId, plannedKeys);
+  await deleteUnwantedChangeSchedules("user_id", userId);
 
   return { planned, skipped, events: eventRows.rowCount };
 }
@@ -0,0 +1,144 @@
+﻿import { generateOpaqueToken, hashOpaqueToken, signAccessToken, type AuthRole } from "../auth.js";
+import { config } from "../config.js";
+import { pool } from "../db.js";
+
+// A refresh token presented again this soon after rotation is treated as a client race, not theft.
+const reuseGraceSeconds = 30;
+
+type SessionUser = {
+  id: number;
+  email: string;
+  role: AuthRole;
+};
+
+function issueAccessToken(user: SessionUser, sessionId: number) {
+  return signAccessToken({ sub: user.id, sid: sessionId, email: user.email, role: user.role });
+}
+
+export async function createSession(user: SessionUser, userAgent?: string) {
+  const refreshToken = generateOpaqueToken();
+
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(days => $4::int))
+     RETURNING id`,
+    [user.id, hashOpaqueToken(refreshToken), userAgent ?? null, config.refreshTokenTtlDays]
+  );
+
+  const sessionId = Number(result.rows[0].id);
+
+  return {
+    token: issueAccessToken(user, sessionId),
+    refreshToken
+  };
+}
+
+export async function rotateSession(refreshToken: string) {
+  const tokenHash = hashOpaqueToken(refreshToken);
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const result = await client.query<{
+      id: string;
+      user_id: string;
+      refresh_token_hash: string;
+      expired: boolean;
+      revoked: boolean;
+      within_grace: boolean;
+      email: string;
+      role: AuthRole;
+    }>(
+      `SELECT
+        s.id,
+        s.user_id,
+        s.refresh_token_hash,
+        s.expires_at <= NOW() AS expired,
+        s.revoked_at IS NOT NULL AS revoked,
+        COALESCE(s.rotated_at > NOW() - make_interval(secs => $2::int), false) AS within_grace,
+        u.email,
+        u.role
+      FROM sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.refresh_token_hash = $1 OR s.previous_token_hash = $1
+      FOR UPDATE OF s`,
+      [tokenHash, reuseGraceSeconds]
+    );
+
+    const session = result.rows[0];
+    if (!session || session.expired || session.revoked) {
+      await client.query("COMMIT");
+      return null;
+    }
+
+    if (session.refresh_token_hash !== tokenHash) {
+      // An already-rotated token came back: outside the grace window assume it leaked and end the session.
+      if (!session.within_grace) {
+        await client.query(`UPDATE sessions SET revoked_at = NOW() WHERE id = $1`, [Number(session.id)]);
+      }
+      await client.query("COMMIT");
+      return null;
+    }
+
+    const nextRefreshToken = generateOpaqueToken();
+    await client.query(
+      `UPDATE sessions
+       SET refresh_token_hash = $2,
+           previous_token_hash = $3,
+           rotated_at = NOW(),
+           last_used_at = NOW(),
+           expires_at = NOW() + make_interval(days => $4::int)
+       WHERE id = $1`,
+      [Number(session.id), hashOpaqueToken(nextRefreshToken), tokenHash, config.refreshTokenTtlDays]
+    );
+
+    await client.query("COMMIT");
+
+    const user = { id: Number(session.user_id), email: session.email, role: session.role };
+    return {
+      token: issueAccessToken(user, Number(session.id)),
+      refreshToken: nextRefreshToken,
+      user
+    };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function isSessionActive(sessionId: number, userId: number) {
+  const result = await pool.query(
+    `SELECT 1
+     FROM sessions
+     WHERE id = $1
+       AND user_id = $2
+       AND revoked_at IS NULL
+       AND expires_at > NOW()`,
+    [sessionId, userId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function revokeSession(sessionId: number, userId: number) {
+  await pool.query(
+    `UPDATE sessions
+     SET revoked_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [sessionId, userId]
+  );
+}
+
+export async function revokeAllSessions(userId: number) {
+  const result = await pool.query(
+    `UPDATE sessions
+     SET revoked_at = NOW()
+     WHERE user_id = $1 AND revoked_at IS NULL`,
+    [userId]
+  );
+
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,150 @@
+﻿import { config } from "../config.js";
+import { pool } from "../db.js";
+
+export type AdminAlertKind = "SOURCE_FAILING" | "SOURCE_EMPTY" | "SOURCE_DISABLED";
+
+export type HealthRun = {
+  status: "SUCCESS" | "PARTIAL" | "FAILED";
+  fetchedCount: number;
+};
+
+type FailingSource = {
+  id: number;
+  fetchIntervalMinutes: number;
+  consecutiveFailures: number;
+  lastSuccessAt: Date | null;
+};
+
+// Only the most recent fetch runs count towards the score; reparse runs are not fetches.
+const healthWindow = 20;
+// Each older run weighs this much less than the one after it, so recovery shows up quickly.
+const recencyDecay = 0.85;
+
+const runValue: Record<HealthRun["status"], number> = { SUCCESS: 1, PARTIAL: 0.5, FAILED: 0 };
+
+/** Scores recent runs (newest first) from 0 to 100; null when the source has never run. */
+export function computeHealthScore(runs: HealthRun[]) {
+  const recent = runs.slice(0, healthWindow);
+  if (recent.length === 0) return null;
+
+  let total = 0;
+  let weights = 0;
+  recent.forEach((run, index) => {
+    const weight = recencyDecay ** index;
+    total += runValue[run.status] * weight;
+    weights += weight;
+  });
+
+  return Math.round((total / weights) * 100);
+}
+
+/** The first failure retries after the normal interval, then the wait doubles up to the cap. */
+export function backoffMinutes(intervalMinutes: number, consecutiveFailures: number, maxMinutes = config.sourceMaxBackoffMinutes) {
+  return Math.min(intervalMinutes * 2 ** Math.max(0, consecutiveFailures - 1), maxMinutes);
+}
+
+export async function createAdminAlert(sourceId: number | null, kind: AdminAlertKind, message: string) {
+  await pool.query(
+    `INSERT INTO admin_alerts (source_id, kind, message)
+     VALUES ($1, $2, $3)`,
+    [sourceId, kind, message]
+  );
+}
+
+export async function recordSourceFailure(source: FailingSource, message: string) {
+  const failures = source.consecutiveFailures + 1;
+
+  if (failures >= config.sourceMaxConsecutiveFailures) {
+    const reason = `Disabled after ${failures} consecutive failures: ${message}`;
+    await pool.query(
+      `UPDATE sources
+       SET enabled = false,
+           consecutive_failures = $2,
+           next_fetch_at = NULL,
+           disabled_reason = $3
+       WHERE id = $1`,
+      [source.id, failures, reason]
+    );
+    await createAdminAlert(source.id, "SOURCE_DISABLED", reason);
+    return { consecutiveFailures: failures, disabled: true, nextFetchInMinutes: null };
+  }
+
+  const delay = backoffMinutes(source.fetchIntervalMinutes, failures);
+  await pool.query(
+    `UPDATE sources
+     SET consecutive_failures = $2,
+         next_fetch_at = NOW() + ($3 * INTERVAL '1 minute')
+     WHERE id = $1`,
+    [source.id, failures, delay]
+  );
+
+  // Alert once, when a source that has worked before starts failing; the backoff handles repeats.
+  if (failures === 1 && source.lastSuccessAt) {
+    await createAdminAlert(source.id, "SOURCE_FAILING", `Source ${source.id} started failing: ${message}`);
+  }
+
+  return { consecutiveFailures: failures, disabled: false, nextFetchInMinutes: delay };
+}
+
+/**
+ * Clears failure tracking after a successful run. Call before logging the run, so the previous
+ * run can be compared: a source that returned items last time and nothing now raises an alert,
+ * unless nothing was fetched because the list answered 304 Not Modified.
+ */
+export async function recordSourceSuccess(sourceId: number, params: { fetchedCount: number; notModified: boolean }) {
+  if (params.fetchedCount === 0 && !params.notModified) {
+    const previous = await pool.query<{ fetched_count: number }>(
+      `SELECT fetched_count
+       FROM ingest_runs
+       WHERE source_id = $1 AND mode <> 'REPARSE' AND status <> 'FAILED'
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      [sourceId]
+    );
+
+    if ((previous.rows[0]?.fetched_count ?? 0) > 0) {
+      await createAdminAlert(
+        sourceId,
+        "SOURCE_EMPTY",
+        `Source ${sourceId} returned no items after returning ${previous.rows[0].fetched_count} last run`
+      );
+    }
+  }
+
+  await pool.query(
+    `UPDATE sources
+     SET consecutive_failures = 0,
+         next_fetch_at = NULL,
+         disabled_reason = NULL
+     WHERE id = $1`,
+    [sourceId]
+  );
+}
+
+export async function getSourceHealthScores(sourceIds: number[]) {
+  const result = await pool.query<{ source_id: string; status: HealthRun["status"]; fetched_count: number }>(
+    `SELECT source_id, status, fetched_count
+     FROM (
+       SELECT
+         source_id,
+         status,
+         fetched_count,
+         ROW_NUMBER() OVER (PARTITION BY source_id ORDER BY started_at DESC) AS position
+       FROM ingest_runs
+       WHERE source_id = ANY($1::bigint[]) AND mode <> 'REPARSE'
+     ) ranked
+     WHERE position <= $2
+     ORDER BY source_id, position`,
+    [sourceIds, healthWindow]
+  );
+
+  const runsBySource = new Map<number, HealthRun[]>();
+  for (const row of result.rows) {
+    const sourceId = Number(row.source_id);
+    const runs = runsBySource.get(sourceId) ?? [];
+    runs.push({ status: row.status, fetchedCount: row.fetched_count });
+    runsBySource.set(sourceId, runs);
+  }
+
+  return new Map(sourceIds.map((sourceId) => [sourceId, computeHealthScore(runsBySource.get(sourceId) ?? [])]));
+}
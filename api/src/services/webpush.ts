@@ -0,0 +1,68 @@
+﻿import webpush from "web-push";
+import { config } from "../config.js";
+
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+export type VapidDetails = {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+};
+
+export type PushMessage = {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+};
+
+export function getVapidDetails(): VapidDetails | null {
+  if (!config.vapidPublicKey || !config.vapidPrivateKey) return null;
+
+  return {
+    subject: config.vapidSubject,
+    publicKey: config.vapidPublicKey,
+    privateKey: config.vapidPrivateKey
+  };
+}
+
+export async function sendWebPush(target: PushTarget, message: PushMessage, vapid: VapidDetails, timeoutMs = 10000) {
+  // generateRequestDetails handles the aes128gcm payload encryption and VAPID JWT;
+  // delivery goes through fetch so we control timeouts and status handling.
+  const details = webpush.generateRequestDetails(
+    {
+      endpoint: target.endpoint,
+      keys: { p256dh: target.p256dh, auth: target.auth }
+    },
+    JSON.stringify(message),
+    {
+      vapidDetails: vapid,
+      TTL: 24 * 60 * 60,
+      contentEncoding: "aes128gcm"
+    }
+  );
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(details.endpoint, {
+      method: details.method,
+      headers: details.headers,
+      body: details.body ? new Uint8Array(details.body) : null,
+      signal: controller.signal
+    });
+
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      gone: response.status === 404 || response.status === 410
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
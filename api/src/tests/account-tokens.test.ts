@@ -0,0 +1,19 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { renderAccountEmail } from "../services/account-tokens.js";
+
+test("renderAccountEmail links verification tokens to the web app", () => {
+  const email = renderAccountEmail("VERIFY_EMAIL", "abc_DEF-123");
+
+  assert.equal(email.subject, "Verify your Subculture Hub email");
+  assert.match(email.text, /\/verify-email\?token=abc_DEF-123/);
+  assert.match(email.html, /href="[^"]+\/verify-email\?token=abc_DEF-123"/);
+});
+
+test("renderAccountEmail links reset tokens and mentions single use", () => {
+  const email = renderAccountEmail("RESET_PASSWORD", "token+with/chars");
+
+  assert.equal(email.subject, "Reset your Subculture Hub password");
+  assert.match(email.text, /\/reset-password\?token=token%2Bwith%2Fchars/);
+  assert.match(email.text, /can be used once/);
+});
@@ -0,0 +1,30 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import jwt from "jsonwebtoken";
+import { generateOpaqueToken, hashOpaqueToken, signAccessToken, verifyAccessToken } from "../auth.js";
+import { config } from "../config.js";
+
+test("access tokens carry the session id and expire quickly", () => {
+  const token = signAccessToken({ sub: 1, sid: 42, email: "user@example.com", role: "USER" });
+  const payload = verifyAccessToken(token);
+
+  assert.deepEqual(payload, { sub: 1, sid: 42, email: "user@example.com", role: "USER" });
+
+  const decoded = jwt.decode(token) as { iat: number; exp: number };
+  assert.equal(decoded.exp - decoded.iat, config.accessTokenTtlSeconds);
+});
+
+test("verifyAccessToken rejects tokens issued without a session", () => {
+  const legacy = jwt.sign({ sub: 1, email: "user@example.com", role: "USER" }, config.jwtSecret, { expiresIn: "14d" });
+  assert.equal(verifyAccessToken(legacy), null);
+});
+
+test("opaque refresh tokens are random and stored only as hashes", () => {
+  const first = generateOpaqueToken();
+  const second = generateOpaqueToken();
+
+  assert.notEqual(first, second);
+  assert.match(first, /^[A-Za-z0-9_-]{43}$/);
+  assert.equal(hashOpaqueToken(first), hashOpaqueToken(first));
+  assert.match(hashOpaqueToken(first), /^[0-9a-f]{64}$/);
+});
@@ -0,0 +1,66 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { extractBannerImageFromHtml, extractRssItemImage, resolveImageUrl } from "../services/banner-images.js";
+
+const pageUrl = "https://notice.example.com/news/2001";
+
+test("resolveImageUrl resolves relative paths and rejects non-http URLs", () => {
+  assert.equal(resolveImageUrl(pageUrl, "/img/banner.png"), "https://notice.example.com/img/banner.png");
+  assert.equal(resolveImageUrl(pageUrl, "//cdn.example.com/a.jpg"), "https://cdn.example.com/a.jpg");
+  assert.equal(resolveImageUrl(pageUrl, "data:image/png;base64,AAAA"), null);
+  assert.equal(resolveImageUrl(pageUrl, "  "), null);
+});
+
+test("resolveImageUrl rejects banners on private, loopback or link-local hosts", () => {
+  assert.equal(resolveImageUrl(pageUrl, "http://169.254.169.254/latest/meta-data"), null);
+  assert.equal(resolveImageUrl(pageUrl, "http://localhost:5432/"), null);
+  assert.equal(resolveImageUrl(pageUrl, "http://192.168.0.10/banner.png"), null);
+  assert.equal(resolveImageUrl(pageUrl, "http://[::1]/banner.png"), null);
+  assert.equal(resolveImageUrl(pageUrl, "http://93.184.215.14/banner.png"), "http://93.184.215.14/banner.png");
+});
+
+test("extractBannerImageFromHtml prefers the preview meta tags over images in the page", () => {
+  const html = `<html><head>
+    <meta name="twitter:image" content="https://cdn.example.com/twitter.jpg">
+    <meta property="og:image" content="/og.jpg">
+  </head><body><img src="/logo.png"></body></html>`;
+
+  assert.equal(extractBannerImageFromHtml(html, pageUrl), "https://notice.example.com/og.jpg");
+});
+
+test("extractBannerImageFromHtml falls back to the first usable image inside the content", () => {
+  const html = `<body>
+    <header><img src="/logo.png"></header>
+    <div class="article"><img src="data:image/gif;base64,R0lGOD"><img data-src="/banner.jpg" src="/placeholder.gif"></div>
+  </body>`;
+
+  assert.equal(extractBannerImageFromHtml(html, pageUrl, ".article"), "https://notice.example.com/banner.jpg");
+  assert.equal(extractBannerImageFromHtml(html, pageUrl), "https://notice.example.com/logo.png");
+  assert.equal(extractBannerImageFromHtml("<p>no images</p>", pageUrl), null);
+});
+
+test("extractRssItemImage reads image enclosures and Media RSS tags", () => {
+  assert.equal(
+    extractRssItemImage({ enclosure: { url: "https://cdn.example.com/a.jpg", type: "image/jpeg" } }, pageUrl),
+    "https://cdn.example.com/a.jpg"
+  );
+  assert.equal(
+    extractRssItemImage(
+      {
+        enclosure: { url: "https://cdn.example.com/trailer.mp4", type: "video/mp4" },
+        mediaContent: [{ $: { url: "https://cdn.example.com/trailer.mp4" } }, { $: { url: "https://cdn.example.com/b.png", medium: "image" } }]
+      },
+      pageUrl
+    ),
+    "https://cdn.example.com/b.png"
+  );
+  assert.equal(extractRssItemImage({ mediaThumbnail: { $: { url: "/thumb.webp" } } }, pageUrl), "https://notice.example.com/thumb.webp");
+});
+
+test("extractRssItemImage falls back to the first image of the item content", () => {
+  assert.equal(
+    extractRssItemImage({ content: '<p>Pickup starts</p><img src="/c.png" alt="">' }, pageUrl),
+    "https://notice.example.com/c.png"
+  );
+  assert.equal(extractRssItemImage({ content: "Plain text description" }, pageUrl), null);
+});
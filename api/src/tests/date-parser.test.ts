@@ -0,0 +1,107 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { parseDateRanges } from "../services/date-parser.js";
+
+const publishedAt = "2026-02-25T03:00:00.000Z";
+
+test("parseDateRanges reads Korean ranges with weekdays and infers the end year", () => {
+  const [range] = parseDateRanges("2026년 3월 1일(일) 10:00 ~ 3월 8일 04:59", { timezone: "Asia/Seoul" });
+
+  assert.equal(range.startAtUtc, "2026-03-01T01:00:00.000Z");
+  assert.equal(range.endAtUtc, "2026-03-07T19:59:00.000Z");
+  assert.equal(range.startAnchor, null);
+});
+
+test("parseDateRanges reads Korean meridiem and 부터/까지 phrasing", () => {
+  const [range] = parseDateRanges("3월 1일 오후 2시부터 3월 8일 오전 4시 59분까지", {
+    timezone: "Asia/Seoul",
+    referenceDate: publishedAt
+  });
+
+  assert.equal(range.startAtUtc, "2026-03-01T05:00:00.000Z");
+  assert.equal(range.endAtUtc, "2026-03-07T19:59:00.000Z");
+});
+
+test("parseDateRanges keeps relative maintenance anchors", () => {
+  const [range] = parseDateRanges("3月1日(日) メンテナンス後 ～ 3月8日 3:59", {
+    timezone: "Asia/Tokyo",
+    referenceDate: publishedAt
+  });
+
+  assert.equal(range.startAnchor, "MAINTENANCE");
+  assert.equal(range.startAtUtc, "2026-02-28T15:00:00.000Z");
+  assert.equal(range.endAtUtc, "2026-03-07T18:59:00.000Z");
+  assert.ok(range.confidence < 0.3);
+});
+
+test("parseDateRanges applies offsets written in the text", () => {
+  const [range] = parseDateRanges("after the 2.1 update ~ March 8, 03:59 (UTC+8)", {
+    timezone: "Asia/Seoul",
+    referenceDate: publishedAt
+  });
+
+  assert.equal(range.startAnchor, "UPDATE");
+  assert.equal(range.startAtUtc, null);
+  assert.equal(range.endAtUtc, "2026-03-07T19:59:00.000Z");
+
+  const [english] = parseDateRanges("Sunday, March 1, 2026 at 10:00 AM - March 8, 2026 3:59 AM PST", { timezone: "UTC" });
+  assert.equal(english.startAtUtc, "2026-03-01T18:00:00.000Z");
+  assert.equal(english.endAtUtc, "2026-03-08T11:59:00.000Z");
+});
+
+test("parseDateRanges reads the time and offset of ISO timestamps", () => {
+  const [single] = parseDateRanges("Ends 2026-03-08T04:59:00+09:00", { timezone: "UTC" });
+  assert.equal(single.startAtUtc, "2026-03-07T19:59:00.000Z");
+
+  const [range] = parseDateRanges("2026-03-01T10:00:00.000Z ~ 2026-03-08T04:59-05:00", { timezone: "Asia/Seoul" });
+  assert.equal(range.startAtUtc, "2026-03-01T10:00:00.000Z");
+  assert.equal(range.endAtUtc, "2026-03-08T09:59:00.000Z");
+});
+
+test("parseDateRanges reads Chinese ranges and uses one stated offset for the whole notice", () => {
+  const [range] = parseDateRanges("活动时间：3月1日 10:00 至 3月8日 03:59\n※ 以上时间均为 UTC+8", {
+    timezone: "Asia/Seoul",
+    referenceDate: publishedAt
+  });
+
+  assert.equal(range.startAtUtc, "2026-03-01T02:00:00.000Z");
+  assert.equal(range.endAtUtc, "2026-03-07T19:59:00.000Z");
+});
+
+test("parseDateRanges marks open-ended ranges", () => {
+  const [range] = parseDateRanges("Event period: 2026/03/01 10:00 ~ until further notice", { timezone: "Asia/Seoul" });
+
+  assert.equal(range.startAtUtc, "2026-03-01T01:00:00.000Z");
+  assert.equal(range.endAtUtc, null);
+  assert.equal(range.openEnded, true);
+});
+
+test("parseDateRanges infers years across a new-year boundary from the reference date", () => {
+  const [range] = parseDateRanges("12月28日(水) 15:00 ～ 1月5日(木) 23:59", {
+    timezone: "Asia/Tokyo",
+    referenceDate: "2026-12-20T00:00:00.000Z"
+  });
+
+  assert.equal(range.startAtUtc, "2026-12-28T06:00:00.000Z");
+  assert.equal(range.endAtUtc, "2027-01-05T14:59:00.000Z");
+});
+
+test("parseDateRanges returns every range in a notice", () => {
+  const ranges = parseDateRanges(
+    "Phase 1: 2026/03/01 10:00 ~ 2026/03/08 04:59 / Phase 2: 2026/03/08 05:00 ~ 2026/03/15 04:59",
+    { timezone: "Asia/Seoul" }
+  );
+
+  assert.deepEqual(
+    ranges.map((range) => [range.startAtUtc, range.endAtUtc]),
+    [
+      ["2026-03-01T01:00:00.000Z", "2026-03-07T19:59:00.000Z"],
+      ["2026-03-07T20:00:00.000Z", "2026-03-14T19:59:00.000Z"]
+    ]
+  );
+});
+
+test("parseDateRanges ignores anchors and durations without dates", () => {
+  assert.deepEqual(parseDateRanges("Rewards will be sent after maintenance. Please wait 3시간.", { timezone: "Asia/Seoul" }), []);
+  assert.deepEqual(parseDateRanges("Version 2.1 is live", { timezone: "Asia/Seoul" }), []);
+});
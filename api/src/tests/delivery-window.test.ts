@@ -0,0 +1,77 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  alignToDigestWindow,
+  deferPastQuietHours,
+  resolveDeliveryTime,
+  resolveDeliveryTimeBefore,
+  type DeliveryPreferences
+} from "../services/delivery-window.js";
+
+const seoulNights: DeliveryPreferences = {
+  timezone: "Asia/Seoul",
+  quietHoursStart: 23 * 60,
+  quietHoursEnd: 7 * 60,
+  digestEnabled: false,
+  digestWindowMinutes: 60
+};
+
+test("deferPastQuietHours moves deliveries inside an overnight window to its end", () => {
+  // 03:00 KST -> 07:00 KST the same morning
+  assert.equal(deferPastQuietHours(new Date("2026-05-01T18:00:00Z"), seoulNights).toISOString(), "2026-05-01T22:00:00.000Z");
+  // 23:30 KST -> 07:00 KST the next morning
+  assert.equal(deferPastQuietHours(new Date("2026-05-01T14:30:00Z"), seoulNights).toISOString(), "2026-05-01T22:00:00.000Z");
+  // 12:00 KST is outside the window
+  assert.equal(deferPastQuietHours(new Date("2026-05-01T03:00:00Z"), seoulNights).toISOString(), "2026-05-01T03:00:00.000Z");
+});
+
+test("deferPastQuietHours handles same-day windows and disabled settings", () => {
+  const afternoon = { ...seoulNights, quietHoursStart: 13 * 60, quietHoursEnd: 15 * 60 };
+  assert.equal(deferPastQuietHours(new Date("2026-05-01T05:00:00Z"), afternoon).toISOString(), "2026-05-01T06:00:00.000Z");
+
+  const disabled = { ...seoulNights, quietHoursStart: null, quietHoursEnd: null };
+  assert.equal(deferPastQuietHours(new Date("2026-05-01T18:00:00Z"), disabled).toISOString(), "2026-05-01T18:00:00.000Z");
+});
+
+test("deferPastQuietHours uses the local wall clock across a DST change", () => {
+  const losAngeles = { ...seoulNights, timezone: "America/Los_Angeles" };
+  // 2026-03-08 01:00 PST is inside the window; 07:00 that morning is PDT (UTC-7).
+  assert.equal(deferPastQuietHours(new Date("2026-03-08T09:00:00Z"), losAngeles).toISOString(), "2026-03-08T14:00:00.000Z");
+});
+
+test("alignToDigestWindow rounds up to the end of the local window", () => {
+  const hourly = { ...seoulNights, quietHoursStart: null, quietHoursEnd: null, digestEnabled: true, digestWindowMinutes: 60 };
+  assert.equal(alignToDigestWindow(new Date("2026-05-01T03:10:00Z"), hourly).toISOString(), "2026-05-01T04:00:00.000Z");
+  assert.equal(alignToDigestWindow(new Date("2026-05-01T04:00:00Z"), hourly).toISOString(), "2026-05-01T04:00:00.000Z");
+
+  const daily = { ...hourly, digestWindowMinutes: 1440 };
+  // 10:00 KST -> next local midnight (15:00Z)
+  assert.equal(alignToDigestWindow(new Date("2026-05-01T01:00:00Z"), daily).toISOString(), "2026-05-01T15:00:00.000Z");
+
+  assert.equal(alignToDigestWindow(new Date("2026-05-01T03:10:00Z"), seoulNights).toISOString(), "2026-05-01T03:10:00.000Z");
+});
+
+test("resolveDeliveryTime applies the digest window before quiet hours", () => {
+  const prefs = { ...seoulNights, digestEnabled: true, digestWindowMinutes: 1440 };
+  // Daily digest lands at 00:00 KST, which is inside quiet hours -> 07:00 KST
+  assert.equal(resolveDeliveryTime(new Date("2026-05-01T01:00:00Z"), prefs).toISOString(), "2026-05-01T22:00:00.000Z");
+});
+
+test("resolveDeliveryTimeBefore never defers an alert past its deadline", () => {
+  // "Ends in 1h" requested for 02:00 KST on a banner that closes at 03:00 KST.
+  const at = new Date("2026-05-01T17:00:00Z");
+  const end = new Date("2026-05-01T18:00:00Z");
+  assert.equal(resolveDeliveryTimeBefore(at, seoulNights, end), null);
+
+  // Outside quiet hours the requested time stands.
+  const noon = new Date("2026-05-01T03:00:00Z");
+  assert.deepEqual(resolveDeliveryTimeBefore(noon, seoulNights, new Date("2026-05-01T04:00:00Z")), { scheduledAt: noon, digest: false });
+
+  // A daily digest would land after the end, so the alert goes out on its own.
+  const digest = { ...seoulNights, digestEnabled: true, digestWindowMinutes: 1440 };
+  assert.deepEqual(resolveDeliveryTimeBefore(noon, digest, new Date("2026-05-01T04:00:00Z")), { scheduledAt: noon, digest: false });
+  assert.deepEqual(resolveDeliveryTimeBefore(noon, digest, new Date("2026-05-02T00:00:00Z")), {
+    scheduledAt: new Date("2026-05-01T22:00:00.000Z"),
+    digest: true
+  });
+});
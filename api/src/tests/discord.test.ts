@@ -0,0 +1,99 @@
+﻿import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import { buildEventEmbed, isDiscordWebhookUrl, maskWebhookUrl, postDiscordWebhook } from "../services/discord.js";
+
+async function withWebhookEndpoint(
+  responses: Array<{ status: number; body?: unknown }>,
+  run: (url: string, received: unknown[]) => Promise<void>
+) {
+  const received: unknown[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      const next = responses[Math.min(received.length - 1, responses.length - 1)];
+      res.writeHead(next.status, { "content-type": "application/json" });
+      res.end(next.body === undefined ? "" : JSON.stringify(next.body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}/api/webhooks/1/token`, received);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+const sampleEvent = {
+  eventId: 9,
+  title: "Furina Rerun",
+  type: "PICKUP",
+  gameName: "Genshin Impact",
+  regionCode: "GLOBAL",
+  startAtUtc: "2026-07-01T02:00:00.000Z",
+  endAtUtc: null,
+  sourceUrl: "https://example.com/notice/9",
+  imageUrl: "https://example.com/banner.jpg"
+};
+
+test("isDiscordWebhookUrl accepts Discord webhook URLs only", () => {
+  assert.equal(isDiscordWebhookUrl("https://discord.com/api/webhooks/123/abc-DEF_1"), true);
+  assert.equal(isDiscordWebhookUrl("https://canary.discord.com/api/webhooks/123/abc"), true);
+  assert.equal(isDiscordWebhookUrl("https://example.com/api/webhooks/123/abc"), false);
+  assert.equal(isDiscordWebhookUrl("http://discord.com/api/webhooks/123/abc"), false);
+  assert.equal(maskWebhookUrl("https://discord.com/api/webhooks/123/abcdefgh"), "https://discord.com/api/webhooks/123/abcd...");
+});
+
+test("buildEventEmbed includes game, region, times, source and banner", () => {
+  const embed = buildEventEmbed(sampleEvent, "Starts in 1h");
+
+  assert.equal(embed.title, "[PICKUP] Furina Rerun");
+  assert.equal(embed.url, sampleEvent.sourceUrl);
+  assert.equal(embed.image?.url, sampleEvent.imageUrl);
+  assert.deepEqual(
+    embed.fields?.map((field) => field.name),
+    ["Game", "Region", "Start", "End", "Source"]
+  );
+  assert.equal(embed.fields?.[2].value, "<t:1782871200:F> (<t:1782871200:R>)");
+  assert.equal(embed.fields?.[3].value, "TBD");
+});
+
+test("postDiscordWebhook retries after a 429 using retry_after", async () => {
+  await withWebhookEndpoint(
+    [{ status: 429, body: { message: "You are being rate limited.", retry_after: 0.05, global: false } }, { status: 204 }],
+    async (url, received) => {
+      const result = await postDiscordWebhook(url, { embeds: [buildEventEmbed(sampleEvent, "Starts now")] });
+
+      assert.equal(result.ok, true);
+      assert.equal(result.statusCode, 204);
+      assert.equal(result.attempts, 2);
+      assert.equal(received.length, 2);
+    }
+  );
+});
+
+test("postDiscordWebhook gives up when retry_after exceeds the wait budget", async () => {
+  await withWebhookEndpoint([{ status: 429, body: { retry_after: 60 } }], async (url, received) => {
+    const result = await postDiscordWebhook(url, { embeds: [] }, { maxRetryWaitMs: 1000 });
+
+    assert.equal(result.ok, false);
+    assert.equal(result.statusCode, 429);
+    assert.equal(result.retryAfterMs, 60000);
+    assert.equal(received.length, 1);
+  });
+});
+
+test("postDiscordWebhook flags deleted webhooks as gone", async () => {
+  await withWebhookEndpoint([{ status: 404, body: { message: "Unknown Webhook", code: 10015 } }], async (url) => {
+    const result = await postDiscordWebhook(url, { embeds: [] });
+
+    assert.equal(result.ok, false);
+    assert.equal(result.gone, true);
+  });
+});
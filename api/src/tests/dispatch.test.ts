@@ -0,0 +1,36 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { collectDigestGroups, groupDigestBatches } from "../services/dispatch.js";
+
+const windowEnd = "2026-07-01T09:00:00.000Z";
+const digest = (id: string, channel: "WEBPUSH" | "EMAIL" | "DISCORD" = "EMAIL") => ({
+  id,
+  user_id: "7",
+  channel,
+  scheduled_at_utc: windowEnd,
+  payload_json: { digest: true }
+});
+
+test("collectDigestGroups names the whole window when the pick limit cuts a digest group in half", () => {
+  // A limit of 2 picked one immediate alert and only the first of two schedules in user 7's email digest.
+  const picked = [{ ...digest("1", "WEBPUSH"), payload_json: {} }, digest("2")];
+
+  assert.deepEqual(collectDigestGroups(picked), [{ userId: 7, channel: "EMAIL", scheduledAt: windowEnd }]);
+
+  // Claiming the rest of that window puts both digest schedules into one message.
+  const batches = groupDigestBatches([...picked, digest("3")]);
+  assert.deepEqual(
+    batches.map((batch) => batch.map((schedule) => schedule.id)),
+    [["1"], ["2", "3"]]
+  );
+});
+
+test("collectDigestGroups keeps channels and windows apart", () => {
+  const nextWindow = { ...digest("4"), scheduled_at_utc: new Date("2026-07-01T21:00:00.000Z") };
+
+  assert.deepEqual(collectDigestGroups([digest("2"), digest("3"), digest("5", "DISCORD"), nextWindow]), [
+    { userId: 7, channel: "EMAIL", scheduledAt: windowEnd },
+    { userId: 7, channel: "DISCORD", scheduledAt: windowEnd },
+    { userId: 7, channel: "EMAIL", scheduledAt: "2026-07-01T21:00:00.000Z" }
+  ]);
+});
@@ -0,0 +1,55 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { eventRowToFieldValues, mergeLockedFields, type EventFieldValues } from "../services/event-locks.js";
+
+const current: EventFieldValues = {
+  type: "PICKUP",
+  title: "Summer Aria Pickup (corrected)",
+  summary: "Rate up",
+  startAtUtc: "2026-07-01T05:00:00.000Z",
+  endAtUtc: "2026-07-15T01:59:00.000Z",
+  visibility: "PUBLIC"
+};
+
+test("mergeLockedFields keeps locked values and takes the rest from the parser", () => {
+  const incoming: EventFieldValues = {
+    ...current,
+    title: "Summer Aria Pickup",
+    summary: "Rate up for Summer Aria",
+    endAtUtc: "2026-07-16T01:59:00.000Z"
+  };
+
+  const { values, conflicts, matched } = mergeLockedFields(current, incoming, ["title", "startAtUtc"]);
+
+  assert.equal(values.title, "Summer Aria Pickup (corrected)");
+  assert.equal(values.summary, "Rate up for Summer Aria");
+  assert.equal(values.endAtUtc, "2026-07-16T01:59:00.000Z");
+  assert.deepEqual(conflicts, [{ field: "title", lockedValue: "Summer Aria Pickup (corrected)", incomingValue: "Summer Aria Pickup" }]);
+  assert.deepEqual(matched, ["startAtUtc"]);
+});
+
+test("mergeLockedFields with no locks is a plain overwrite", () => {
+  const incoming: EventFieldValues = { ...current, visibility: "NEED_REVIEW" };
+  const { values, conflicts, matched } = mergeLockedFields(current, incoming, []);
+
+  assert.deepEqual(values, incoming);
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(matched, []);
+});
+
+test("eventRowToFieldValues normalizes timestamps for comparison", () => {
+  const values = eventRowToFieldValues({
+    id: "7",
+    type: "MAINTENANCE",
+    title: "Maintenance",
+    summary: null,
+    start_at_utc: new Date("2026-07-01T01:00:00Z"),
+    end_at_utc: null,
+    visibility: "HIDDEN",
+    locked_fields: ["visibility"]
+  });
+
+  assert.equal(values.startAtUtc, "2026-07-01T01:00:00.000Z");
+  assert.equal(values.endAtUtc, null);
+  assert.equal(values.visibility, "HIDDEN");
+});
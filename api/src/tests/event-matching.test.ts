@@ -0,0 +1,84 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { findBestMatch, scoreEventMatch, titleSimilarity, windowsOverlap, type MatchCandidate } from "../services/event-matching.js";
+
+const banner: MatchCandidate = {
+  id: 10,
+  type: "PICKUP",
+  title: "[Event Wish] Summer Aria Pickup",
+  startAtUtc: "2026-07-01T02:00:00.000Z",
+  endAtUtc: "2026-07-21T14:59:00.000Z",
+  noticeUrls: ["https://notice.example.com/posts/101"]
+};
+
+test("titleSimilarity tolerates typos, tags and titles without spaces", () => {
+  assert.ok(titleSimilarity("Summer Aria Pickup", "Summer Aira Pickup") >= 0.8);
+  assert.ok(titleSimilarity("[Event Wish] Summer Aria Pickup", "Event Wish: Summer Aria Pickup!") > 0.95);
+  assert.ok(titleSimilarity("여름 아리아 픽업 안내", "여름 아리아 픽업") >= 0.8);
+  assert.ok(titleSimilarity("Summer Aria Pickup", "Server Maintenance") < 0.3);
+  assert.equal(titleSimilarity("", "Summer"), 0);
+});
+
+test("windowsOverlap allows a day of slack and reports unknown dates as null", () => {
+  assert.equal(windowsOverlap(banner, { startAtUtc: "2026-07-22T10:00:00.000Z", endAtUtc: null }), true);
+  assert.equal(windowsOverlap(banner, { startAtUtc: "2026-07-28T02:00:00.000Z", endAtUtc: "2026-07-28T06:00:00.000Z" }), false);
+  assert.equal(windowsOverlap(banner, { startAtUtc: null, endAtUtc: null }), null);
+});
+
+test("scoreEventMatch attaches the same banner from another source and a changed end time", () => {
+  const fromHtml = scoreEventMatch(banner, {
+    type: "PICKUP",
+    title: "Event Wish - Summer Aria Pickup",
+    startAtUtc: "2026-07-01T02:00:00.000Z",
+    endAtUtc: "2026-07-24T14:59:00.000Z",
+    url: "https://www.example.com/board/notices/77"
+  });
+
+  assert.equal(fromHtml?.eventId, 10);
+  assert.equal(fromHtml?.sharedUrl, false);
+  assert.equal(fromHtml?.reason, "SIMILAR: title 1.00, dates overlap");
+});
+
+test("scoreEventMatch keeps recurring and unrelated notices apart", () => {
+  const maintenance: MatchCandidate = {
+    id: 11,
+    type: "MAINTENANCE",
+    title: "Scheduled Server Maintenance",
+    startAtUtc: "2026-07-01T22:00:00.000Z",
+    endAtUtc: "2026-07-02T02:00:00.000Z",
+    noticeUrls: ["https://notice.example.com/posts/90"]
+  };
+
+  const nextWeek = {
+    type: "MAINTENANCE",
+    title: "Scheduled Server Maintenance",
+    startAtUtc: "2026-07-08T22:00:00.000Z",
+    endAtUtc: "2026-07-09T02:00:00.000Z",
+    url: "https://notice.example.com/posts/95"
+  };
+  assert.equal(scoreEventMatch(maintenance, nextWeek), null);
+  assert.equal(scoreEventMatch(maintenance, { ...nextWeek, startAtUtc: null, endAtUtc: null }), null);
+  assert.equal(scoreEventMatch(banner, { ...nextWeek, type: "PICKUP", startAtUtc: banner.startAtUtc, endAtUtc: null }), null);
+});
+
+test("findBestMatch prefers an event that shares the notice URL", () => {
+  const sameUrl: MatchCandidate = {
+    ...banner,
+    id: 12,
+    title: "Summer Aria Pickup Notice",
+    startAtUtc: null,
+    endAtUtc: null,
+    noticeUrls: ["https://NOTICE.example.com/posts/120/#top"]
+  };
+
+  const match = findBestMatch([banner, sameUrl], {
+    type: "PICKUP",
+    title: "[Event Wish] Summer Aria Pickup",
+    startAtUtc: "2026-07-01T02:00:00.000Z",
+    endAtUtc: "2026-07-21T14:59:00.000Z",
+    url: "https://notice.example.com/posts/120"
+  });
+
+  assert.equal(match?.eventId, 12);
+  assert.equal(match?.sharedUrl, true);
+});
@@ -0,0 +1,65 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import type { EventFieldValues } from "../services/event-locks.js";
+import { describeScheduleChange, diffEventFields, isScheduleChange } from "../services/event-revisions.js";
+import { isChangeScheduleWanted } from "../services/scheduling.js";
+
+const before: EventFieldValues = {
+  type: "MAINTENANCE",
+  title: "Server Maintenance",
+  summary: null,
+  startAtUtc: "2026-03-05T02:00:00.000Z",
+  endAtUtc: "2026-03-05T06:00:00.000Z",
+  visibility: "PUBLIC"
+};
+
+test("diffEventFields lists changed fields and compares timestamps as instants", () => {
+  const changes = diffEventFields(before, {
+    ...before,
+    summary: "Extended for a hotfix",
+    startAtUtc: "2026-03-05T11:00:00+09:00",
+    endAtUtc: "2026-03-05T08:00:00Z"
+  });
+
+  assert.deepEqual(changes, [
+    { field: "summary", before: null, after: "Extended for a hotfix" },
+    { field: "endAtUtc", before: "2026-03-05T06:00:00.000Z", after: "2026-03-05T08:00:00.000Z" }
+  ]);
+  assert.equal(isScheduleChange(changes), true);
+  assert.deepEqual(diffEventFields(before, { ...before }), []);
+});
+
+test("describeScheduleChange names the direction of an end time move", () => {
+  const end = (after: string | null) => [{ field: "endAtUtc" as const, before: before.endAtUtc, after }];
+
+  assert.equal(describeScheduleChange("MAINTENANCE", end("2026-03-05T08:00:00.000Z")), "Maintenance extended");
+  assert.equal(describeScheduleChange("PICKUP", end("2026-03-05T05:00:00.000Z")), "Event ends earlier");
+  assert.equal(describeScheduleChange("PICKUP", end(null)), "Event time changed");
+  assert.equal(
+    describeScheduleChange("MAINTENANCE", [
+      { field: "startAtUtc", before: before.startAtUtc, after: "2026-03-05T03:00:00.000Z" },
+      ...end("2026-03-05T08:00:00.000Z")
+    ]),
+    "Maintenance time changed"
+  );
+  assert.equal(isScheduleChange([{ field: "title", before: "A", after: "B" }]), false);
+});
+
+test("isChangeScheduleWanted drops a waiting change alert once its event is hidden", () => {
+  const rules = [{ trigger: "ON_CHANGE" as const, channel: "EMAIL" as const }];
+
+  assert.equal(isChangeScheduleWanted({ visibility: "PUBLIC" }, "EMAIL", true, rules), true);
+  assert.equal(isChangeScheduleWanted({ visibility: "HIDDEN" }, "EMAIL", true, rules), false);
+  assert.equal(isChangeScheduleWanted({ visibility: "NEED_REVIEW" }, "EMAIL", true, rules), false);
+});
+
+test("isChangeScheduleWanted drops a waiting change alert once its rule or region is gone", () => {
+  const rules = [
+    { trigger: "ON_START" as const, channel: "EMAIL" as const },
+    { trigger: "ON_CHANGE" as const, channel: "DISCORD" as const }
+  ];
+
+  assert.equal(isChangeScheduleWanted({ visibility: "PUBLIC" }, "EMAIL", true, rules), false);
+  assert.equal(isChangeScheduleWanted({ visibility: "PUBLIC" }, "DISCORD", true, rules), true);
+  assert.equal(isChangeScheduleWanted({ visibility: "PUBLIC" }, "DISCORD", false, rules), false);
+});
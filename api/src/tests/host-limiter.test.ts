@@ -0,0 +1,85 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { createHostLimiter, parseRetryAfterMs } from "../services/host-limiter.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("parseRetryAfterMs reads delay seconds and HTTP dates", () => {
+  const now = Date.parse("2026-07-01T00:00:00.000Z");
+  assert.equal(parseRetryAfterMs("120", now), 120000);
+  assert.equal(parseRetryAfterMs("Wed, 01 Jul 2026 00:00:30 GMT", now), 30000);
+  assert.equal(parseRetryAfterMs("Tue, 30 Jun 2026 23:00:00 GMT", now), 0);
+  assert.equal(parseRetryAfterMs("soon", now), null);
+  assert.equal(parseRetryAfterMs(null, now), null);
+});
+
+test("host limiter caps concurrent requests per host", async () => {
+  let active = 0;
+  let peak = 0;
+  const limited = createHostLimiter(
+    async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await sleep(20);
+      active -= 1;
+      return new Response("ok");
+    },
+    { concurrency: 2, minIntervalMs: 0, maxRetryAfterMs: 1000 }
+  );
+
+  await Promise.all(Array.from({ length: 6 }, (_, index) => limited(`https://a.example.com/${index}`)));
+  assert.equal(peak, 2);
+
+  // Other hosts have their own budget.
+  peak = 0;
+  await Promise.all([limited("https://a.example.com/x"), limited("https://b.example.com/x"), limited("https://c.example.com/x")]);
+  assert.equal(peak, 3);
+});
+
+test("host limiter spaces request starts by the minimum interval", async () => {
+  const starts: number[] = [];
+  const limited = createHostLimiter(
+    async () => {
+      starts.push(Date.now());
+      return new Response("ok");
+    },
+    { concurrency: 4, minIntervalMs: 40, maxRetryAfterMs: 1000 }
+  );
+
+  await Promise.all([1, 2, 3].map((index) => limited(`https://a.example.com/${index}`)));
+  assert.ok(starts[1] - starts[0] >= 35);
+  assert.ok(starts[2] - starts[1] >= 35);
+});
+
+test("host limiter waits out a short Retry-After and retries once", async () => {
+  const calls: number[] = [];
+  const limited = createHostLimiter(
+    async () => {
+      calls.push(Date.now());
+      return calls.length === 1
+        ? new Response("slow down", { status: 429, headers: { "retry-after": "0" } })
+        : new Response("ok", { status: 200 });
+    },
+    { concurrency: 1, minIntervalMs: 0, maxRetryAfterMs: 1000 }
+  );
+
+  const response = await limited("https://a.example.com/list");
+  assert.equal(response.status, 200);
+  assert.equal(calls.length, 2);
+});
+
+test("host limiter returns a long Retry-After and fails fast until it passes", async () => {
+  let calls = 0;
+  const limited = createHostLimiter(
+    async () => {
+      calls += 1;
+      return new Response("maintenance", { status: 503, headers: { "retry-after": "3600" } });
+    },
+    { concurrency: 1, minIntervalMs: 0, maxRetryAfterMs: 1000 }
+  );
+
+  const response = await limited("https://a.example.com/list");
+  assert.equal(response.status, 503);
+  await assert.rejects(limited("https://a.example.com/detail"), /a\.example\.com asked to retry after/);
+  assert.equal(calls, 1);
+});
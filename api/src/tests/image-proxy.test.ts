@@ -0,0 +1,188 @@
+﻿import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test, { after } from "node:test";
+import sharp from "sharp";
+import { withHttpFetch } from "../services/http.js";
+import {
+  getProxiedImage,
+  pickImageWidth,
+  type ImageCacheOptions,
+  type ProxiedImage,
+  type UnavailableImage
+} from "../services/image-proxy.js";
+
+const hour = 60 * 60 * 1000;
+const start = Date.parse("2026-07-01T00:00:00.000Z");
+
+const cacheDirs: string[] = [];
+
+after(() => {
+  for (const dir of cacheDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function cacheOptions(now: number): ImageCacheOptions {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "image-cache-"));
+  cacheDirs.push(cacheDir);
+  // Every test host resolves to a public address without touching DNS.
+  return { cacheDir, refreshMs: 24 * hour, maxBytes: 1024 * 1024, now, resolveHost: async () => ["93.184.215.14"] };
+}
+
+const bannerPng = () =>
+  sharp({ create: { width: 1600, height: 800, channels: 3, background: { r: 200, g: 40, b: 90 } } }).png().toBuffer();
+
+function served(image: ProxiedImage | UnavailableImage) {
+  assert.ok(image.body, image.fetchError ?? "image unavailable");
+  return image as ProxiedImage;
+}
+
+function imageResponse(body: Buffer, headers: Record<string, string> = {}) {
+  return new Response(new Uint8Array(body), { status: 200, headers: { "content-type": "image/png", ...headers } });
+}
+
+test("pickImageWidth snaps requests up to a cached width", () => {
+  assert.equal(pickImageWidth(undefined), 640);
+  assert.equal(pickImageWidth(100), 320);
+  assert.equal(pickImageWidth(641), 960);
+  assert.equal(pickImageWidth(4000), 1280);
+});
+
+test("getProxiedImage resizes to WebP once and serves later requests from the cache", async () => {
+  const png = await bannerPng();
+  const options = cacheOptions(start);
+  const requested: string[] = [];
+  const fetchImage = async (url: string) => {
+    requested.push(url);
+    return imageResponse(png);
+  };
+
+  const first = served(await withHttpFetch(fetchImage, () => getProxiedImage("https://cdn.example.com/a.png", 640, options)));
+  assert.equal(first.cacheStatus, "MISS");
+  const metadata = await sharp(first.body).metadata();
+  assert.equal(metadata.format, "webp");
+  assert.equal(metadata.width, 640);
+
+  const second = served(await withHttpFetch(fetchImage, () => getProxiedImage("https://cdn.example.com/a.png", 640, options)));
+  assert.equal(second.cacheStatus, "HIT");
+  assert.equal(second.etag, first.etag);
+
+  // Another width is rendered from the cached original without refetching.
+  const wide = served(await withHttpFetch(fetchImage, () => getProxiedImage("https://cdn.example.com/a.png", 1280, options)));
+  assert.equal((await sharp(wide.body).metadata()).width, 1280);
+  assert.deepEqual(requested, ["https://cdn.example.com/a.png"]);
+});
+
+test("getProxiedImage revalidates old copies and keeps serving them when the original is gone", async () => {
+  const png = await bannerPng();
+  const options = cacheOptions(start);
+  const url = "https://cdn.example.com/moved.png";
+  await withHttpFetch(
+    async () => imageResponse(png, { etag: '"v1"' }),
+    () => getProxiedImage(url, 320, options)
+  );
+
+  const conditional: Array<string | undefined> = [];
+  const revalidated = served(
+    await withHttpFetch(
+      async (_url, init) => {
+        conditional.push((init?.headers as Record<string, string>)["If-None-Match"]);
+        return new Response(null, { status: 304 });
+      },
+      () => getProxiedImage(url, 320, { ...options, now: start + 25 * hour })
+    )
+  );
+  assert.deepEqual(conditional, ['"v1"']);
+  assert.equal(revalidated.cacheStatus, "HIT");
+
+  const stale = served(
+    await withHttpFetch(
+      async () => new Response("Not found", { status: 404, headers: { "content-type": "text/html" } }),
+      () => getProxiedImage(url, 320, { ...options, now: start + 50 * hour })
+    )
+  );
+  assert.equal(stale.cacheStatus, "STALE");
+  assert.match(stale.fetchError ?? "", /status 404/);
+  assert.equal((await sharp(stale.body).metadata()).width, 320);
+});
+
+test("getProxiedImage reports uncached URLs that do not serve an image as unavailable", async () => {
+  const options = cacheOptions(start);
+  const result = await withHttpFetch(
+    async () => new Response("<html></html>", { status: 200, headers: { "content-type": "text/html" } }),
+    () => getProxiedImage("https://cdn.example.com/not-an-image", 640, options)
+  );
+  assert.equal(result.body, null);
+  assert.match(result.fetchError ?? "", /Expected an image/);
+  assert.equal(fs.readdirSync(options.cacheDir).length, 0);
+});
+
+test("getProxiedImage stops reading a body without content-length once it passes maxBytes", async () => {
+  const options = { ...cacheOptions(start), maxBytes: 1024 };
+  let pulled = 0;
+  const endless = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulled += 1;
+      controller.enqueue(new Uint8Array(512));
+    }
+  });
+
+  const result = await withHttpFetch(
+    async () => new Response(endless, { status: 200, headers: { "content-type": "image/png" } }),
+    () => getProxiedImage("https://cdn.example.com/chunked.png", 640, options)
+  );
+  assert.equal(result.body, null);
+  assert.match(result.fetchError ?? "", /larger than 1024 bytes/);
+  assert.ok(pulled <= 4);
+});
+
+test("getProxiedImage follows redirects to public hosts only", async () => {
+  const png = await bannerPng();
+  const requested: string[] = [];
+  const redirectTo = (location: string) => async (url: string, init?: RequestInit) => {
+    requested.push(url);
+    assert.equal(init?.redirect, "manual");
+    if (url.startsWith("https://cdn.example.com/")) return new Response(null, { status: 302, headers: { location } });
+    return imageResponse(png);
+  };
+
+  const moved = served(
+    await withHttpFetch(redirectTo("https://images.example.net/banner.png"), () =>
+      getProxiedImage("https://cdn.example.com/redirected.png", 320, cacheOptions(start))
+    )
+  );
+  assert.equal(moved.cacheStatus, "MISS");
+
+  const internal = [
+    "http://169.254.169.254/latest/meta-data",
+    "http://127.0.0.1:8080/admin",
+    "http://[::1]/",
+    "http://[::ffff:10.0.0.5]/",
+    "http://localhost/"
+  ];
+  for (const [index, location] of internal.entries()) {
+    requested.length = 0;
+    const blocked = await withHttpFetch(redirectTo(location), () =>
+      getProxiedImage(`https://cdn.example.com/internal-${index}.png`, 320, cacheOptions(start))
+    );
+    assert.equal(blocked.body, null, location);
+    assert.equal(requested.length, 1, location);
+  }
+});
+
+test("getProxiedImage never fetches stored URLs that point to a private address", async () => {
+  const requested: string[] = [];
+  const fetchImage = async (url: string) => {
+    requested.push(url);
+    return imageResponse(await bannerPng());
+  };
+
+  for (const url of ["http://169.254.169.254/latest/meta-data", "http://localhost:5432/", "http://[fd00::1]/banner.png"]) {
+    assert.equal((await withHttpFetch(fetchImage, () => getProxiedImage(url, 320, cacheOptions(start)))).body, null, url);
+  }
+
+  // A public-looking host name that resolves into the private network is rejected as well.
+  const rebound = { ...cacheOptions(start), resolveHost: async () => ["10.0.0.8"] };
+  assert.equal((await withHttpFetch(fetchImage, () => getProxiedImage("https://cdn.example.com/rebound.png", 320, rebound))).body, null);
+  assert.deepEqual(requested, []);
+});
@@ -1,6 +1,12 @@
 ﻿import assert from "node:assert/strict";
 import test from "node:test";
-import { extractDateRange, parseRawNoticeToEventDraft } from "../services/ingest.js";
+import {
+  extractDateRange,
+  fillUrlTemplate,
+  parseRawNoticeToEventDraft,
+  parseRawNoticeToEventDrafts,
+  readJsonPath
+} from "../services/ingest.js";
 
 test("extractDateRange parses full datetime range", () => {
   const text = "2026/03/01 10:00 ~ 2026/03/08 11:30";
@@ -12,6 +18,38 @@ test("extractDateRange parses full datetime range", () => {
   assert.equal(result.endAtUtc, "2026-03-08T02:30:00.000Z");
 });
 
+test("extractDateRange resolves arbitrary IANA zones", () => {
+  const shanghai = extractDateRange("2026/05/01 10:00 ~ 2026/05/08 04:59", "Asia/Shanghai");
+  assert.equal(shanghai.startAtUtc, "2026-05-01T02:00:00.000Z");
+  assert.equal(shanghai.endAtUtc, "2026-05-07T20:59:00.000Z");
+
+  const kolkata = extractDateRange("2026-05-01 10:00", "Asia/Kolkata");
+  assert.equal(kolkata.startAtUtc, "2026-05-01T04:30:00.000Z");
+});
+
+test("extractDateRange applies DST on each side of a transition", () => {
+  // America/Los_Angeles springs forward on 2026-03-08 02:00 (PST -08:00 -> PDT -07:00).
+  const spring = extractDateRange("2026/03/07 12:00 ~ 2026/03/09 12:00", "America/Los_Angeles");
+  assert.equal(spring.startAtUtc, "2026-03-07T20:00:00.000Z");
+  assert.equal(spring.endAtUtc, "2026-03-09T19:00:00.000Z");
+
+  // Europe/London falls back on 2026-10-25 02:00 (BST +01:00 -> GMT +00:00).
+  const autumn = extractDateRange("2026/10/24 09:00 ~ 2026/10/26 09:00", "Europe/London");
+  assert.equal(autumn.startAtUtc, "2026-10-24T08:00:00.000Z");
+  assert.equal(autumn.endAtUtc, "2026-10-26T09:00:00.000Z");
+});
+
+test("extractDateRange moves wall times inside a DST gap forward", () => {
+  // 02:30 does not exist in Los Angeles on 2026-03-08; it is read as 03:30 PDT.
+  const result = extractDateRange("2026/03/08 02:30", "America/Los_Angeles");
+  assert.equal(result.startAtUtc, "2026-03-08T10:30:00.000Z");
+});
+
+test("extractDateRange rejects impossible dates", () => {
+  const result = extractDateRange("2026/13/01 10:00", "Asia/Seoul");
+  assert.equal(result.startAtUtc, null);
+});
+
 test("parseRawNoticeToEventDraft detects pickup events", () => {
   const result = parseRawNoticeToEventDraft({
     title: "[KR] Pickup Recruitment Notice",
@@ -24,6 +62,18 @@ test("parseRawNoticeToEventDraft detects pickup events", () => {
   assert.equal(result.visibility, "PUBLIC");
 });
 
+test("parseRawNoticeToEventDraft infers missing years from publishedAt", () => {
+  const result = parseRawNoticeToEventDraft({
+    title: "[JP] ピックアップ召喚のお知らせ",
+    contentText: "開催期間：12月28日(水) 15:00 ～ 1月5日(木) 23:59",
+    timezone: "Asia/Tokyo",
+    publishedAt: "2026-12-20T00:00:00.000Z"
+  });
+
+  assert.equal(result.startAtUtc, "2026-12-28T06:00:00.000Z");
+  assert.equal(result.endAtUtc, "2027-01-05T14:59:00.000Z");
+});
+
 test("parseRawNoticeToEventDraft marks low confidence when time is missing", () => {
   const result = parseRawNoticeToEventDraft({
     title: "General Notice",
@@ -35,3 +85,101 @@ test("parseRawNoticeToEventDraft marks low confidence when time is missing", ()
   assert.ok(result.confidence < 0.65);
   assert.equal(result.visibility, "NEED_REVIEW");
 });
+
+test("readJsonPath walks nested objects and arrays", () => {
+  const body = { data: { list: [{ iInfoId: 101, sTitle: "Event Wishes Notice" }] } };
+
+  assert.equal(readJsonPath(body, "data.list.0.iInfoId"), 101);
+  assert.equal(readJsonPath(body, "data.missing.field"), undefined);
+  assert.deepEqual(readJsonPath(body, ""), body);
+});
+
+test("fillUrlTemplate substitutes id and item fields", () => {
+  const item = { iInfoId: 101, meta: { lang: "en-us" } };
+  const url = fillUrlTemplate("https://example.com/getContent?iInfoId={id}&sLangKey={meta.lang}", item, "101");
+
+  assert.equal(url, "https://example.com/getContent?iInfoId=101&sLangKey=en-us");
+});
+
+test("parseRawNoticeToEventDrafts splits simultaneous banners into separate drafts", () => {
+  const drafts = parseRawNoticeToEventDrafts({
+    title: "[KR] 픽업 모집 안내",
+    contentText:
+      "【캐릭터 픽업】 2026/03/01 10:00 ~ 2026/03/15 03:59 한정 캐릭터 확률 UP " +
+      "【무기 픽업】 2026/03/01 10:00 ~ 2026/03/15 03:59 한정 무기 확률 UP " +
+      "【복각 픽업】 2026/03/08 10:00 ~ 2026/03/15 03:59 복각 캐릭터 확률 UP " +
+      "【유의 사항】 보상은 우편함으로 지급됩니다.",
+    timezone: "Asia/Seoul"
+  });
+
+  assert.deepEqual(
+    drafts.map((draft) => [draft.sectionKey, draft.startAtUtc, draft.endAtUtc]),
+    [
+      ["캐릭터 픽업", "2026-03-01T01:00:00.000Z", "2026-03-14T18:59:00.000Z"],
+      ["무기 픽업", "2026-03-01T01:00:00.000Z", "2026-03-14T18:59:00.000Z"],
+      ["복각 픽업", "2026-03-08T01:00:00.000Z", "2026-03-14T18:59:00.000Z"]
+    ]
+  );
+  assert.equal(drafts[0].title, "[KR] 픽업 모집 안내 - 캐릭터 픽업");
+  assert.ok(drafts.every((draft) => draft.type === "PICKUP"));
+});
+
+test("parseRawNoticeToEventDrafts shares the notice period across named banners", () => {
+  const drafts = parseRawNoticeToEventDrafts({
+    title: "Event Wishes Notice",
+    contentText:
+      "Wish Duration: 2026/03/01 10:00 ~ 2026/03/21 14:59 " +
+      'Event Wish "Ballad in Goblets" boosted drop rate for a 5-star character. ' +
+      'Event Wish "Epitome Invocation" boosted drop rate for weapons.',
+    timezone: "Asia/Shanghai"
+  });
+
+  assert.equal(drafts.length, 2);
+  assert.equal(drafts[1].title, 'Event Wishes Notice - Event Wish "Epitome Invocation"');
+  assert.ok(drafts.every((draft) => draft.startAtUtc === "2026-03-01T02:00:00.000Z"));
+  assert.ok(drafts.every((draft) => draft.endAtUtc === "2026-03-21T06:59:00.000Z"));
+});
+
+test("parseRawNoticeToEventDrafts keeps single-period notices whole", () => {
+  const drafts = parseRawNoticeToEventDrafts({
+    title: "Spring Festival",
+    contentText: "【Event Period】 2026/03/01 10:00 ~ 2026/03/08 11:30 【Rewards】 Gems x300 【Notes】 Rewards go to the mailbox.",
+    timezone: "Asia/Seoul"
+  });
+
+  assert.equal(drafts.length, 1);
+  assert.equal(drafts[0].title, "Spring Festival");
+  assert.equal(drafts[0].sectionKey, null);
+});
+
+test("parseRawNoticeToEventDrafts does not split dated sections that name no banner", () => {
+  const drafts = parseRawNoticeToEventDrafts({
+    title: "Lantern Rite Event",
+    contentText:
+      "【Event Period】 2026/03/01 10:00 ~ 2026/03/15 03:59 Complete quests for tokens. " +
+      "【Exchange Period】 2026/03/01 10:00 ~ 2026/03/22 03:59 Trade tokens in the shop.",
+    timezone: "Asia/Seoul"
+  });
+
+  assert.equal(drafts.length, 1);
+  assert.equal(drafts[0].sectionKey, null);
+  assert.equal(drafts[0].startAtUtc, "2026-03-01T01:00:00.000Z");
+});
+
+test("parseRawNoticeToEventDrafts keeps sub-headings inside the banner section above them", () => {
+  const drafts = parseRawNoticeToEventDrafts({
+    title: "Pickup Notice",
+    contentText:
+      "【Character Pickup】 【Duration】 2026/03/01 10:00 ~ 2026/03/15 03:59 " +
+      "【Weapon Pickup】 【Duration】 2026/03/08 10:00 ~ 2026/03/15 03:59 【Notes】 Rates apply per pull.",
+    timezone: "Asia/Seoul"
+  });
+
+  assert.deepEqual(
+    drafts.map((draft) => [draft.sectionKey, draft.startAtUtc]),
+    [
+      ["Character Pickup", "2026-03-01T01:00:00.000Z"],
+      ["Weapon Pickup", "2026-03-08T01:00:00.000Z"]
+    ]
+  );
+});
@@ -0,0 +1,284 @@
+﻿import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+import { createRecordingFetch, createReplayFetch, fixtureFileName, withHttpFetch } from "../services/http.js";
+import {
+  createFetchState,
+  fetchSourceCandidates,
+  parseRawNoticeToEventDrafts,
+  type SourceFetchDefinition
+} from "../services/ingest.js";
+import { getPickupAdapter } from "../services/pickup-adapters.js";
+import { clearRobotsCache } from "../services/robots.js";
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "http");
+const replay = createReplayFetch(fixturesDir);
+
+const region = { timezone: "Asia/Seoul", regionCode: "KR", gameSlug: "sample-game" };
+
+function replaySource(definition: Omit<SourceFetchDefinition, keyof typeof region>) {
+  return withHttpFetch(replay, () => fetchSourceCandidates({ ...region, ...definition }));
+}
+
+test("RSS sources replay from fixtures and parse into drafts", async () => {
+  const candidates = await replaySource({ type: "RSS", baseUrl: "https://notice.example.com/news/rss.xml", configJson: {} });
+
+  assert.deepEqual(
+    candidates.map((candidate) => [candidate.url, candidate.publishedAt]),
+    [
+      ["https://notice.example.com/news/2001", "2026-06-29T03:00:00.000Z"],
+      ["https://notice.example.com/news/2002", "2026-06-30T06:00:00.000Z"]
+    ]
+  );
+
+  const [maintenance] = parseRawNoticeToEventDrafts({ ...candidates[0], timezone: region.timezone });
+  assert.equal(maintenance.type, "MAINTENANCE");
+  assert.equal(maintenance.startAtUtc, "2026-07-01T01:00:00.000Z");
+  assert.equal(maintenance.endAtUtc, "2026-07-01T05:00:00.000Z");
+});
+
+test("HTML list sources follow detail links and fall back to list text when a detail page fails", async () => {
+  const candidates = await replaySource({
+    type: "HTML_LIST",
+    baseUrl: "https://board.example.com",
+    listUrl: "https://board.example.com/notices",
+    configJson: {
+      itemSelector: "li.notice",
+      titleSelector: "a.title",
+      linkSelector: "a.title",
+      dateSelector: "span.date",
+      detailSelector: ".article-body"
+    }
+  });
+
+  assert.equal(candidates.length, 2);
+  assert.match(candidates[0].contentText, /2026\.07\.03 11:00 ~ 2026\.07\.31 04:59/);
+  // The second detail page was recorded as a 404.
+  assert.equal(candidates[1].contentText, "[점검] 7월 9일 정기 점검 안내 2026.07.07");
+
+  const [update] = parseRawNoticeToEventDrafts({ ...candidates[0], timezone: region.timezone });
+  assert.equal(update.type, "UPDATE");
+  assert.equal(update.startAtUtc, "2026-07-03T02:00:00.000Z");
+  assert.equal(update.endAtUtc, "2026-07-30T19:59:00.000Z");
+});
+
+test("banner images are read from RSS enclosures and HTML detail pages", async () => {
+  const feed = await replaySource({ type: "RSS", baseUrl: "https://notice.example.com/banners/rss.xml", configJson: {} });
+  assert.deepEqual(
+    feed.map((candidate) => candidate.rawPayload.imageUrl),
+    ["https://cdn.example.com/banners/summer-aria.jpg", null]
+  );
+
+  const board = await replaySource({
+    type: "HTML_LIST",
+    baseUrl: "https://board.example.com",
+    listUrl: "https://board.example.com/banners",
+    configJson: {
+      itemSelector: "li.notice",
+      titleSelector: "a.title",
+      linkSelector: "a.title",
+      dateSelector: "span.date",
+      detailSelector: ".article-body"
+    }
+  });
+  // The first detail page has an og:image; the second only a lazy-loaded image in its body.
+  assert.deepEqual(
+    board.map((candidate) => candidate.rawPayload.imageUrl),
+    ["https://board.example.com/images/banner-301.png", "https://cdn.example.com/board/banner-302.jpg"]
+  );
+});
+
+test("API sources page until an empty list and read detail content", async () => {
+  const candidates = await replaySource({
+    type: "API",
+    baseUrl: "https://api.example.com",
+    listUrl: "https://api.example.com/v1/notices",
+    configJson: {
+      itemsPath: "data.list",
+      titlePattern: "Event",
+      contentField: "summary",
+      detailContentField: "content",
+      dateField: "createdAt",
+      pageParam: "page",
+      maxPages: 3,
+      detailUrlTemplate: "/v1/notices/{id}",
+      detailItemPath: "data",
+      itemUrlTemplate: "https://api.example.com/notice/{id}"
+    }
+  });
+
+  assert.equal(candidates.length, 1);
+  assert.equal(candidates[0].url, "https://api.example.com/notice/501");
+  assert.equal(candidates[0].publishedAt, "2026-07-05T03:00:00.000Z");
+  assert.match(candidates[0].contentText, /Event period: 2026-07-08 10:00 ~ 2026-07-22 03:59/);
+});
+
+test("pickup collectors replay from fixtures", async () => {
+  const genshin = await withHttpFetch(replay, () => getPickupAdapter("genshin")!.collect());
+  assert.equal(genshin.length, 1);
+  assert.equal(genshin[0].title, '"Moonlit Tide" Event Wishes Notice');
+  assert.equal(genshin[0].startAtUtc, "2026-07-14T22:00:00.000Z");
+  assert.equal(genshin[0].endAtUtc, "2026-08-05T06:59:00.000Z");
+  assert.equal(genshin[0].imageUrl, "https://sdk.hoyoverse.com/upload/moonlit-tide-banner.jpg");
+
+  const blueArchive = await withHttpFetch(replay, () => getPickupAdapter("blue-archive")!.collect());
+  assert.equal(blueArchive.length, 1);
+  assert.equal(blueArchive[0].startAtUtc, "2026-07-14T04:00:00.000Z");
+  assert.equal(blueArchive[0].endAtUtc, "2026-07-28T01:59:00.000Z");
+  assert.equal(blueArchive[0].imageUrl, "https://forum.nexon.com/images/pickup-0714.png");
+});
+
+test("replay fails loudly for requests without a fixture", async () => {
+  await assert.rejects(
+    withHttpFetch(replay, () => getPickupAdapter("fgo")!.collect()),
+    /No HTTP fixture for GET https:\/\//
+  );
+});
+
+test("recorded responses replay byte for byte, including non UTF-8 bodies", async () => {
+  // "공지" in EUC-KR, which is not valid UTF-8 and must survive as base64.
+  const eucKr = Buffer.from([0xb0, 0xf8, 0xc1, 0xf6]);
+  const server = http.createServer((_req, res) => {
+    res.writeHead(200, { "content-type": "text/html; charset=euc-kr", "set-cookie": "session=secret" });
+    res.end(eucKr);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}/notice`;
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "http-fixtures-"));
+
+  try {
+    const recorded = await createRecordingFetch(dir)(url);
+    assert.deepEqual(Buffer.from(await recorded.arrayBuffer()), eucKr);
+
+    const fixture = JSON.parse(fs.readFileSync(path.join(dir, fixtureFileName("GET", url)), "utf8"));
+    assert.equal(fixture.bodyEncoding, "base64");
+    assert.equal(fixture.headers["set-cookie"], undefined);
+
+    const replayed = await createReplayFetch(dir)(url);
+    assert.equal(replayed.headers.get("content-type"), "text/html; charset=euc-kr");
+    assert.deepEqual(Buffer.from(await replayed.arrayBuffer()), eucKr);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("list pages are requested conditionally and a 304 yields no candidates", async () => {
+  const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+  const state = createFetchState({ validators: new Map([["https://notice.example.com/news/rss.xml", { etag: '"v7"', lastModified: null }]]) });
+
+  const candidates = await withHttpFetch(
+    async (url, init) => {
+      if (url.endsWith("/robots.txt")) return replay(url, init);
+      requests.push({ url, headers: init?.headers as Record<string, string> });
+      return new Response(null, { status: 304 });
+    },
+    () => fetchSourceCandidates({ ...region, type: "RSS", baseUrl: "https://notice.example.com/news/rss.xml", configJson: {} }, state)
+  );
+
+  assert.deepEqual(candidates, []);
+  assert.equal(requests[0].headers["If-None-Match"], '"v7"');
+  assert.equal(state.notModifiedPages, 1);
+  assert.equal(state.nextValidators.size, 0);
+});
+
+test("HTML detail pages are skipped when the stored list entry is unchanged", async () => {
+  const state = createFetchState({
+    knownEntries: new Map([
+      [
+        "https://board.example.com/notices/101",
+        {
+          title: "[업데이트] 3.2 버전 업데이트 안내",
+          listDateText: "2026.07.02",
+          contentText: "stored detail text",
+          imageUrl: "https://board.example.com/images/stored.png"
+        }
+      ]
+    ])
+  });
+  const requested: string[] = [];
+
+  const candidates = await withHttpFetch(
+    (url, init) => {
+      requested.push(url);
+      return replay(url, init);
+    },
+    () =>
+      fetchSourceCandidates(
+        {
+          ...region,
+          type: "HTML_LIST",
+          baseUrl: "https://board.example.com",
+          listUrl: "https://board.example.com/notices",
+          configJson: { itemSelector: "li.notice", titleSelector: "a.title", linkSelector: "a.title", dateSelector: "span.date", detailSelector: ".article-body" }
+        },
+        state
+      )
+  );
+
+  assert.deepEqual(
+    requested.filter((url) => !url.endsWith("/robots.txt")),
+    ["https://board.example.com/notices", "https://board.example.com/notices/102"]
+  );
+  assert.equal(candidates[0].contentText, "stored detail text");
+  assert.equal(candidates[0].rawPayload.imageUrl, "https://board.example.com/images/stored.png");
+  assert.equal(candidates[0].rawPayload.detailFetched, true);
+  assert.equal(state.skippedDetails, 1);
+});
+
+test("sources send their configured crawler identity and stop at robots.txt", async () => {
+  const sent: Array<Record<string, string>> = [];
+  await withHttpFetch(
+    (url, init) => {
+      if (!url.endsWith("/robots.txt")) sent.push(init?.headers as Record<string, string>);
+      return replay(url, init);
+    },
+    () =>
+      fetchSourceCandidates({
+        ...region,
+        type: "RSS",
+        baseUrl: "https://notice.example.com/news/rss.xml",
+        configJson: { userAgent: "SampleGameReader/2.0", headers: { "Accept-Language": "ko-KR" } }
+      })
+  );
+  assert.equal(sent[0]["User-Agent"], "SampleGameReader/2.0");
+  assert.equal(sent[0]["Accept-Language"], "ko-KR");
+
+  await assert.rejects(
+    replaySource({ type: "HTML_LIST", baseUrl: "https://board.example.com", listUrl: "https://board.example.com/notices/private", configJson: {} }),
+    /Blocked by robots\.txt: https:\/\/board\.example\.com\/notices\/private is disallowed for subculturehubbot/
+  );
+});
+
+test("adapter sources check robots.txt and send the source's crawler identity", async () => {
+  clearRobotsCache();
+  const requested: string[] = [];
+  const sent: Array<Record<string, string>> = [];
+  const candidates = await withHttpFetch(
+    (url, init) => {
+      requested.push(url);
+      if (!url.endsWith("/robots.txt")) sent.push(init?.headers as Record<string, string>);
+      return replay(url, init);
+    },
+    () =>
+      fetchSourceCandidates({
+        ...region,
+        type: "ADAPTER",
+        baseUrl: "https://genshin.hoyoverse.com",
+        configJson: { adapter: "genshin", userAgent: "SampleGameReader/2.0", headers: { "Accept-Language": "en-US" } }
+      })
+  );
+  assert.equal(candidates.length, 1);
+  assert.equal(requested[0], "https://sg-public-api-static.hoyoverse.com/robots.txt");
+  assert.ok(sent.length > 0);
+  for (const headers of sent) {
+    assert.equal(headers["User-Agent"], "SampleGameReader/2.0");
+    assert.equal(headers["Accept-Language"], "en-US");
+  }
+});
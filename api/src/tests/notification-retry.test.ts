@@ -0,0 +1,58 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { computeRetryDelaySeconds, resolveFailure } from "../services/notification-retry.js";
+import { replanScheduleState, requeueScheduleState } from "../services/scheduling.js";
+
+const policy = { maxAttempts: 4, baseDelaySeconds: 60, maxDelaySeconds: 300 };
+
+test("computeRetryDelaySeconds doubles from the base delay up to the cap", () => {
+  assert.deepEqual(
+    [1, 2, 3, 4, 5].map((attempt) => computeRetryDelaySeconds(attempt, policy)),
+    [60, 120, 240, 300, 300]
+  );
+});
+
+test("resolveFailure schedules a retry until the attempt budget is spent", () => {
+  assert.deepEqual(resolveFailure(1, true, policy), { status: "FAILED", retryInSeconds: 60 });
+  assert.deepEqual(resolveFailure(3, true, policy), { status: "FAILED", retryInSeconds: 240 });
+  assert.deepEqual(resolveFailure(4, true, policy), { status: "DEAD", retryInSeconds: null });
+});
+
+test("resolveFailure dead-letters non-retryable failures immediately", () => {
+  assert.deepEqual(resolveFailure(1, false, policy), { status: "DEAD", retryInSeconds: null });
+});
+
+test("replanning keeps a FAILED schedule's attempt count and backoff", () => {
+  const failed = { status: "FAILED" as const, attemptCount: 3, nextAttemptAt: new Date("2026-07-01T00:10:00.000Z") };
+  assert.deepEqual(replanScheduleState(failed), failed);
+  assert.deepEqual(replanScheduleState({ status: "DEAD", attemptCount: 5, nextAttemptAt: null }), {
+    status: "DEAD",
+    attemptCount: 5,
+    nextAttemptAt: null
+  });
+});
+
+test("replanning keeps the attempt count of a schedule the reaper requeued", () => {
+  assert.deepEqual(replanScheduleState({ status: "PENDING", attemptCount: 2, nextAttemptAt: null }), {
+    status: "PENDING",
+    attemptCount: 2,
+    nextAttemptAt: null
+  });
+});
+
+test("replanning leaves a schedule that is being sent alone and requeues canceled ones", () => {
+  assert.equal(replanScheduleState({ status: "PROCESSING", attemptCount: 1, nextAttemptAt: null }), null);
+  assert.deepEqual(replanScheduleState({ status: "CANCELED", attemptCount: 0, nextAttemptAt: null }), {
+    status: "PENDING",
+    attemptCount: 0,
+    nextAttemptAt: null
+  });
+});
+
+test("an admin-requeued schedule is due right away and survives replanning with a fresh attempt budget", () => {
+  const now = new Date("2026-07-01T00:00:00.000Z");
+  const requeued = requeueScheduleState(now);
+
+  assert.deepEqual(requeued, { status: "FAILED", attemptCount: 0, nextAttemptAt: now });
+  assert.deepEqual(replanScheduleState(requeued), requeued);
+});
@@ -0,0 +1,88 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { describeTrigger, renderDigestEmail, renderNotificationEmail } from "../services/notification-templates.js";
+
+test("renderNotificationEmail formats times in the user's timezone", () => {
+  const email = renderNotificationEmail({
+    eventId: 42,
+    timezone: "Asia/Seoul",
+    payload: {
+      eventTitle: "Summer Banner",
+      eventType: "PICKUP",
+      trigger: "BEFORE_END",
+      offsetMinutes: 1440,
+      startAtUtc: "2026-07-01T02:00:00.000Z",
+      endAtUtc: "2026-07-21T14:59:00.000Z"
+    }
+  });
+
+  assert.equal(email.subject, "[PICKUP] Summer Banner - Ends in 24h");
+  assert.match(email.text, /Start: 2026-07-01 11:00 \(Asia\/Seoul\)/);
+  assert.match(email.text, /End: 2026-07-21 23:59 \(Asia\/Seoul\)/);
+  assert.match(email.text, /\/events\/42$/);
+  assert.match(email.html, /href="[^"]+\/events\/42"/);
+});
+
+test("renderNotificationEmail escapes HTML and falls back for missing dates", () => {
+  const email = renderNotificationEmail({
+    eventId: 7,
+    timezone: "Not/AZone",
+    payload: {
+      eventTitle: "<script>alert(1)</script> & more",
+      eventType: "EVENT",
+      trigger: "ON_PUBLISH",
+      startAtUtc: "2026-01-01T00:00:00.000Z",
+      endAtUtc: null
+    }
+  });
+
+  assert.ok(!email.html.includes("<script>"));
+  assert.match(email.html, /&lt;script&gt;alert\(1\)&lt;\/script&gt; &amp; more/);
+  assert.match(email.text, /Start: 2026-01-01 00:00 \(UTC\)/);
+  assert.match(email.text, /End: TBD/);
+});
+
+test("renderDigestEmail lists every item in one message", () => {
+  const email = renderDigestEmail({
+    timezone: "UTC",
+    items: [
+      { eventId: 1, payload: { eventTitle: "Banner A", eventType: "PICKUP", trigger: "ON_START" } },
+      { eventId: 2, payload: { eventTitle: "Patch 2.0", eventType: "UPDATE", trigger: "ON_PUBLISH" } }
+    ]
+  });
+
+  assert.equal(email.subject, "Subculture Hub digest: 2 notifications");
+  assert.match(email.text, /\[PICKUP\] Banner A - Starts now/);
+  assert.match(email.text, /\[UPDATE\] Patch 2.0 - Newly announced/);
+  assert.match(email.html, /\/events\/1"/);
+  assert.match(email.html, /\/events\/2"/);
+});
+
+test("describeTrigger formats offsets", () => {
+  assert.equal(describeTrigger("BEFORE_START", 30), "Starts in 30m");
+  assert.equal(describeTrigger("BEFORE_START", 120), "Starts in 2h");
+  assert.equal(describeTrigger("ON_START", 0), "Starts now");
+});
+
+test("renderNotificationEmail shows the previous period for change alerts", () => {
+  const email = renderNotificationEmail({
+    eventId: 9,
+    timezone: "UTC",
+    payload: {
+      eventTitle: "Server Maintenance",
+      eventType: "MAINTENANCE",
+      trigger: "ON_CHANGE",
+      changeSummary: "Maintenance extended",
+      startAtUtc: "2026-03-05T02:00:00.000Z",
+      endAtUtc: "2026-03-05T08:00:00.000Z",
+      previousStartAtUtc: "2026-03-05T02:00:00.000Z",
+      previousEndAtUtc: "2026-03-05T06:00:00.000Z"
+    }
+  });
+
+  assert.equal(email.subject, "[MAINTENANCE] Server Maintenance - Maintenance extended");
+  assert.match(email.text, /End: 2026-03-05 08:00 \(UTC\)/);
+  assert.match(email.text, /Previously: 2026-03-05 02:00 \(UTC\) ~ 2026-03-05 06:00 \(UTC\)/);
+  assert.match(email.html, /Previously:/);
+  assert.equal(describeTrigger("ON_CHANGE", 0), "Schedule changed");
+});
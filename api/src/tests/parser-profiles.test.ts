@@ -0,0 +1,56 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { parseRawNoticeToEventDraft } from "../services/ingest.js";
+import { buildParserProfile, detectEventType, stripTitlePrefixes } from "../services/parser-profiles.js";
+
+const nikke = buildParserProfile({
+  id: "7",
+  name: "NIKKE",
+  version: 3,
+  rules: {
+    keywords: { PICKUP: ["recruit"] },
+    negativeKeywords: { CAMPAIGN: ["bonus recruit"] },
+    weights: { PICKUP: 0.28 },
+    titlePrefixes: ["[Notice]", "[KR]"]
+  }
+});
+
+test("buildParserProfile layers stored rules over the defaults", () => {
+  assert.equal(nikke.parserVersion, "profile-7-v3");
+  assert.ok(nikke.keywords.PICKUP.includes("recruit"));
+  assert.ok(nikke.keywords.PICKUP.includes("pickup"));
+  assert.equal(nikke.weights.PICKUP, 0.28);
+  assert.equal(nikke.weights.UPDATE, 0.22);
+});
+
+test("detectEventType uses profile keywords and weights", () => {
+  assert.deepEqual(detectEventType("Special Recruit: Snow White", "", nikke), { type: "PICKUP", score: 0.28 });
+  assert.deepEqual(detectEventType("Special Recruit: Snow White", ""), { type: "EVENT", score: 0.1 });
+});
+
+test("detectEventType prefers title keywords over body mentions", () => {
+  const result = detectEventType(
+    "[KR] Scheduled Maintenance Notice",
+    "The 2.1 update and the new pickup banner go live after maintenance."
+  );
+  assert.equal(result.type, "MAINTENANCE");
+});
+
+test("detectEventType skips types ruled out by negative keywords", () => {
+  const result = detectEventType("Bonus Recruit Campaign", "Campaign rewards for recruit tickets", nikke);
+  assert.equal(result.type, "PICKUP");
+});
+
+test("stripTitlePrefixes removes configured prefixes repeatedly", () => {
+  assert.equal(stripTitlePrefixes("[Notice] [KR] Special Recruit", nikke), "Special Recruit");
+  assert.equal(stripTitlePrefixes("[Notice]", nikke), "[Notice]");
+
+  const draft = parseRawNoticeToEventDraft({
+    title: "[Notice] Special Recruit: Snow White",
+    contentText: "Recruit period 2026/03/01 10:00 ~ 2026/03/08 04:59",
+    timezone: "Asia/Seoul",
+    profile: nikke
+  });
+  assert.equal(draft.title, "Special Recruit: Snow White");
+  assert.equal(draft.type, "PICKUP");
+});
@@ -0,0 +1,45 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { dedupePickupItems, diffPickupItems } from "../services/pickup-snapshots.js";
+
+const banner = (game: string, sourceUrl: string) => ({
+  game,
+  region: "Global",
+  title: `${game} banner`,
+  startAtUtc: null,
+  endAtUtc: null,
+  sourceUrl
+});
+
+test("diffPickupItems reports appeared and disappeared banners", () => {
+  const before = [banner("Genshin Impact", "https://a/1"), banner("Blue Archive", "https://b/1")];
+  const after = [banner("Genshin Impact", "https://a/1"), banner("Genshin Impact", "https://a/2")];
+
+  const diff = diffPickupItems(before, after);
+
+  assert.deepEqual(
+    diff.appeared.map((item) => item.sourceUrl),
+    ["https://a/2"]
+  );
+  assert.deepEqual(
+    diff.disappeared.map((item) => item.sourceUrl),
+    ["https://b/1"]
+  );
+  assert.equal(diff.unchangedCount, 1);
+});
+
+test("dedupePickupItems keeps the first item per game and source URL", () => {
+  const items = [
+    { ...banner("Genshin Impact", "https://a/1"), title: "first" },
+    banner("Blue Archive", "https://a/1"),
+    { ...banner("Genshin Impact", "https://a/1"), title: "repeat" }
+  ];
+
+  assert.deepEqual(
+    dedupePickupItems(items).map((item) => [item.game, item.title]),
+    [
+      ["Genshin Impact", "first"],
+      ["Blue Archive", "Blue Archive banner"]
+    ]
+  );
+});
@@ -0,0 +1,38 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { diffEventSnapshots, type EventSnapshot } from "../services/reparse-jobs.js";
+
+const pickup: EventSnapshot = {
+  id: 1,
+  type: "PICKUP",
+  title: "Rate Up - Mika",
+  startAtUtc: "2026-03-01T01:00:00.000Z",
+  endAtUtc: "2026-03-08T02:30:00.000Z",
+  visibility: "PUBLIC"
+};
+
+test("diffEventSnapshots reports type, date and visibility changes on the same event", () => {
+  const after = { ...pickup, type: "EVENT", endAtUtc: "2026-03-09T02:30:00.000Z", visibility: "NEED_REVIEW" };
+  const changes = diffEventSnapshots([pickup], [after], [1]);
+
+  assert.deepEqual(changes, [{ eventId: 1, changes: ["TYPE", "DATES", "VISIBILITY"], before: pickup, after }]);
+});
+
+test("diffEventSnapshots ignores events that did not change", () => {
+  assert.deepEqual(diffEventSnapshots([pickup], [pickup], [1]), []);
+});
+
+test("diffEventSnapshots marks new events as created and dropped ones as stale", () => {
+  const replacement = { ...pickup, id: 2, startAtUtc: "2026-03-02T01:00:00.000Z" };
+  const changes = diffEventSnapshots([pickup], [pickup, replacement], [2]);
+
+  assert.deepEqual(
+    changes.map((change) => [change.eventId, change.changes]),
+    [
+      [2, ["CREATED"]],
+      [1, ["STALE"]]
+    ]
+  );
+  assert.equal(changes[0].before, null);
+  assert.deepEqual(changes[1].after, pickup);
+});
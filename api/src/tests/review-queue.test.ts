@@ -0,0 +1,43 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { summarizeQueueAges } from "../services/review-queue.js";
+
+const now = Date.parse("2026-03-10T12:00:00.000Z");
+const minutesAgo = (minutes: number) => new Date(now - minutes * 60000);
+
+test("summarizeQueueAges reports an empty queue", () => {
+  assert.deepEqual(summarizeQueueAges([], 0, now), {
+    pending: 0,
+    unassigned: 0,
+    oldestMinutes: null,
+    medianMinutes: null,
+    buckets: { underHour: 0, underDay: 0, underWeek: 0, older: 0 }
+  });
+});
+
+test("summarizeQueueAges takes the middle wait, averaging the two middle ones for even counts", () => {
+  const odd = summarizeQueueAges([minutesAgo(90), minutesAgo(10), minutesAgo(30)], 1, now);
+  assert.equal(odd.medianMinutes, 30);
+  assert.equal(odd.oldestMinutes, 90);
+  assert.equal(odd.unassigned, 1);
+
+  const even = summarizeQueueAges([minutesAgo(10), minutesAgo(20), minutesAgo(45), minutesAgo(300)], 0, now);
+  assert.equal(even.medianMinutes, 33);
+  assert.equal(even.oldestMinutes, 300);
+});
+
+test("summarizeQueueAges buckets waits by hour, day and week", () => {
+  const metrics = summarizeQueueAges(
+    [minutesAgo(59), minutesAgo(60), minutesAgo(23 * 60), minutesAgo(24 * 60), minutesAgo(8 * 24 * 60)],
+    5,
+    now
+  );
+  assert.equal(metrics.pending, 5);
+  assert.deepEqual(metrics.buckets, { underHour: 1, underDay: 2, underWeek: 1, older: 1 });
+});
+
+test("summarizeQueueAges treats request times in the future as just requested", () => {
+  const metrics = summarizeQueueAges([new Date(now + 5 * 60000)], 1, now);
+  assert.equal(metrics.oldestMinutes, 0);
+  assert.equal(metrics.buckets.underHour, 1);
+});
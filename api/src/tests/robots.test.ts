@@ -0,0 +1,90 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { withHttpFetch } from "../services/http.js";
+import { assertAllowedByRobots, clearRobotsCache, isAllowedByRobots, parseRobotsTxt } from "../services/robots.js";
+
+const robots = parseRobotsTxt(`
+# Notice board
+User-agent: *
+Disallow: /board/private
+Allow: /board/private/notices
+Disallow: /*.pdf$
+
+User-agent: SubcultureHubBot
+User-agent: OtherBot
+Disallow: /search
+Crawl-delay: 5
+`);
+
+test("parseRobotsTxt groups consecutive user agents", () => {
+  assert.equal(robots.groups.length, 2);
+  assert.deepEqual(robots.groups[1].agents, ["subculturehubbot", "otherbot"]);
+});
+
+test("isAllowedByRobots applies the longest matching rule of the matching group", () => {
+  const generic = "GenericReader/1.0";
+  assert.equal(isAllowedByRobots(robots, generic, "/board/public"), true);
+  assert.equal(isAllowedByRobots(robots, generic, "/board/private/1"), false);
+  assert.equal(isAllowedByRobots(robots, generic, "/board/private/notices/1"), true);
+  assert.equal(isAllowedByRobots(robots, generic, "/files/patch.pdf"), false);
+  assert.equal(isAllowedByRobots(robots, generic, "/files/patch.pdf?v=2"), true);
+
+  // A named group replaces the * group entirely.
+  const bot = "SubcultureHubBot/0.1 (+https://example.local)";
+  assert.equal(isAllowedByRobots(robots, bot, "/board/private/1"), true);
+  assert.equal(isAllowedByRobots(robots, bot, "/search?q=pickup"), false);
+});
+
+test("isAllowedByRobots matches the product token exactly", () => {
+  const policy = parseRobotsTxt(`
+User-agent: bot
+Disallow: /
+
+User-agent: *
+Allow: /
+`);
+  assert.equal(isAllowedByRobots(policy, "SubcultureHubBot/1.0", "/news"), true);
+  assert.equal(isAllowedByRobots(policy, "bot/2.0", "/news"), false);
+});
+
+test("parseRobotsTxt ignores an empty User-agent value", () => {
+  const policy = parseRobotsTxt(`
+User-agent:
+Disallow: /
+
+User-agent: *
+Allow: /
+`);
+  assert.deepEqual(policy.groups[0].agents, []);
+  assert.equal(isAllowedByRobots(policy, "SubcultureHubBot/1.0", "/news"), true);
+});
+
+test("assertAllowedByRobots caches per host and treats missing and failing robots.txt differently", async () => {
+  clearRobotsCache();
+  const requested: string[] = [];
+  const respond = (url: string) => {
+    requested.push(url);
+    if (url.startsWith("https://missing.example.com")) return new Response("", { status: 404 });
+    if (url.startsWith("https://down.example.com")) return new Response("", { status: 503 });
+    return new Response("User-agent: *\nDisallow: /admin\n", { status: 200 });
+  };
+
+  await withHttpFetch(async (url) => respond(url), async () => {
+    await assertAllowedByRobots("https://ok.example.com/news", "SubcultureHubBot/0.1");
+    await assertAllowedByRobots("https://ok.example.com/news/2", "SubcultureHubBot/0.1");
+    await assert.rejects(assertAllowedByRobots("https://ok.example.com/admin", "SubcultureHubBot/0.1"), /is disallowed for subculturehubbot/);
+    await assertAllowedByRobots("https://missing.example.com/anything", "SubcultureHubBot/0.1");
+    await assert.rejects(
+      assertAllowedByRobots("https://down.example.com/news", "SubcultureHubBot/0.1"),
+      /robots\.txt could not be read \(status 503\)/
+    );
+  });
+
+  assert.equal(requested.filter((url) => url === "https://ok.example.com/robots.txt").length, 1);
+
+  // A failing robots.txt is cached for a short while instead of being fetched before every request.
+  await withHttpFetch(async (url) => respond(url), async () => {
+    await assert.rejects(assertAllowedByRobots("https://down.example.com/news/2", "SubcultureHubBot/0.1"), /status 503/);
+  });
+  assert.equal(requested.filter((url) => url === "https://down.example.com/robots.txt").length, 1);
+});
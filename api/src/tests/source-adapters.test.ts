@@ -0,0 +1,92 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { createSourceSchema } from "../routes/admin.js";
+import { fetchSourceCandidates } from "../services/ingest.js";
+import { getPickupAdapter, listPickupAdapters, registerPickupAdapter, type PickupAdapter } from "../services/pickup-adapters.js";
+
+const region = { timezone: "Asia/Tokyo", regionCode: "JP", gameSlug: "sample-game" };
+
+const stubAdapter: PickupAdapter = {
+  name: "stub",
+  label: "Stub Game",
+  collect: async () => [
+    {
+      game: "Stub Game",
+      region: "JP",
+      title: "Stub Pickup",
+      startAtUtc: "2026-07-01T03:00:00.000Z",
+      endAtUtc: "2026-07-15T02:59:00.000Z",
+      sourceUrl: "https://stub.example.com/news/1",
+      imageUrl: "https://stub.example.com/banner.png",
+      contentText: "",
+      publishedAt: "2026-06-30T03:00:00.000Z"
+    }
+  ]
+};
+
+test("registerPickupAdapter adds or replaces adapters and restores the registry", () => {
+  const names = listPickupAdapters().map((adapter) => adapter.name);
+
+  const unregister = registerPickupAdapter(stubAdapter);
+  assert.equal(getPickupAdapter("stub"), stubAdapter);
+  unregister();
+  assert.equal(getPickupAdapter("stub"), null);
+
+  const genshin = getPickupAdapter("genshin");
+  const restore = registerPickupAdapter({ ...stubAdapter, name: "genshin" });
+  assert.equal(getPickupAdapter("genshin")?.label, "Stub Game");
+  restore();
+  assert.equal(getPickupAdapter("genshin"), genshin);
+  assert.deepEqual(
+    listPickupAdapters().map((adapter) => adapter.name),
+    names
+  );
+});
+
+test("ADAPTER sources turn collected notices into pickup candidates", async () => {
+  const unregister = registerPickupAdapter(stubAdapter);
+  try {
+    const candidates = await fetchSourceCandidates({
+      ...region,
+      type: "ADAPTER",
+      baseUrl: "https://stub.example.com",
+      configJson: { adapter: "stub" }
+    });
+
+    assert.equal(candidates.length, 1);
+    assert.equal(candidates[0].url, "https://stub.example.com/news/1");
+    // Notices without body text fall back to their title.
+    assert.equal(candidates[0].contentText, "Stub Pickup");
+    assert.deepEqual(candidates[0].rawPayload, {
+      sourceType: "ADAPTER",
+      adapter: "stub",
+      eventType: "PICKUP",
+      startAtUtc: "2026-07-01T03:00:00.000Z",
+      endAtUtc: "2026-07-15T02:59:00.000Z",
+      imageUrl: "https://stub.example.com/banner.png",
+      note: null
+    });
+  } finally {
+    unregister();
+  }
+
+  await assert.rejects(
+    fetchSourceCandidates({ ...region, type: "ADAPTER", baseUrl: "https://stub.example.com", configJson: { adapter: "stub" } }),
+    /Unknown source adapter "stub"/
+  );
+});
+
+test("createSourceSchema rejects ADAPTER sources that name no registered adapter", () => {
+  const source = { regionId: 1, type: "ADAPTER", baseUrl: "https://stub.example.com" };
+
+  assert.equal(createSourceSchema.safeParse({ ...source, configJson: { adapter: "genshin" } }).success, true);
+
+  for (const configJson of [{ adapter: "missing" }, {}]) {
+    const parsed = createSourceSchema.safeParse({ ...source, configJson });
+    assert.equal(parsed.success, false);
+    assert.deepEqual(parsed.error?.issues.map((issue) => issue.path.join(".")), ["configJson.adapter"]);
+  }
+
+  // Other source types do not need an adapter.
+  assert.equal(createSourceSchema.safeParse({ ...source, type: "RSS", configJson: {} }).success, true);
+});
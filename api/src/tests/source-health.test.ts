@@ -0,0 +1,32 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { backoffMinutes, computeHealthScore, type HealthRun } from "../services/source-health.js";
+
+const run = (status: HealthRun["status"], fetchedCount = 5): HealthRun => ({ status, fetchedCount });
+
+test("computeHealthScore is null without runs and 100 for a clean history", () => {
+  assert.equal(computeHealthScore([]), null);
+  assert.equal(computeHealthScore([run("SUCCESS"), run("SUCCESS")]), 100);
+  assert.equal(computeHealthScore([run("FAILED")]), 0);
+});
+
+test("computeHealthScore weighs recent runs more than old ones", () => {
+  const recovering = computeHealthScore([run("SUCCESS"), run("SUCCESS"), run("FAILED"), run("FAILED")]);
+  const degrading = computeHealthScore([run("FAILED"), run("FAILED"), run("SUCCESS"), run("SUCCESS")]);
+  assert.ok(recovering !== null && degrading !== null);
+  assert.ok(recovering > 50);
+  assert.ok(degrading < 50);
+  assert.equal(computeHealthScore([run("PARTIAL")]), 50);
+});
+
+test("computeHealthScore only looks at the last 20 runs", () => {
+  const runs = [...Array.from({ length: 20 }, () => run("SUCCESS")), ...Array.from({ length: 30 }, () => run("FAILED"))];
+  assert.equal(computeHealthScore(runs), 100);
+});
+
+test("backoffMinutes doubles from the fetch interval up to the cap", () => {
+  assert.equal(backoffMinutes(30, 1, 1440), 30);
+  assert.equal(backoffMinutes(30, 2, 1440), 60);
+  assert.equal(backoffMinutes(30, 4, 1440), 240);
+  assert.equal(backoffMinutes(30, 10, 1440), 1440);
+});
@@ -0,0 +1,35 @@
+﻿import assert from "node:assert/strict";
+import test from "node:test";
+import { canonicalTimezone, formatInTimezone, isValidTimezone, zonedTimeToUtc } from "../timezone.js";
+
+test("isValidTimezone accepts IANA names and rejects unknown zones", () => {
+  assert.equal(isValidTimezone("America/Los_Angeles"), true);
+  assert.equal(isValidTimezone("Asia/Shanghai"), true);
+  assert.equal(isValidTimezone("UTC"), true);
+  assert.equal(isValidTimezone("Mars/Olympus_Mons"), false);
+  assert.equal(isValidTimezone(""), false);
+  assert.equal(canonicalTimezone("asia/seoul"), "Asia/Seoul");
+});
+
+test("zonedTimeToUtc picks the first occurrence of an ambiguous fall-back time", () => {
+  // 01:30 happens twice in Los Angeles on 2026-11-01; the PDT reading comes first.
+  const value = zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, "America/Los_Angeles");
+  assert.equal(value.toISOString(), "2026-11-01T08:30:00.000Z");
+});
+
+test("zonedTimeToUtc handles southern-hemisphere DST", () => {
+  // Australia/Sydney is on AEDT (+11:00) in January and AEST (+10:00) in July.
+  assert.equal(
+    zonedTimeToUtc({ year: 2026, month: 1, day: 15, hour: 12, minute: 0 }, "Australia/Sydney").toISOString(),
+    "2026-01-15T01:00:00.000Z"
+  );
+  assert.equal(
+    zonedTimeToUtc({ year: 2026, month: 7, day: 15, hour: 12, minute: 0 }, "Australia/Sydney").toISOString(),
+    "2026-07-15T02:00:00.000Z"
+  );
+});
+
+test("formatInTimezone renders wall-clock time in the zone", () => {
+  assert.equal(formatInTimezone("2026-03-08T10:30:00.000Z", "America/Los_Angeles"), "2026-03-08 03:30 (America/Los_Angeles)");
+  assert.equal(formatInTimezone(null, "UTC"), "TBD");
+});
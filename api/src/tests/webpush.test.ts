@@ -0,0 +1,67 @@
+﻿import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import webpush from "web-push";
+import { sendWebPush } from "../services/webpush.js";
+
+function createSubscriptionKeys() {
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString("base64url"),
+    auth: crypto.randomBytes(16).toString("base64url")
+  };
+}
+
+async function withPushEndpoint(
+  statusCode: number,
+  run: (endpoint: string, received: Array<{ headers: http.IncomingHttpHeaders; body: Buffer }>) => Promise<void>
+) {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: Buffer }> = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks) });
+      res.writeHead(statusCode).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}/push/abc`, received);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+const vapidKeys = webpush.generateVAPIDKeys();
+const vapid = { subject: "mailto:test@subculture.local", ...vapidKeys };
+const message = { title: "[PICKUP] Test banner", body: "Ends in 24h", url: "/events/1", tag: "event-1" };
+
+test("sendWebPush posts an encrypted payload with VAPID authorization", async () => {
+  await withPushEndpoint(201, async (endpoint, received) => {
+    const result = await sendWebPush({ endpoint, ...createSubscriptionKeys() }, message, vapid);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.gone, false);
+    assert.equal(received.length, 1);
+    assert.equal(received[0].headers["content-encoding"], "aes128gcm");
+    assert.match(String(received[0].headers.authorization), /^vapid t=.+, k=/);
+    assert.ok(!received[0].body.toString("utf8").includes("Test banner"));
+  });
+});
+
+test("sendWebPush flags expired subscriptions as gone", async () => {
+  await withPushEndpoint(410, async (endpoint) => {
+    const result = await sendWebPush({ endpoint, ...createSubscriptionKeys() }, message, vapid);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.statusCode, 410);
+    assert.equal(result.gone, true);
+  });
+});
@@ -0,0 +1,94 @@
+﻿const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string) {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23"
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string) {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function canonicalTimezone(timezone: string) {
+  return getFormatter(timezone).resolvedOptions().timeZone;
+}
+
+export function getZonedParts(date: Date, timezone: string) {
+  const parts = Object.fromEntries(
+    getFormatter(timezone)
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  ) as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+
+  return parts;
+}
+
+export function formatInTimezone(value: string | Date | null | undefined, timezone: string) {
+  if (!value) return "TBD";
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return "TBD";
+
+  const zone = isValidTimezone(timezone) ? timezone : "UTC";
+  const parts = getZonedParts(date, zone);
+  const pad = (input: number) => String(input).padStart(2, "0");
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)} (${zone})`;
+}
+
+export type LocalDateTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+export function getTimezoneOffsetMs(date: Date, timezone: string) {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+export function zonedTimeToUtc(local: LocalDateTime, timezone: string) {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const firstOffset = getTimezoneOffsetMs(new Date(guess), timezone);
+  const candidate = guess - firstOffset;
+  // Re-check at the candidate instant so wall times next to a DST switch resolve to the right side.
+  const secondOffset = getTimezoneOffsetMs(new Date(candidate), timezone);
+  if (secondOffset === firstOffset) return new Date(candidate);
+
+  const adjusted = guess - secondOffset;
+  if (getTimezoneOffsetMs(new Date(adjusted), timezone) === secondOffset) return new Date(adjusted);
+
+  // The wall time does not exist (spring-forward gap); move it forward by the gap length.
+  return new Date(Math.max(candidate, adjusted));
+}
+
+export function addLocalDays(local: LocalDateTime, days: number): LocalDateTime {
+  const shifted = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return {
+    ...local,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
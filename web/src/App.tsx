@@ -3,6 +3,9 @@ import { useAuth } from "./auth";
 import { AppHeader } from "./ui";
 import { LoginPage } from "./pages/LoginPage";
 import { SignupPage } from "./pages/SignupPage";
+import { ForgotPasswordPage } from "./pages/ForgotPasswordPage";
+import { ResetPasswordPage } from "./pages/ResetPasswordPage";
+import { VerifyEmailPage } from "./pages/VerifyEmailPage";
 import { FeedPage } from "./pages/FeedPage";
 import { EventDetailPage } from "./pages/EventDetailPage";
 import { SettingsPage } from "./pages/SettingsPage";
@@ -44,6 +47,9 @@ export default function App() {
 
           <Route path="/login" element={user ? <Navigate to="/my-feed" replace /> : <LoginPage />} />
           <Route path="/signup" element={user ? <Navigate to="/my-feed" replace /> : <SignupPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
 
           <Route
             path="/my-feed"
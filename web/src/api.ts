@@ -5,6 +5,11 @@ export type User = {
   email: string;
   role: UserRole;
   timezone: string;
+  emailVerified?: boolean;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  digestEnabled?: boolean;
+  digestWindowMinutes?: number;
 };
 
 export type Region = {
@@ -36,12 +41,19 @@ export type EventItem = {
   region: { id: number; code: string; timezone?: string };
 };
 
+export type EventRevision = {
+  id: number;
+  source: "INGEST" | "REPARSE" | "ADMIN";
+  changes: Array<{ field: "type" | "title" | "summary" | "startAtUtc" | "endAtUtc"; before: string | null; after: string | null }>;
+  createdAt: string;
+};
+
 export type NotificationRule = {
   id: number;
   scope: "GLOBAL" | "REGION";
   regionId: number | null;
   eventType: EventItem["type"];
-  trigger: "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH";
+  trigger: "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH" | "ON_CHANGE";
   offsetMinutes: number | null;
   channel: "WEBPUSH" | "EMAIL" | "DISCORD";
   enabled: boolean;
@@ -62,22 +74,46 @@ export type NotificationSchedule = {
   id: number;
   eventId: number;
   channel: "WEBPUSH" | "EMAIL" | "DISCORD";
-  triggerType: "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH";
+  triggerType: "ON_START" | "ON_END" | "BEFORE_END" | "BEFORE_START" | "ON_PUBLISH" | "ON_CHANGE";
   triggerOffsetMinutes: number;
   scheduledAtUtc: string;
-  status: "PENDING" | "PROCESSING" | "SENT" | "FAILED" | "CANCELED";
+  status: "PENDING" | "PROCESSING" | "SENT" | "FAILED" | "DEAD" | "CANCELED";
   eventTitle: string;
   eventType: EventItem["type"];
   regionCode: string;
   gameName: string;
 };
 
+export type DiscordWebhook = {
+  id: number;
+  label: string | null;
+  url: string;
+  enabled: boolean;
+  lastUsedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+};
+
+export type DeadLetterSchedule = {
+  id: number;
+  userId: number;
+  userEmail: string | null;
+  eventId: number;
+  eventTitle: string;
+  channel: NotificationSchedule["channel"];
+  triggerType: NotificationSchedule["triggerType"];
+  scheduledAtUtc: string;
+  attemptCount: number;
+  lastError: string | null;
+  deadAt: string;
+};
+
 export type SourceItem = {
   id: number;
   regionId: number;
   regionCode: string;
   gameName: string;
-  type: "RSS" | "HTML_LIST" | "HTML_DETAIL" | "API";
+  type: "RSS" | "HTML_LIST" | "HTML_DETAIL" | "API" | "ADAPTER";
   baseUrl: string;
   listUrl: string | null;
   enabled: boolean;
@@ -85,9 +121,181 @@ export type SourceItem = {
   lastSuccessAt: string | null;
   lastErrorAt: string | null;
   lastErrorMessage: string | null;
+  consecutiveFailures: number;
+  nextFetchAt: string | null;
+  disabledReason: string | null;
+  // 0-100 from recent ingest runs; null before the first run.
+  healthScore: number | null;
   configJson: Record<string, unknown>;
 };
 
+export type ParserProfileRules = {
+  keywords?: Partial<Record<"PICKUP" | "UPDATE" | "MAINTENANCE" | "CAMPAIGN", string[]>>;
+  negativeKeywords?: Partial<Record<"PICKUP" | "UPDATE" | "MAINTENANCE" | "CAMPAIGN", string[]>>;
+  weights?: Partial<Record<"PICKUP" | "UPDATE" | "MAINTENANCE" | "CAMPAIGN", number>>;
+  titlePrefixes?: string[];
+};
+
+export type ParserProfile = {
+  id: number;
+  gameId: number | null;
+  sourceId: number | null;
+  name: string;
+  version: number;
+  parserVersion: string;
+  rules: ParserProfileRules;
+  gameName: string | null;
+  regionCode: string | null;
+  updatedAt: string;
+};
+
+export type ReparseFilters = {
+  sourceId?: number;
+  gameId?: number;
+  status?: "NEW" | "PARSED" | "ERROR";
+  parserVersion?: string;
+  outdatedOnly?: boolean;
+  publishedFrom?: string;
+  publishedTo?: string;
+};
+
+export type ReparseJob = {
+  id: number;
+  status: "QUEUED" | "RUNNING" | "COMPLETED" | "CANCELLED";
+  filters: ReparseFilters;
+  totalCount: number;
+  processedCount: number;
+  changedCount: number;
+  errorCount: number;
+  lastError: string | null;
+  ingestRunId: number | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type ReparseEventSnapshot = {
+  id: number;
+  type: string;
+  title: string;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  visibility: string;
+};
+
+export type ReparseChange = {
+  id: number;
+  rawNoticeId: number;
+  rawNoticeTitle: string;
+  eventId: number | null;
+  changes: Array<"TYPE" | "DATES" | "VISIBILITY" | "CREATED" | "STALE">;
+  before: ReparseEventSnapshot | null;
+  after: ReparseEventSnapshot | null;
+};
+
+export type SourcePreviewDraft = {
+  type: EventItem["type"];
+  title: string;
+  summary: string;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  confidence: number;
+  visibility: "PUBLIC" | "NEED_REVIEW";
+  sectionKey: string | null;
+};
+
+export type SourcePreview = {
+  fetchedCount: number;
+  parserVersion: string;
+  items: Array<{
+    url: string;
+    title: string;
+    publishedAt: string | null;
+    contentText: string;
+    rawPayload: Record<string, unknown>;
+    drafts: SourcePreviewDraft[];
+  }>;
+};
+
+export type SourceAdapter = {
+  name: string;
+  label: string;
+};
+
+export type EventFieldConflict = {
+  id: number;
+  eventId: number;
+  rawNoticeId: number | null;
+  field: "type" | "title" | "summary" | "startAtUtc" | "endAtUtc" | "visibility";
+  lockedValue: string | null;
+  incomingValue: string | null;
+  createdAt: string;
+  updatedAt: string;
+  eventTitle: string;
+  gameName: string;
+  regionCode: string;
+};
+
+export type EventRawNotice = {
+  id: number;
+  sourceId: number;
+  url: string;
+  title: string;
+  publishedAt: string | null;
+  matchReason: string | null;
+  linkedAt: string;
+};
+
+export type ReviewQueueItem = {
+  id: number;
+  type: EventItem["type"];
+  title: string;
+  summary: string | null;
+  startAtUtc: string | null;
+  endAtUtc: string | null;
+  sourceUrl: string;
+  confidence: number;
+  lockedFields: string[];
+  reviewRequestedAt: string;
+  assignee: { id: number; email: string | null } | null;
+  gameName: string;
+  regionCode: string;
+  regionTimezone: string;
+  notices: Array<{
+    id: number;
+    url: string;
+    title: string;
+    publishedAt: string | null;
+    contentText: string | null;
+    parserVersion: string;
+  }>;
+};
+
+export type ReviewQueueMetrics = {
+  pending: number;
+  unassigned: number;
+  oldestMinutes: number | null;
+  medianMinutes: number | null;
+  buckets: { underHour: number; underDay: number; underWeek: number; older: number };
+};
+
+export type Reviewer = {
+  id: number;
+  email: string;
+};
+
+export type AdminAlert = {
+  id: number;
+  sourceId: number | null;
+  kind: "SOURCE_FAILING" | "SOURCE_EMPTY" | "SOURCE_DISABLED";
+  message: string;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  sourceType: string | null;
+  gameName: string | null;
+  regionCode: string | null;
+};
+
 export type IngestRun = {
   id: number;
   sourceId: number | null;
@@ -116,7 +324,7 @@ export type PickupSnapshotItem = {
 };
 
 export type PickupSnapshot = {
-  file: string;
+  snapshotDate: string;
   generatedAt: string;
   itemCount: number;
   failures: string[];
@@ -124,8 +332,28 @@ export type PickupSnapshot = {
   items: PickupSnapshotItem[];
 };
 
+export type PickupSnapshotSummary = {
+  snapshotDate: string;
+  generatedAt: string;
+  itemCount: number;
+  failureCount: number;
+};
+
+export type PickupSnapshotDiff = {
+  from: string;
+  to: string;
+  appeared: PickupSnapshotItem[];
+  disappeared: PickupSnapshotItem[];
+  unchangedCount: number;
+};
+
 const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4000";
 
+// Banners go through the API's image cache instead of being hotlinked from publisher CDNs.
+export function proxiedImageUrl(url: string, width = 640) {
+  return `${API_BASE}/api/images?${new URLSearchParams({ url, w: String(width) })}`;
+}
+
 class ApiError extends Error {
   status: number;
 
@@ -143,7 +371,50 @@ function buildQuery(params: Record<string, string | undefined>) {
   return query.toString();
 }
 
-async function fetchJson<T>(path: string, init?: RequestInit & { token?: string }): Promise<T> {
+export type SessionTokens = {
+  token: string;
+  refreshToken: string;
+};
+
+type SessionHooks = {
+  getRefreshToken: () => string | null;
+  onRefreshed: (tokens: SessionTokens) => void;
+  onExpired: () => void;
+};
+
+let sessionHooks: SessionHooks | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+
+export function registerSessionHooks(hooks: SessionHooks | null) {
+  sessionHooks = hooks;
+}
+
+async function refreshAccessToken() {
+  const refreshToken = sessionHooks?.getRefreshToken();
+  if (!sessionHooks || !refreshToken) return null;
+
+  // Concurrent 401s share one refresh so the rotated token is only spent once.
+  refreshInFlight ??= fetchJson<SessionTokens>(
+    "/api/auth/refresh",
+    { method: "POST", body: JSON.stringify({ refreshToken }) },
+    false
+  )
+    .then((tokens) => {
+      sessionHooks?.onRefreshed(tokens);
+      return tokens.token;
+    })
+    .catch(() => {
+      sessionHooks?.onExpired();
+      return null;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+
+  return refreshInFlight;
+}
+
+async function fetchJson<T>(path: string, init?: RequestInit & { token?: string }, retryOnUnauthorized = true): Promise<T> {
   const headers = new Headers(init?.headers ?? {});
   if (!headers.has("content-type") && init?.body) {
     headers.set("content-type", "application/json");
@@ -157,6 +428,13 @@ async function fetchJson<T>(path: string, init?: RequestInit & { token?: string
     headers
   });
 
+  if (res.status === 401 && init?.token && retryOnUnauthorized) {
+    const nextToken = await refreshAccessToken();
+    if (nextToken) {
+      return fetchJson<T>(path, { ...init, token: nextToken }, false);
+    }
+  }
+
   const text = await res.text();
   const body = text ? JSON.parse(text) : {};
 
@@ -172,19 +450,61 @@ export function isApiError(error: unknown): error is ApiError {
 }
 
 export async function signup(input: { email: string; password: string; timezone?: string }) {
-  return fetchJson<{ token: string; user: User }>("/api/auth/signup", {
+  return fetchJson<SessionTokens & { user: User }>("/api/auth/signup", {
     method: "POST",
     body: JSON.stringify(input)
   });
 }
 
 export async function login(input: { email: string; password: string }) {
-  return fetchJson<{ token: string; user: User }>("/api/auth/login", {
+  return fetchJson<SessionTokens & { user: User }>("/api/auth/login", {
     method: "POST",
     body: JSON.stringify(input)
   });
 }
 
+export async function verifyEmail(token: string) {
+  return fetchJson<{ ok: boolean }>("/api/auth/verify-email", {
+    method: "POST",
+    body: JSON.stringify({ token })
+  });
+}
+
+export async function resendVerificationEmail(token: string) {
+  return fetchJson<{ ok: boolean }>("/api/auth/resend-verification", {
+    method: "POST",
+    token
+  });
+}
+
+export async function requestPasswordReset(email: string) {
+  return fetchJson<{ ok: boolean }>("/api/auth/forgot-password", {
+    method: "POST",
+    body: JSON.stringify({ email })
+  });
+}
+
+export async function resetPassword(input: { token: string; password: string }) {
+  return fetchJson<{ ok: boolean }>("/api/auth/reset-password", {
+    method: "POST",
+    body: JSON.stringify(input)
+  });
+}
+
+export async function logoutSession(token: string) {
+  return fetchJson<{ ok: boolean }>("/api/auth/logout", {
+    method: "POST",
+    token
+  });
+}
+
+export async function logoutAllSessions(token: string) {
+  return fetchJson<{ ok: boolean; revoked: number }>("/api/auth/logout-all", {
+    method: "POST",
+    token
+  });
+}
+
 export async function getMe(token: string) {
   return fetchJson<User>("/api/me", { token });
 }
@@ -210,10 +530,46 @@ export async function getEventById(id: number, token?: string) {
   return fetchJson<EventItem>(`/api/events/${id}`, { token });
 }
 
+export async function getEventRevisions(id: number, token?: string) {
+  const data = await fetchJson<{ items: EventRevision[] }>(`/api/events/${id}/revisions`, { token });
+  return data.items;
+}
+
 export async function getPickupSnapshotLatest() {
   return fetchJson<PickupSnapshot>("/api/pickup-snapshot/latest");
 }
 
+export async function getPickupSnapshots() {
+  const data = await fetchJson<{ items: PickupSnapshotSummary[] }>("/api/pickup-snapshots");
+  return data.items;
+}
+
+export async function getPickupSnapshotByDate(snapshotDate: string) {
+  return fetchJson<PickupSnapshot>(`/api/pickup-snapshots/${snapshotDate}`);
+}
+
+export async function getPickupSnapshotDiff(params: { from?: string; to?: string }) {
+  const query = buildQuery(params);
+  return fetchJson<PickupSnapshotDiff>(`/api/pickup-snapshots/diff${query ? `?${query}` : ""}`);
+}
+
+export async function updatePreferences(
+  token: string,
+  payload: Partial<{
+    timezone: string;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    digestEnabled: boolean;
+    digestWindowMinutes: number;
+  }>
+) {
+  return fetchJson<{ ok: boolean }>("/api/me/preferences", {
+    method: "PATCH",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
 export async function getMyFeed(token: string) {
   const data = await fetchJson<{ items: EventItem[] }>("/api/me/feed", { token });
   return data.items;
@@ -290,6 +646,57 @@ export async function deleteNotificationRule(token: string, ruleId: number) {
   });
 }
 
+export async function getVapidPublicKey() {
+  const data = await fetchJson<{ publicKey: string }>("/api/push/vapid-public-key");
+  return data.publicKey;
+}
+
+export async function savePushSubscription(
+  token: string,
+  payload: { endpoint: string; p256dh: string; auth: string; userAgent?: string }
+) {
+  return fetchJson<{ id: number }>("/api/me/push-subscriptions", {
+    method: "POST",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function getDiscordWebhooks(token: string) {
+  const data = await fetchJson<{ items: DiscordWebhook[] }>("/api/me/discord-webhooks", { token });
+  return data.items;
+}
+
+export async function createDiscordWebhook(token: string, payload: { url: string; label?: string }) {
+  return fetchJson<{ id: number }>("/api/me/discord-webhooks", {
+    method: "POST",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function updateDiscordWebhook(token: string, webhookId: number, payload: { label?: string | null; enabled?: boolean }) {
+  return fetchJson<{ ok: boolean }>(`/api/me/discord-webhooks/${webhookId}`, {
+    method: "PATCH",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function deleteDiscordWebhook(token: string, webhookId: number) {
+  return fetchJson<{ ok: boolean }>(`/api/me/discord-webhooks/${webhookId}`, {
+    method: "DELETE",
+    token
+  });
+}
+
+export async function testDiscordWebhook(token: string, webhookId: number) {
+  return fetchJson<{ ok: boolean; statusCode: number }>(`/api/me/discord-webhooks/${webhookId}/test`, {
+    method: "POST",
+    token
+  });
+}
+
 export async function getMySchedules(token: string) {
   const data = await fetchJson<{ items: NotificationSchedule[] }>("/api/me/notification-schedules", { token });
   return data.items;
@@ -303,6 +710,13 @@ export async function getSources(token: string, dueOnly = false) {
   return data.items;
 }
 
+export async function getSourceAdapters(token: string) {
+  const data = await fetchJson<{ items: SourceAdapter[] }>("/api/admin/source-adapters", {
+    token
+  });
+  return data.items;
+}
+
 export async function createGame(token: string, payload: { slug: string; name: string; iconUrl?: string | null }) {
   return fetchJson<{ id: number }>("/api/admin/games", {
     method: "POST",
@@ -338,6 +752,89 @@ export async function createSource(
   });
 }
 
+export async function getParserProfiles(token: string) {
+  const data = await fetchJson<{ items: ParserProfile[] }>("/api/admin/parser-profiles", {
+    token
+  });
+  return data.items;
+}
+
+export async function createParserProfile(
+  token: string,
+  payload: { name: string; gameId?: number | null; sourceId?: number | null; rules: ParserProfileRules }
+) {
+  return fetchJson<{ id: number }>("/api/admin/parser-profiles", {
+    method: "POST",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function updateParserProfile(
+  token: string,
+  profileId: number,
+  payload: { name?: string; rules?: ParserProfileRules }
+) {
+  return fetchJson<{ ok: boolean; version: number }>(`/api/admin/parser-profiles/${profileId}`, {
+    method: "PATCH",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function deleteParserProfile(token: string, profileId: number) {
+  return fetchJson<{ ok: boolean }>(`/api/admin/parser-profiles/${profileId}`, {
+    method: "DELETE",
+    token
+  });
+}
+
+export async function getReparseJobs(token: string) {
+  const data = await fetchJson<{ items: ReparseJob[] }>("/api/admin/reparse-jobs", {
+    token
+  });
+  return data.items;
+}
+
+export async function createReparseJob(token: string, filters: ReparseFilters) {
+  return fetchJson<{ id: number; totalCount: number }>("/api/admin/reparse-jobs", {
+    method: "POST",
+    token,
+    body: JSON.stringify(filters)
+  });
+}
+
+export async function cancelReparseJob(token: string, jobId: number) {
+  return fetchJson<{ ok: boolean }>(`/api/admin/reparse-jobs/${jobId}/cancel`, {
+    method: "POST",
+    token
+  });
+}
+
+export async function getReparseJobChanges(token: string, jobId: number) {
+  const data = await fetchJson<{ items: ReparseChange[] }>(`/api/admin/reparse-jobs/${jobId}/changes`, {
+    token
+  });
+  return data.items;
+}
+
+export async function previewSource(
+  token: string,
+  payload: {
+    regionId: number;
+    type: SourceItem["type"];
+    baseUrl: string;
+    listUrl?: string | null;
+    configJson?: Record<string, unknown>;
+  }
+) {
+  return fetchJson<SourcePreview>("/api/admin/sources/preview", {
+    method: "POST",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
 export async function runSourceFetch(token: string, sourceId: number) {
   return fetchJson<{ sourceId: number; fetchedCount: number; parsedCount: number; errorCount: number; status: string }>(
     `/api/admin/sources/${sourceId}/run-fetch`,
@@ -356,7 +853,21 @@ export async function runDueIngest(token: string) {
 }
 
 export async function runDueDispatch(token: string) {
-  return fetchJson<{ picked: number; sent: number; failed: number }>("/api/admin/notifications/dispatch-due", {
+  return fetchJson<{ picked: number; sent: number; failed: number; dead: number; reaped: number }>("/api/admin/notifications/dispatch-due", {
+    method: "POST",
+    token
+  });
+}
+
+export async function getDeadLetterSchedules(token: string) {
+  const data = await fetchJson<{ items: DeadLetterSchedule[] }>("/api/admin/notifications/dead-letter", {
+    token
+  });
+  return data.items;
+}
+
+export async function requeueSchedule(token: string, scheduleId: number) {
+  return fetchJson<{ ok: boolean }>(`/api/admin/notifications/${scheduleId}/requeue`, {
     method: "POST",
     token
   });
@@ -371,7 +882,29 @@ export async function getRawNotices(token: string, status?: "NEW" | "PARSED" | "
 }
 
 export async function reparseRawNotice(token: string, rawNoticeId: number) {
-  return fetchJson<{ eventId: number }>(`/api/admin/raw-notices/${rawNoticeId}/reparse`, {
+  return fetchJson<{ eventId: number; eventIds: number[] }>(`/api/admin/raw-notices/${rawNoticeId}/reparse`, {
+    method: "POST",
+    token
+  });
+}
+
+export async function updateSource(token: string, sourceId: number, payload: { enabled: boolean }) {
+  return fetchJson<{ ok: boolean }>(`/api/admin/sources/${sourceId}`, {
+    method: "PATCH",
+    token,
+    body: JSON.stringify(payload)
+  });
+}
+
+export async function getAdminAlerts(token: string) {
+  const data = await fetchJson<{ items: AdminAlert[] }>("/api/admin/alerts", {
+    token
+  });
+  return data.items;
+}
+
+export async function acknowledgeAdminAlert(token: string, alertId: number) {
+  return fetchJson<{ ok: boolean }>(`/api/admin/alerts/${alertId}/acknowledge`, {
     method: "POST",
     token
   });
@@ -394,11 +927,72 @@ export async function patchEvent(
     startAtUtc: string | null;
     endAtUtc: string | null;
     visibility: "PUBLIC" | "NEED_REVIEW" | "HIDDEN";
+    unlockFields: EventFieldConflict["field"][];
   }>
 ) {
-  return fetchJson<{ ok: boolean }>(`/api/admin/events/${eventId}`, {
+  return fetchJson<{ ok: boolean; lockedFields: string[] }>(`/api/admin/events/${eventId}`, {
     method: "PATCH",
     token,
     body: JSON.stringify(payload)
   });
 }
+
+export async function getEventConflicts(token: string) {
+  const data = await fetchJson<{ items: EventFieldConflict[] }>("/api/admin/event-conflicts", {
+    token
+  });
+  return data.items;
+}
+
+export async function resolveEventConflict(token: string, conflictId: number, action: "KEEP" | "ACCEPT") {
+  return fetchJson<{ ok: boolean }>(`/api/admin/event-conflicts/${conflictId}/resolve`, {
+    method: "POST",
+    token,
+    body: JSON.stringify({ action })
+  });
+}
+
+export async function getEventRawNotices(token: string, eventId: number) {
+  const data = await fetchJson<{ items: EventRawNotice[] }>(`/api/admin/events/${eventId}/raw-notices`, { token });
+  return data.items;
+}
+
+export async function mergeEvents(token: string, eventId: number, duplicateEventIds: number[]) {
+  return fetchJson<{ ok: boolean; mergedEventIds: number[] }>(`/api/admin/events/${eventId}/merge`, {
+    method: "POST",
+    token,
+    body: JSON.stringify({ duplicateEventIds })
+  });
+}
+
+export async function splitEvent(token: string, eventId: number, rawNoticeIds: number[]) {
+  return fetchJson<{ id: number }>(`/api/admin/events/${eventId}/split`, {
+    method: "POST",
+    token,
+    body: JSON.stringify({ rawNoticeIds })
+  });
+}
+
+export async function getReviewQueue(token: string, assignee?: "me" | "unassigned") {
+  const query = assignee ? `?assignee=${assignee}` : "";
+  return fetchJson<{ items: ReviewQueueItem[]; metrics: ReviewQueueMetrics; reviewers: Reviewer[] }>(
+    `/api/admin/review-queue${query}`,
+    { token }
+  );
+}
+
+export async function decideReview(token: string, eventIds: number[], action: "APPROVE" | "REJECT") {
+  return fetchJson<{ ok: boolean; eventIds: number[] }>("/api/admin/review-queue/decisions", {
+    method: "POST",
+    token,
+    body: JSON.stringify({ eventIds, action })
+  });
+}
+
+export async function assignReview(token: string, eventIds: number[], assigneeId: number | null) {
+  return fetchJson<{ ok: boolean; eventIds: number[] }>("/api/admin/review-queue/assign", {
+    method: "POST",
+    token,
+    body: JSON.stringify({ eventIds, assigneeId })
+  });
+}
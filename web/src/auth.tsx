@@ -1,5 +1,5 @@
 ﻿import { createContext, useContext, useEffect, useMemo, useState } from "react";
-import { getMe, login, signup, User } from "./api";
+import { getMe, login, logoutAllSessions, logoutSession, registerSessionHooks, SessionTokens, signup, User } from "./api";
 
 type AuthContextValue = {
   token: string | null;
@@ -8,18 +8,42 @@ type AuthContextValue = {
   loginWithPassword: (email: string, password: string) => Promise<void>;
   signupWithPassword: (email: string, password: string) => Promise<void>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
   refreshMe: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextValue | null>(null);
 
 const TOKEN_KEY = "subculture_token";
+const REFRESH_TOKEN_KEY = "subculture_refresh_token";
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_KEY));
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const storeSession = (tokens: SessionTokens) => {
+    localStorage.setItem(TOKEN_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    setToken(tokens.token);
+  };
+
+  const clearSession = () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    setToken(null);
+    setUser(null);
+  };
+
+  useEffect(() => {
+    registerSessionHooks({
+      getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+      onRefreshed: storeSession,
+      onExpired: clearSession
+    });
+    return () => registerSessionHooks(null);
+  }, []);
+
   const refreshMe = async () => {
     if (!token) {
       setUser(null);
@@ -37,13 +61,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    setLoading(true);
+    // A silent token refresh keeps the current user; only show loading when nobody is signed in yet.
+    if (!user) setLoading(true);
     refreshMe()
-      .catch(() => {
-        localStorage.removeItem(TOKEN_KEY);
-        setToken(null);
-        setUser(null);
-      })
+      .catch(clearSession)
       .finally(() => setLoading(false));
   }, [token]);
 
@@ -54,20 +75,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       loading,
       loginWithPassword: async (email: string, password: string) => {
         const data = await login({ email, password });
-        localStorage.setItem(TOKEN_KEY, data.token);
-        setToken(data.token);
+        storeSession(data);
         setUser(data.user);
       },
       signupWithPassword: async (email: string, password: string) => {
         const data = await signup({ email, password, timezone: "Asia/Seoul" });
-        localStorage.setItem(TOKEN_KEY, data.token);
-        setToken(data.token);
+        storeSession(data);
         setUser(data.user);
       },
       logout: () => {
-        localStorage.removeItem(TOKEN_KEY);
-        setToken(null);
-        setUser(null);
+        if (token) {
+          void logoutSession(token).catch(() => undefined);
+        }
+        clearSession();
+      },
+      logoutEverywhere: async () => {
+        if (token) {
+          await logoutAllSessions(token);
+        }
+        clearSession();
       },
       refreshMe
     }),
@@ -1,30 +1,121 @@
 ﻿import { FormEvent, useEffect, useState } from "react";
 import {
+  acknowledgeAdminAlert,
+  AdminAlert,
+  assignReview,
+  cancelReparseJob,
   createGame,
+  createParserProfile,
   createRegion,
+  createReparseJob,
   createSource,
+  DeadLetterSchedule,
+  decideReview,
+  deleteParserProfile,
+  EventFieldConflict,
+  EventRawNotice,
   Game,
+  getAdminAlerts,
+  getDeadLetterSchedules,
+  getEventConflicts,
+  getEventRawNotices,
   getGames,
   getIngestRuns,
+  getParserProfiles,
   getRawNotices,
+  getReparseJobChanges,
+  getReparseJobs,
+  getReviewQueue,
+  getSourceAdapters,
   getSources,
   IngestRun,
   isApiError,
+  mergeEvents,
+  ParserProfile,
+  patchEvent,
+  ParserProfileRules,
+  previewSource,
+  ReparseChange,
+  ReparseFilters,
+  ReparseJob,
   reparseRawNotice,
+  requeueSchedule,
+  resolveEventConflict,
+  ReviewQueueItem,
+  ReviewQueueMetrics,
+  Reviewer,
   runDueDispatch,
   runDueIngest,
   runSourceFetch,
-  SourceItem
+  SourceAdapter,
+  SourceItem,
+  SourcePreview,
+  splitEvent,
+  updateParserProfile,
+  updateSource
 } from "../api";
 import { formatDate } from "../ui";
 
+type ReviewDraft = {
+  eventId: number;
+  type: ReviewQueueItem["type"];
+  title: string;
+  summary: string;
+  start: string;
+  end: string;
+};
+
+// datetime-local inputs work in the browser's timezone without an offset.
+function toDateTimeInput(value: string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromDateTimeInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function formatWait(minutes: number | null) {
+  if (minutes === null) return "-";
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (24 * 60))}d`;
+}
+
+function describeSnapshot(snapshot: ReparseChange["before"]) {
+  if (!snapshot) return "-";
+  return `${snapshot.type} ${formatDate(snapshot.startAtUtc)} ~ ${formatDate(snapshot.endAtUtc)} ${snapshot.visibility}`;
+}
+
 export function AdminPage({ token }: { token: string | null }) {
   const [games, setGames] = useState<Game[]>([]);
   const [sources, setSources] = useState<SourceItem[]>([]);
+  const [adapters, setAdapters] = useState<SourceAdapter[]>([]);
   const [rawNotices, setRawNotices] = useState<Array<Record<string, unknown>>>([]);
   const [runs, setRuns] = useState<IngestRun[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterSchedule[]>([]);
+  const [parserProfiles, setParserProfiles] = useState<ParserProfile[]>([]);
+  const [reparseJobs, setReparseJobs] = useState<ReparseJob[]>([]);
+  const [reparseChanges, setReparseChanges] = useState<{ jobId: number; items: ReparseChange[] } | null>(null);
+  const [alerts, setAlerts] = useState<AdminAlert[]>([]);
+  const [conflicts, setConflicts] = useState<EventFieldConflict[]>([]);
+  const [reviewItems, setReviewItems] = useState<ReviewQueueItem[]>([]);
+  const [reviewMetrics, setReviewMetrics] = useState<ReviewQueueMetrics | null>(null);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
   const [message, setMessage] = useState<string | null>(null);
 
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [mergeDuplicateIds, setMergeDuplicateIds] = useState("");
+  const [splitEventId, setSplitEventId] = useState("");
+  const [eventNotices, setEventNotices] = useState<{ eventId: number; items: EventRawNotice[] } | null>(null);
+  const [splitSelection, setSplitSelection] = useState<number[]>([]);
+
+  const [reviewFilter, setReviewFilter] = useState<"" | "me" | "unassigned">("");
+  const [reviewSelection, setReviewSelection] = useState<number[]>([]);
+  const [reviewAssigneeId, setReviewAssigneeId] = useState("");
+  const [reviewDraft, setReviewDraft] = useState<ReviewDraft | null>(null);
+
   const [newGameSlug, setNewGameSlug] = useState("");
   const [newGameName, setNewGameName] = useState("");
 
@@ -36,22 +127,68 @@ export function AdminPage({ token }: { token: string | null }) {
   const [sourceType, setSourceType] = useState<SourceItem["type"]>("RSS");
   const [sourceBaseUrl, setSourceBaseUrl] = useState("");
   const [sourceListUrl, setSourceListUrl] = useState("");
+  const [sourceConfigJson, setSourceConfigJson] = useState('{\n  "timezone": "Asia/Seoul"\n}');
+  const [sourcePreview, setSourcePreview] = useState<SourcePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const [reparseSourceId, setReparseSourceId] = useState("");
+  const [reparseGameId, setReparseGameId] = useState("");
+  const [reparseStatus, setReparseStatus] = useState("");
+  const [reparseParserVersion, setReparseParserVersion] = useState("");
+  const [reparseOutdatedOnly, setReparseOutdatedOnly] = useState(true);
+  const [reparseFrom, setReparseFrom] = useState("");
+  const [reparseTo, setReparseTo] = useState("");
+
+  const [editingProfileId, setEditingProfileId] = useState<number | null>(null);
+  const [profileScope, setProfileScope] = useState<"game" | "source">("game");
+  const [profileTargetId, setProfileTargetId] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const [profileRulesJson, setProfileRulesJson] = useState('{\n  "keywords": { "PICKUP": [] },\n  "titlePrefixes": []\n}');
 
   const load = async () => {
     if (!token) return;
 
     try {
-      const [gamesData, sourcesData, rawData, runData] = await Promise.all([
+      const [
+        gamesData,
+        sourcesData,
+        adapterData,
+        rawData,
+        runData,
+        deadLetterData,
+        profileData,
+        reparseData,
+        alertData,
+        conflictData,
+        reviewData
+      ] = await Promise.all([
         getGames(),
         getSources(token),
+        getSourceAdapters(token),
         getRawNotices(token, "ERROR"),
-        getIngestRuns(token)
+        getIngestRuns(token),
+        getDeadLetterSchedules(token),
+        getParserProfiles(token),
+        getReparseJobs(token),
+        getAdminAlerts(token),
+        getEventConflicts(token),
+        getReviewQueue(token, reviewFilter || undefined)
       ]);
 
       setGames(gamesData);
       setSources(sourcesData);
+      setAdapters(adapterData);
       setRawNotices(rawData);
       setRuns(runData);
+      setDeadLetters(deadLetterData);
+      setParserProfiles(profileData);
+      setReparseJobs(reparseData);
+      setAlerts(alertData);
+      setConflicts(conflictData);
+      setReviewItems(reviewData.items);
+      setReviewMetrics(reviewData.metrics);
+      setReviewers(reviewData.reviewers);
+      setReviewSelection((current) => current.filter((id) => reviewData.items.some((item) => item.id === id)));
       setMessage(null);
     } catch (err) {
       setMessage(isApiError(err) ? err.message : "Failed to load admin data");
@@ -60,7 +197,7 @@ export function AdminPage({ token }: { token: string | null }) {
 
   useEffect(() => {
     void load();
-  }, [token]);
+  }, [token, reviewFilter]);
 
   if (!token) return <p className="panel">Admin token required.</p>;
 
@@ -99,23 +236,36 @@ export function AdminPage({ token }: { token: string | null }) {
     }
   };
 
+  const readSourceForm = () => {
+    if (!sourceRegionId) return null;
+
+    let configJson: Record<string, unknown>;
+    try {
+      configJson = JSON.parse(sourceConfigJson || "{}") as Record<string, unknown>;
+    } catch {
+      setMessage("Source config must be valid JSON.");
+      return null;
+    }
+
+    return {
+      regionId: Number(sourceRegionId),
+      type: sourceType,
+      baseUrl: sourceBaseUrl,
+      listUrl: sourceListUrl || null,
+      configJson
+    };
+  };
+
   const onCreateSource = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!sourceRegionId) return;
+    const source = readSourceForm();
+    if (!source) return;
 
     try {
-      await createSource(token, {
-        regionId: Number(sourceRegionId),
-        type: sourceType,
-        baseUrl: sourceBaseUrl,
-        listUrl: sourceListUrl || null,
-        fetchIntervalMinutes: 60,
-        configJson: {
-          timezone: "Asia/Seoul"
-        }
-      });
+      await createSource(token, { ...source, fetchIntervalMinutes: 60 });
       setSourceBaseUrl("");
       setSourceListUrl("");
+      setSourcePreview(null);
       await load();
       setMessage("Source created.");
     } catch (err) {
@@ -123,6 +273,191 @@ export function AdminPage({ token }: { token: string | null }) {
     }
   };
 
+  const onPreviewSource = async () => {
+    const source = readSourceForm();
+    if (!source) {
+      setMessage("Select a region and enter valid config before previewing.");
+      return;
+    }
+
+    setPreviewLoading(true);
+    try {
+      setSourcePreview(await previewSource(token, source));
+      setMessage(null);
+    } catch (err) {
+      setSourcePreview(null);
+      setMessage(isApiError(err) ? err.message : "Preview failed");
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const resetProfileForm = () => {
+    setEditingProfileId(null);
+    setProfileTargetId("");
+    setProfileName("");
+    setProfileRulesJson('{\n  "keywords": { "PICKUP": [] },\n  "titlePrefixes": []\n}');
+  };
+
+  const onEditProfile = (profile: ParserProfile) => {
+    setEditingProfileId(profile.id);
+    setProfileScope(profile.sourceId ? "source" : "game");
+    setProfileTargetId(String(profile.sourceId ?? profile.gameId ?? ""));
+    setProfileName(profile.name);
+    setProfileRulesJson(JSON.stringify(profile.rules, null, 2));
+  };
+
+  const onSaveProfile = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    let rules: ParserProfileRules;
+    try {
+      rules = JSON.parse(profileRulesJson || "{}") as ParserProfileRules;
+    } catch {
+      setMessage("Parser profile rules must be valid JSON.");
+      return;
+    }
+
+    try {
+      if (editingProfileId) {
+        const result = await updateParserProfile(token, editingProfileId, { name: profileName, rules });
+        setMessage(`Parser profile saved as version ${result.version}.`);
+      } else {
+        if (!profileTargetId) return;
+        await createParserProfile(token, {
+          name: profileName,
+          gameId: profileScope === "game" ? Number(profileTargetId) : null,
+          sourceId: profileScope === "source" ? Number(profileTargetId) : null,
+          rules
+        });
+        setMessage("Parser profile created.");
+      }
+      resetProfileForm();
+      await load();
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Failed to save parser profile");
+    }
+  };
+
+  const onCreateReparseJob = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const filters: ReparseFilters = { outdatedOnly: reparseOutdatedOnly };
+    if (reparseSourceId) filters.sourceId = Number(reparseSourceId);
+    if (reparseGameId) filters.gameId = Number(reparseGameId);
+    if (reparseStatus) filters.status = reparseStatus as ReparseFilters["status"];
+    if (reparseParserVersion) filters.parserVersion = reparseParserVersion;
+    if (reparseFrom) filters.publishedFrom = new Date(reparseFrom).toISOString();
+    if (reparseTo) filters.publishedTo = new Date(reparseTo).toISOString();
+
+    try {
+      const job = await createReparseJob(token, filters);
+      await load();
+      setMessage(`Reparse job ${job.id} queued for ${job.totalCount} notice(s).`);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Failed to queue reparse job");
+    }
+  };
+
+  const onMergeEvents = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const duplicateIds = mergeDuplicateIds
+      .split(",")
+      .map((value) => Number(value.trim()))
+      .filter((value) => Number.isInteger(value) && value > 0);
+
+    try {
+      const result = await mergeEvents(token, Number(mergeTargetId), duplicateIds);
+      setMergeDuplicateIds("");
+      setMessage(`Merged event(s) ${result.mergedEventIds.join(", ")} into #${mergeTargetId}`);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Merge failed");
+    }
+  };
+
+  const onLoadEventNotices = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    try {
+      const items = await getEventRawNotices(token, Number(splitEventId));
+      setEventNotices({ eventId: Number(splitEventId), items });
+      setSplitSelection([]);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Failed to load event notices");
+    }
+  };
+
+  const onSplitEvent = async () => {
+    if (!eventNotices) return;
+
+    try {
+      const created = await splitEvent(token, eventNotices.eventId, splitSelection);
+      setEventNotices({ eventId: eventNotices.eventId, items: await getEventRawNotices(token, eventNotices.eventId) });
+      setSplitSelection([]);
+      setMessage(`Split ${splitSelection.length} notice(s) into event #${created.id}`);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Split failed");
+    }
+  };
+
+  const onDecideReview = async (eventIds: number[], action: "APPROVE" | "REJECT") => {
+    try {
+      const result = await decideReview(token, eventIds, action);
+      await load();
+      setMessage(`${action === "APPROVE" ? "Approved" : "Rejected"} ${result.eventIds.length} event(s)`);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Review decision failed");
+    }
+  };
+
+  const onAssignReview = async () => {
+    try {
+      const result = await assignReview(token, reviewSelection, reviewAssigneeId ? Number(reviewAssigneeId) : null);
+      await load();
+      setMessage(`${reviewAssigneeId ? "Assigned" : "Unassigned"} ${result.eventIds.length} event(s)`);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Assignment failed");
+    }
+  };
+
+  const onEditReview = (item: ReviewQueueItem) => {
+    setReviewDraft({
+      eventId: item.id,
+      type: item.type,
+      title: item.title,
+      summary: item.summary ?? "",
+      start: toDateTimeInput(item.startAtUtc),
+      end: toDateTimeInput(item.endAtUtc)
+    });
+  };
+
+  // Only changed fields are sent, since every field in the patch becomes locked against re-ingest.
+  const onApproveDraft = async (event: FormEvent<HTMLFormElement>, item: ReviewQueueItem) => {
+    event.preventDefault();
+    if (!reviewDraft) return;
+
+    const startAtUtc = fromDateTimeInput(reviewDraft.start);
+    const endAtUtc = fromDateTimeInput(reviewDraft.end);
+    const summary = reviewDraft.summary.trim() || null;
+
+    try {
+      await patchEvent(token, item.id, {
+        ...(reviewDraft.type !== item.type ? { type: reviewDraft.type } : {}),
+        ...(reviewDraft.title !== item.title ? { title: reviewDraft.title } : {}),
+        ...(summary !== item.summary ? { summary } : {}),
+        ...(reviewDraft.start !== toDateTimeInput(item.startAtUtc) ? { startAtUtc } : {}),
+        ...(reviewDraft.end !== toDateTimeInput(item.endAtUtc) ? { endAtUtc } : {}),
+        visibility: "PUBLIC"
+      });
+      setReviewDraft(null);
+      await load();
+      setMessage(`Event ${item.id} edited and approved`);
+    } catch (err) {
+      setMessage(isApiError(err) ? err.message : "Edit failed");
+    }
+  };
+
   return (
     <div className="section grid-two">
       <div className="panel">
@@ -141,7 +476,9 @@ export function AdminPage({ token }: { token: string | null }) {
             onClick={() =>
               void runDueDispatch(token)
                 .then((result) =>
-                  setMessage(`Dispatch result - picked: ${result.picked}, sent: ${result.sent}, failed: ${result.failed}`)
+                  setMessage(
+                    `Dispatch result - picked: ${result.picked}, sent: ${result.sent}, failed: ${result.failed}, dead: ${result.dead}, reaped: ${result.reaped}`
+                  )
                 )
                 .catch((err) => setMessage(isApiError(err) ? err.message : "Failed to dispatch notifications"))
             }
@@ -194,11 +531,265 @@ export function AdminPage({ token }: { token: string | null }) {
             <option value="HTML_LIST">HTML_LIST</option>
             <option value="HTML_DETAIL">HTML_DETAIL</option>
             <option value="API">API</option>
+            <option value="ADAPTER">ADAPTER</option>
           </select>
+          {sourceType === "ADAPTER" ? (
+            <select
+              defaultValue=""
+              onChange={(e) => setSourceConfigJson(JSON.stringify({ adapter: e.target.value }, null, 2))}
+              required
+            >
+              <option value="">Select adapter</option>
+              {adapters.map((adapter) => (
+                <option key={adapter.name} value={adapter.name}>
+                  {adapter.label}
+                </option>
+              ))}
+            </select>
+          ) : null}
           <input value={sourceBaseUrl} onChange={(e) => setSourceBaseUrl(e.target.value)} placeholder="base url" required />
           <input value={sourceListUrl} onChange={(e) => setSourceListUrl(e.target.value)} placeholder="list url" />
-          <button type="submit">Save source</button>
+          <textarea
+            value={sourceConfigJson}
+            onChange={(e) => setSourceConfigJson(e.target.value)}
+            placeholder="config json"
+            rows={6}
+          />
+          <div className="row">
+            <button type="button" onClick={() => void onPreviewSource()} disabled={previewLoading}>
+              {previewLoading ? "Previewing..." : "Preview"}
+            </button>
+            <button type="submit">Save source</button>
+          </div>
+        </form>
+      </div>
+
+      {sourcePreview ? (
+        <div className="panel full-width">
+          <h3>Source Preview</h3>
+          <p className="muted">
+            Nothing was saved. Fetched {sourcePreview.fetchedCount} candidate(s), showing {sourcePreview.items.length}; parser{" "}
+            {sourcePreview.parserVersion}.
+          </p>
+          <ul className="simple-list">
+            {sourcePreview.items.map((item) => (
+              <li key={item.url}>
+                <div className="stack">
+                  <strong>{item.title}</strong>
+                  <a href={item.url} target="_blank" rel="noreferrer">
+                    {item.url}
+                  </a>
+                  <span className="muted">{item.contentText || "(no content text)"}</span>
+                  {item.drafts.map((draft, index) => (
+                    <span key={`${item.url}-${index}`}>
+                      {draft.type} | {draft.title} | {formatDate(draft.startAtUtc)} ~ {formatDate(draft.endAtUtc)} |
+                      confidence={draft.confidence.toFixed(2)} | {draft.visibility}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+            {sourcePreview.items.length === 0 ? <li>No candidates matched this configuration.</li> : null}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="panel full-width">
+        <h3>Parser Profiles</h3>
+        <p className="muted">
+          Keywords extend the built-in lists per type (PICKUP, UPDATE, MAINTENANCE, CAMPAIGN). Weights are per type and
+          must be between 0 and 0.3. Saving new rules bumps the profile version recorded on re-parsed notices.
+        </p>
+        <form className="stack" onSubmit={onSaveProfile}>
+          {editingProfileId ? null : (
+            <div className="row">
+              <select value={profileScope} onChange={(e) => setProfileScope(e.target.value as "game" | "source")}>
+                <option value="game">Game</option>
+                <option value="source">Source</option>
+              </select>
+              <select value={profileTargetId} onChange={(e) => setProfileTargetId(e.target.value)} required>
+                <option value="">{profileScope === "game" ? "Select game" : "Select source"}</option>
+                {profileScope === "game"
+                  ? games.map((game) => (
+                      <option key={game.id} value={game.id}>
+                        {game.name}
+                      </option>
+                    ))
+                  : sources.map((source) => (
+                      <option key={source.id} value={source.id}>
+                        #{source.id} {source.gameName} ({source.regionCode}) [{source.type}]
+                      </option>
+                    ))}
+              </select>
+            </div>
+          )}
+          <input value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder="profile name" required />
+          <textarea
+            value={profileRulesJson}
+            onChange={(e) => setProfileRulesJson(e.target.value)}
+            placeholder="rules json"
+            rows={8}
+          />
+          <div className="row">
+            <button type="submit">{editingProfileId ? "Save new version" : "Create profile"}</button>
+            {editingProfileId ? (
+              <button type="button" onClick={resetProfileForm}>
+                Cancel
+              </button>
+            ) : null}
+          </div>
         </form>
+        <ul className="simple-list">
+          {parserProfiles.map((profile) => (
+            <li key={profile.id}>
+              <span>
+                {profile.name} | {profile.sourceId ? `source #${profile.sourceId}` : "game"} | {profile.gameName ?? "-"}
+                {profile.regionCode ? ` (${profile.regionCode})` : ""} | {profile.parserVersion}
+              </span>
+              <div className="row">
+                <button onClick={() => onEditProfile(profile)}>Edit</button>
+                <button
+                  onClick={() =>
+                    void deleteParserProfile(token, profile.id)
+                      .then(() => load())
+                      .then(() => setMessage(`Parser profile ${profile.name} deleted`))
+                      .catch((err) => setMessage(isApiError(err) ? err.message : "Delete failed"))
+                  }
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+          {parserProfiles.length === 0 ? <li>No parser profiles; the built-in keyword lists apply.</li> : null}
+        </ul>
+      </div>
+
+      <div className="panel full-width">
+        <h3>Bulk Reparse</h3>
+        <p className="muted">Queued jobs are processed by the worker in batches; refresh to follow progress.</p>
+        <form className="stack" onSubmit={onCreateReparseJob}>
+          <div className="row">
+            <select value={reparseGameId} onChange={(e) => setReparseGameId(e.target.value)}>
+              <option value="">All games</option>
+              {games.map((game) => (
+                <option key={game.id} value={game.id}>
+                  {game.name}
+                </option>
+              ))}
+            </select>
+            <select value={reparseSourceId} onChange={(e) => setReparseSourceId(e.target.value)}>
+              <option value="">All sources</option>
+              {sources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  #{source.id} {source.gameName} ({source.regionCode}) [{source.type}]
+                </option>
+              ))}
+            </select>
+            <select value={reparseStatus} onChange={(e) => setReparseStatus(e.target.value)}>
+              <option value="">Any status</option>
+              <option value="NEW">NEW</option>
+              <option value="PARSED">PARSED</option>
+              <option value="ERROR">ERROR</option>
+            </select>
+          </div>
+          <div className="row">
+            <input
+              value={reparseParserVersion}
+              onChange={(e) => setReparseParserVersion(e.target.value)}
+              placeholder="parser version (e.g. v1)"
+            />
+            <label>
+              From <input type="date" value={reparseFrom} onChange={(e) => setReparseFrom(e.target.value)} />
+            </label>
+            <label>
+              To <input type="date" value={reparseTo} onChange={(e) => setReparseTo(e.target.value)} />
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={reparseOutdatedOnly}
+                onChange={(e) => setReparseOutdatedOnly(e.target.checked)}
+              />{" "}
+              Only notices parsed by an older profile version
+            </label>
+          </div>
+          <button type="submit">Queue reparse job</button>
+        </form>
+        <ul className="simple-list">
+          {reparseJobs.map((job) => (
+            <li key={job.id}>
+              <span>
+                #{job.id} {job.status} | {job.processedCount}/{job.totalCount} processed | changed={job.changedCount} errors=
+                {job.errorCount} | {formatDate(job.createdAt)}
+                {job.lastError ? ` | ${job.lastError}` : ""}
+              </span>
+              <div className="row">
+                <button
+                  onClick={() =>
+                    void getReparseJobChanges(token, job.id)
+                      .then((items) => setReparseChanges({ jobId: job.id, items }))
+                      .catch((err) => setMessage(isApiError(err) ? err.message : "Failed to load changes"))
+                  }
+                >
+                  Changes
+                </button>
+                {job.status === "QUEUED" || job.status === "RUNNING" ? (
+                  <button
+                    onClick={() =>
+                      void cancelReparseJob(token, job.id)
+                        .then(() => load())
+                        .then(() => setMessage(`Reparse job ${job.id} cancelled`))
+                        .catch((err) => setMessage(isApiError(err) ? err.message : "Cancel failed"))
+                    }
+                  >
+                    Cancel
+                  </button>
+                ) : null}
+              </div>
+            </li>
+          ))}
+          {reparseJobs.length === 0 ? <li>No reparse jobs yet.</li> : null}
+        </ul>
+        {reparseChanges ? (
+          <>
+            <h4>Changes from job #{reparseChanges.jobId}</h4>
+            <ul className="simple-list">
+              {reparseChanges.items.map((change) => (
+                <li key={change.id}>
+                  <span>
+                    [{change.changes.join(", ")}] event #{change.eventId ?? "-"} {change.after?.title ?? change.before?.title ?? "-"} |{" "}
+                    {describeSnapshot(change.before)} {"->"} {describeSnapshot(change.after)}
+                  </span>
+                </li>
+              ))}
+              {reparseChanges.items.length === 0 ? <li>No event changes.</li> : null}
+            </ul>
+          </>
+        ) : null}
+      </div>
+
+      <div className="panel full-width">
+        <h3>Source Alerts</h3>
+        <ul className="simple-list">
+          {alerts.map((alert) => (
+            <li key={alert.id}>
+              <span>
+                {formatDate(alert.createdAt)} | {alert.kind} | {alert.gameName ?? "-"} ({alert.regionCode ?? "-"}) | {alert.message}
+              </span>
+              <button
+                onClick={() =>
+                  void acknowledgeAdminAlert(token, alert.id)
+                    .then(() => load())
+                    .catch((err) => setMessage(isApiError(err) ? err.message : "Acknowledge failed"))
+                }
+              >
+                Acknowledge
+              </button>
+            </li>
+          ))}
+          {alerts.length === 0 ? <li>No open alerts.</li> : null}
+        </ul>
       </div>
 
       <div className="panel full-width">
@@ -206,9 +797,28 @@ export function AdminPage({ token }: { token: string | null }) {
         <ul className="simple-list">
           {sources.map((source) => (
             <li key={source.id}>
-              <span>
-                #{source.id} {source.gameName} ({source.regionCode}) [{source.type}] interval={source.fetchIntervalMinutes}m
-              </span>
+              <div className="stack">
+                <span>
+                  #{source.id} {source.gameName} ({source.regionCode}) [{source.type}] interval={source.fetchIntervalMinutes}m |
+                  health={source.healthScore ?? "-"} | {source.enabled ? "enabled" : "disabled"}
+                  {source.consecutiveFailures > 0 ? ` | failures=${source.consecutiveFailures}` : ""}
+                  {source.nextFetchAt ? ` | retry after ${formatDate(source.nextFetchAt)}` : ""}
+                </span>
+                {source.disabledReason ? <span className="muted">{source.disabledReason}</span> : null}
+                {!source.disabledReason && source.lastErrorMessage ? (
+                  <span className="muted">Last error: {source.lastErrorMessage}</span>
+                ) : null}
+              </div>
+              <button
+                onClick={() =>
+                  void updateSource(token, source.id, { enabled: !source.enabled })
+                    .then(() => load())
+                    .then(() => setMessage(`Source ${source.id} ${source.enabled ? "disabled" : "enabled"}`))
+                    .catch((err) => setMessage(isApiError(err) ? err.message : "Source update failed"))
+                }
+              >
+                {source.enabled ? "Disable" : "Enable"}
+              </button>
               <button
                 onClick={() =>
                   void runSourceFetch(token, source.id)
@@ -227,6 +837,225 @@ export function AdminPage({ token }: { token: string | null }) {
         </ul>
       </div>
 
+      <div className="panel full-width">
+        <h3>Review Queue</h3>
+        {reviewMetrics ? (
+          <p className="muted">
+            pending={reviewMetrics.pending} unassigned={reviewMetrics.unassigned} | oldest {formatWait(reviewMetrics.oldestMinutes)},
+            median {formatWait(reviewMetrics.medianMinutes)} | &lt;1h: {reviewMetrics.buckets.underHour}, &lt;1d:{" "}
+            {reviewMetrics.buckets.underDay}, &lt;1w: {reviewMetrics.buckets.underWeek}, older: {reviewMetrics.buckets.older}
+          </p>
+        ) : null}
+        <div className="row">
+          <select value={reviewFilter} onChange={(e) => setReviewFilter(e.target.value as "" | "me" | "unassigned")}>
+            <option value="">All pending</option>
+            <option value="me">Assigned to me</option>
+            <option value="unassigned">Unassigned</option>
+          </select>
+          <button disabled={reviewSelection.length === 0} onClick={() => void onDecideReview(reviewSelection, "APPROVE")}>
+            Approve selected
+          </button>
+          <button disabled={reviewSelection.length === 0} onClick={() => void onDecideReview(reviewSelection, "REJECT")}>
+            Reject selected
+          </button>
+          <select value={reviewAssigneeId} onChange={(e) => setReviewAssigneeId(e.target.value)}>
+            <option value="">Nobody</option>
+            {reviewers.map((reviewer) => (
+              <option key={reviewer.id} value={reviewer.id}>
+                {reviewer.email}
+              </option>
+            ))}
+          </select>
+          <button disabled={reviewSelection.length === 0} onClick={() => void onAssignReview()}>
+            Assign selected
+          </button>
+        </div>
+        <ul className="simple-list">
+          {reviewItems.map((item) => (
+            <li key={item.id} className="review-item">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={reviewSelection.includes(item.id)}
+                  onChange={(e) =>
+                    setReviewSelection((current) =>
+                      e.target.checked ? [...current, item.id] : current.filter((id) => id !== item.id)
+                    )
+                  }
+                />{" "}
+                #{item.id} [{item.gameName} {item.regionCode}] waiting since {formatDate(item.reviewRequestedAt)} |{" "}
+                {item.assignee?.email ?? "unassigned"}
+              </label>
+              <div className="review-columns">
+                <div className="stack">
+                  {item.notices.map((notice) => (
+                    <div key={notice.id} className="stack">
+                      <a href={notice.url} target="_blank" rel="noreferrer">
+                        {notice.title}
+                      </a>
+                      <span className="muted">
+                        {formatDate(notice.publishedAt)} | parser {notice.parserVersion}
+                      </span>
+                      <span className="review-content">{notice.contentText || "(no content text)"}</span>
+                    </div>
+                  ))}
+                  {item.notices.length === 0 ? <span className="muted">No linked notices.</span> : null}
+                </div>
+                {reviewDraft?.eventId === item.id ? (
+                  <form className="stack" onSubmit={(event) => void onApproveDraft(event, item)}>
+                    <select
+                      value={reviewDraft.type}
+                      onChange={(e) => setReviewDraft({ ...reviewDraft, type: e.target.value as ReviewQueueItem["type"] })}
+                    >
+                      <option value="PICKUP">PICKUP</option>
+                      <option value="UPDATE">UPDATE</option>
+                      <option value="MAINTENANCE">MAINTENANCE</option>
+                      <option value="EVENT">EVENT</option>
+                      <option value="CAMPAIGN">CAMPAIGN</option>
+                    </select>
+                    <input
+                      value={reviewDraft.title}
+                      onChange={(e) => setReviewDraft({ ...reviewDraft, title: e.target.value })}
+                      placeholder="title"
+                      required
+                    />
+                    <textarea
+                      value={reviewDraft.summary}
+                      onChange={(e) => setReviewDraft({ ...reviewDraft, summary: e.target.value })}
+                      placeholder="summary"
+                      rows={3}
+                    />
+                    <label>
+                      Start{" "}
+                      <input
+                        type="datetime-local"
+                        value={reviewDraft.start}
+                        onChange={(e) => setReviewDraft({ ...reviewDraft, start: e.target.value })}
+                      />
+                    </label>
+                    <label>
+                      End{" "}
+                      <input
+                        type="datetime-local"
+                        value={reviewDraft.end}
+                        onChange={(e) => setReviewDraft({ ...reviewDraft, end: e.target.value })}
+                      />
+                    </label>
+                    <div className="row">
+                      <button type="submit">Save and approve</button>
+                      <button type="button" onClick={() => setReviewDraft(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="stack">
+                    <span>
+                      {item.type} | {item.title}
+                    </span>
+                    <span>
+                      {formatDate(item.startAtUtc)} ~ {formatDate(item.endAtUtc)} ({item.regionTimezone})
+                    </span>
+                    <span className="muted">{item.summary ?? "(no summary)"}</span>
+                    <span className="muted">
+                      confidence={item.confidence.toFixed(2)}
+                      {item.lockedFields.length > 0 ? ` | locked: ${item.lockedFields.join(", ")}` : ""}
+                    </span>
+                    <div className="row">
+                      <button onClick={() => void onDecideReview([item.id], "APPROVE")}>Approve</button>
+                      <button onClick={() => onEditReview(item)}>Edit and approve</button>
+                      <button onClick={() => void onDecideReview([item.id], "REJECT")}>Reject</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+          {reviewItems.length === 0 ? <li>No events waiting for review.</li> : null}
+        </ul>
+      </div>
+
+      <div className="panel full-width">
+        <h3>Merge / Split Events</h3>
+        <p className="muted">
+          Merging hides the duplicates and moves their notices and sent alerts to the surviving event. Splitting moves the
+          selected notices to a new event.
+        </p>
+        <form className="row" onSubmit={onMergeEvents}>
+          <input value={mergeTargetId} onChange={(e) => setMergeTargetId(e.target.value)} placeholder="surviving event id" required />
+          <input
+            value={mergeDuplicateIds}
+            onChange={(e) => setMergeDuplicateIds(e.target.value)}
+            placeholder="duplicate event ids (comma separated)"
+            required
+          />
+          <button type="submit">Merge</button>
+        </form>
+        <form className="row" onSubmit={onLoadEventNotices}>
+          <input value={splitEventId} onChange={(e) => setSplitEventId(e.target.value)} placeholder="event id" required />
+          <button type="submit">Show notices</button>
+        </form>
+        {eventNotices ? (
+          <>
+            <ul className="simple-list">
+              {eventNotices.items.map((notice) => (
+                <li key={notice.id}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={splitSelection.includes(notice.id)}
+                      onChange={(e) =>
+                        setSplitSelection((current) =>
+                          e.target.checked ? [...current, notice.id] : current.filter((id) => id !== notice.id)
+                        )
+                      }
+                    />{" "}
+                    #{notice.id} {notice.title} | source #{notice.sourceId} | {notice.matchReason ?? "-"} |{" "}
+                    {formatDate(notice.publishedAt)}
+                  </label>
+                </li>
+              ))}
+              {eventNotices.items.length === 0 ? <li>No notices linked to event #{eventNotices.eventId}.</li> : null}
+            </ul>
+            <button disabled={splitSelection.length === 0} onClick={() => void onSplitEvent()}>
+              Split selected into a new event
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      <div className="panel full-width">
+        <h3>Locked Field Conflicts</h3>
+        <p className="muted">Fields edited by an admin are locked; ingest keeps them and reports differing notice data here.</p>
+        <ul className="simple-list">
+          {conflicts.map((conflict) => {
+            const resolve = (action: "KEEP" | "ACCEPT") =>
+              void resolveEventConflict(token, conflict.id, action)
+                .then(() => load())
+                .then(() => setMessage(`Conflict ${conflict.id} ${action === "KEEP" ? "kept" : "accepted"}`))
+                .catch((err) => setMessage(isApiError(err) ? err.message : "Resolve failed"));
+
+            return (
+              <li key={conflict.id}>
+                <div className="stack">
+                  <span>
+                    #{conflict.eventId} {conflict.eventTitle} [{conflict.gameName} {conflict.regionCode}] | {conflict.field}
+                  </span>
+                  <span className="muted">
+                    locked: {conflict.lockedValue ?? "-"} | incoming: {conflict.incomingValue ?? "-"} | {formatDate(conflict.updatedAt)}
+                  </span>
+                </div>
+                <div className="row">
+                  <button onClick={() => resolve("KEEP")}>Keep locked</button>
+                  <button onClick={() => resolve("ACCEPT")}>Accept incoming</button>
+                </div>
+              </li>
+            );
+          })}
+          {conflicts.length === 0 ? <li>No open conflicts.</li> : null}
+        </ul>
+      </div>
+
       <div className="panel full-width">
         <h3>Raw Notice Errors</h3>
         <ul className="simple-list">
@@ -238,7 +1067,9 @@ export function AdminPage({ token }: { token: string | null }) {
               <button
                 onClick={() =>
                   void reparseRawNotice(token, Number(notice.id))
-                    .then(() => setMessage(`Reparse queued for raw notice ${String(notice.id)}`))
+                    .then((result) =>
+                      setMessage(`Reparsed raw notice ${String(notice.id)} into ${result.eventIds.length} event(s)`)
+                    )
                     .catch((err) => setMessage(isApiError(err) ? err.message : "Reparse failed"))
                 }
               >
@@ -250,6 +1081,31 @@ export function AdminPage({ token }: { token: string | null }) {
         </ul>
       </div>
 
+      <div className="panel full-width">
+        <h3>Dead-lettered Notifications</h3>
+        <ul className="simple-list">
+          {deadLetters.map((item) => (
+            <li key={item.id}>
+              <span>
+                {formatDate(item.deadAt)} | {item.channel} | {item.eventTitle} | {item.userEmail ?? `user #${item.userId}`} |
+                attempts={item.attemptCount} | {item.lastError ?? "-"}
+              </span>
+              <button
+                onClick={() =>
+                  void requeueSchedule(token, item.id)
+                    .then(() => load())
+                    .then(() => setMessage(`Schedule ${item.id} requeued`))
+                    .catch((err) => setMessage(isApiError(err) ? err.message : "Requeue failed"))
+                }
+              >
+                Requeue
+              </button>
+            </li>
+          ))}
+          {deadLetters.length === 0 ? <li>No dead-lettered notifications.</li> : null}
+        </ul>
+      </div>
+
       <div className="panel full-width">
         <h3>Ingest Runs</h3>
         <ul className="simple-list">
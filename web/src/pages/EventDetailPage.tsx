@@ -1,11 +1,31 @@
 ﻿import { useEffect, useState } from "react";
 import { Link, useParams } from "react-router-dom";
-import { createNotificationRule, EventItem, getEventById, isApiError } from "../api";
+import { createNotificationRule, EventItem, EventRevision, getEventById, getEventRevisions, isApiError } from "../api";
 import { EventBadge, formatDate } from "../ui";
 
+const sourceLabels: Record<EventRevision["source"], string> = {
+  INGEST: "Notice updated",
+  REPARSE: "Reparsed",
+  ADMIN: "Edited by admin"
+};
+
+const fieldLabels: Record<EventRevision["changes"][number]["field"], string> = {
+  type: "Type",
+  title: "Title",
+  summary: "Summary",
+  startAtUtc: "Start",
+  endAtUtc: "End"
+};
+
+function formatChangeValue(field: EventRevision["changes"][number]["field"], value: string | null) {
+  if (field === "startAtUtc" || field === "endAtUtc") return formatDate(value);
+  return value ?? "(none)";
+}
+
 export function EventDetailPage({ token }: { token: string | null }) {
   const { eventId } = useParams();
   const [event, setEvent] = useState<EventItem | null>(null);
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
@@ -20,9 +40,14 @@ export function EventDetailPage({ token }: { token: string | null }) {
       .then(setEvent)
       .catch((err) => setError(isApiError(err) ? err.message : "Failed to load event"))
       .finally(() => setLoading(false));
+
+    // The change log is secondary; the page still renders when it fails to load.
+    getEventRevisions(Number(eventId), token ?? undefined)
+      .then(setRevisions)
+      .catch(() => setRevisions([]));
   }, [eventId, token]);
 
-  const addQuickRule = async (kind: "start" | "end24") => {
+  const addQuickRule = async (kind: "start" | "end24" | "change") => {
     if (!token || !event) {
       setMessage("Login required.");
       return;
@@ -37,6 +62,14 @@ export function EventDetailPage({ token }: { token: string | null }) {
           channel: "WEBPUSH",
           enabled: true
         });
+      } else if (kind === "change") {
+        await createNotificationRule(token, {
+          scope: "GLOBAL",
+          eventType: event.type,
+          trigger: "ON_CHANGE",
+          channel: "WEBPUSH",
+          enabled: true
+        });
       } else {
         await createNotificationRule(token, {
           scope: "GLOBAL",
@@ -87,8 +120,32 @@ export function EventDetailPage({ token }: { token: string | null }) {
       <div className="quick-actions">
         <button onClick={() => void addQuickRule("start")}>Alert on start</button>
         <button onClick={() => void addQuickRule("end24")}>Alert 24h before end</button>
+        <button onClick={() => void addQuickRule("change")}>Alert on time change</button>
       </div>
       {message ? <p className="muted">{message}</p> : null}
+
+      {revisions.length > 0 ? (
+        <div className="change-log">
+          <h3>Change log</h3>
+          <ul className="simple-list">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <div className="stack">
+                  <span className="muted">
+                    {formatDate(revision.createdAt)} | {sourceLabels[revision.source]}
+                  </span>
+                  {revision.changes.map((change) => (
+                    <span key={change.field}>
+                      {fieldLabels[change.field]}: {formatChangeValue(change.field, change.before)} →{" "}
+                      {formatChangeValue(change.field, change.after)}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,45 @@
+﻿import { FormEvent, useState } from "react";
+import { Link } from "react-router-dom";
+import { isApiError, requestPasswordReset } from "../api";
+
+export function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      await requestPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      setError(isApiError(err) ? err.message : "Failed to request password reset");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="auth-card">
+      <h2>Forgot password</h2>
+      {sent ? (
+        <p className="muted">If an account exists for {email}, a reset link is on its way. The link works once.</p>
+      ) : (
+        <form onSubmit={onSubmit} className="stack">
+          <input value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" type="email" required />
+          <button disabled={loading} type="submit">
+            {loading ? "Sending..." : "Send reset link"}
+          </button>
+        </form>
+      )}
+      {error ? <p className="error-text">{error}</p> : null}
+      <p className="muted">
+        <Link to="/login">Back to login</Link>
+      </p>
+    </div>
+  );
+}
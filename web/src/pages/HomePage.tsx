@@ -1,6 +1,6 @@
 import { Link } from "react-router-dom";
 import { useEffect, useMemo, useState } from "react";
-import { EventItem, getEvents, getPickupSnapshotLatest, isApiError, PickupSnapshot } from "../api";
+import { EventItem, getEvents, getPickupSnapshotLatest, isApiError, PickupSnapshot, proxiedImageUrl } from "../api";
 import { EventBadge, formatDate } from "../ui";
 
 function isTodayLocal(value: string | null | undefined) {
@@ -118,7 +118,7 @@ export function HomePage() {
                   <article className="spotlight-card" key={`${item.game}-${item.sourceUrl}`}>
                     <div className="spotlight-thumb">
                       {item.imageUrl ? (
-                        <img src={item.imageUrl} alt={item.game} loading="lazy" referrerPolicy="no-referrer" />
+                        <img src={proxiedImageUrl(item.imageUrl)} alt={item.game} loading="lazy" />
                       ) : (
                         <div className="spotlight-fallback">{item.game}</div>
                       )}
@@ -47,6 +47,9 @@ export function LoginPage() {
       <p className="muted">
         No account? <Link to="/signup">Create one</Link>
       </p>
+      <p className="muted">
+        <Link to="/forgot-password">Forgot password?</Link>
+      </p>
     </div>
   );
 }
@@ -1,23 +1,49 @@
 import { useEffect, useMemo, useState } from "react";
-import { getPickupSnapshotLatest, isApiError, PickupSnapshot } from "../api";
+import {
+  getPickupSnapshotByDate,
+  getPickupSnapshotDiff,
+  getPickupSnapshotLatest,
+  getPickupSnapshots,
+  isApiError,
+  PickupSnapshot,
+  PickupSnapshotDiff,
+  PickupSnapshotSummary,
+  proxiedImageUrl
+} from "../api";
 import { formatDate } from "../ui";
 
 export function PickupSnapshotPage() {
   const [snapshot, setSnapshot] = useState<PickupSnapshot | null>(null);
+  const [history, setHistory] = useState<PickupSnapshotSummary[]>([]);
+  const [selectedDate, setSelectedDate] = useState("");
+  const [diff, setDiff] = useState<PickupSnapshotDiff | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    getPickupSnapshots()
+      .then(setHistory)
+      .catch(() => setHistory([]));
+  }, []);
+
   useEffect(() => {
     setLoading(true);
     setError(null);
 
-    getPickupSnapshotLatest()
-      .then(setSnapshot)
+    const request = selectedDate ? getPickupSnapshotByDate(selectedDate) : getPickupSnapshotLatest();
+
+    request
+      .then((data) => {
+        setSnapshot(data);
+        return getPickupSnapshotDiff({ to: data.snapshotDate })
+          .then(setDiff)
+          .catch(() => setDiff(null));
+      })
       .catch((err) => {
         setError(isApiError(err) ? err.message : "Failed to load pickup snapshot");
       })
       .finally(() => setLoading(false));
-  }, []);
+  }, [selectedDate]);
 
   const grouped = useMemo(() => {
     const map = new Map<string, PickupSnapshot["items"]>();
@@ -47,7 +73,15 @@ export function PickupSnapshotPage() {
         <>
           <div className="panel reveal">
             <p className="meta">
-              <strong>Report:</strong> {snapshot.file}
+              <strong>Snapshot:</strong>{" "}
+              <select value={selectedDate || snapshot.snapshotDate} onChange={(e) => setSelectedDate(e.target.value)}>
+                {history.length === 0 ? <option value={snapshot.snapshotDate}>{snapshot.snapshotDate}</option> : null}
+                {history.map((entry) => (
+                  <option key={entry.snapshotDate} value={entry.snapshotDate}>
+                    {entry.snapshotDate} ({entry.itemCount})
+                  </option>
+                ))}
+              </select>
             </p>
             <p className="meta">
               <strong>Generated:</strong> {formatDate(snapshot.generatedAt)}
@@ -65,6 +99,33 @@ export function PickupSnapshotPage() {
             ) : null}
           </div>
 
+          {diff ? (
+            <div className="panel reveal">
+              <h3>
+                {diff.from} → {diff.to} 변경 사항
+              </h3>
+              <p className="meta">
+                신규 {diff.appeared.length} · 종료 {diff.disappeared.length} · 유지 {diff.unchangedCount}
+              </p>
+              <ul className="simple-list">
+                {diff.appeared.map((item) => (
+                  <li key={`added-${item.game}-${item.sourceUrl}`}>
+                    <span>
+                      + [{item.game}] {item.title}
+                    </span>
+                  </li>
+                ))}
+                {diff.disappeared.map((item) => (
+                  <li key={`removed-${item.game}-${item.sourceUrl}`}>
+                    <span className="muted">
+                      - [{item.game}] {item.title}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
           {grouped.map(([group, items]) => (
             <div className="panel reveal" key={group}>
               <h3>{group}</h3>
@@ -73,7 +134,7 @@ export function PickupSnapshotPage() {
                   <article className="spotlight-card" key={`${item.game}-${item.sourceUrl}`}>
                     <div className="spotlight-thumb">
                       {item.imageUrl ? (
-                        <img src={item.imageUrl} alt={item.title} loading="lazy" referrerPolicy="no-referrer" />
+                        <img src={proxiedImageUrl(item.imageUrl)} alt={item.title} loading="lazy" />
                       ) : (
                         <div className="spotlight-fallback">{item.game}</div>
                       )}
@@ -0,0 +1,83 @@
+﻿import { FormEvent, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { isApiError, resetPassword } from "../api";
+
+export function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await resetPassword({ token, password });
+      setDone(true);
+    } catch (err) {
+      setError(isApiError(err) ? err.message : "Password reset failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="auth-card">
+        <h2>Reset password</h2>
+        <p className="error-text">This reset link is missing its token.</p>
+        <p className="muted">
+          <Link to="/forgot-password">Request a new link</Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="auth-card">
+      <h2>Reset password</h2>
+      {done ? (
+        <p className="muted">
+          Password updated and all sessions were signed out. <Link to="/login">Login</Link>
+        </p>
+      ) : (
+        <form onSubmit={onSubmit} className="stack">
+          <input
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="New password"
+            type="password"
+            minLength={8}
+            maxLength={64}
+            required
+          />
+          <input
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Confirm new password"
+            type="password"
+            minLength={8}
+            maxLength={64}
+            required
+          />
+          <button disabled={loading} type="submit">
+            {loading ? "Saving..." : "Set new password"}
+          </button>
+        </form>
+      )}
+      {error ? <p className="error-text">{error}</p> : null}
+    </div>
+  );
+}
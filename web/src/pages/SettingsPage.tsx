@@ -1,9 +1,14 @@
 ﻿import { FormEvent, useEffect, useMemo, useState } from "react";
 import {
+  createDiscordWebhook,
   createNotificationRule,
+  deleteDiscordWebhook,
   deleteNotificationRule,
+  DiscordWebhook,
   Game,
+  getDiscordWebhooks,
   getGames,
+  getMe,
   getMyGames,
   getMySchedules,
   getNotificationRules,
@@ -11,17 +16,38 @@ import {
   NotificationRule,
   NotificationSchedule,
   removeMyGame,
+  resendVerificationEmail,
   saveMyGame,
+  testDiscordWebhook,
+  updateDiscordWebhook,
+  updatePreferences,
   UserGame
 } from "../api";
+import { useAuth } from "../auth";
+import { enableWebPush, isPushSupported } from "../push";
 import { formatDate } from "../ui";
 
 export function SettingsPage({ token }: { token: string | null }) {
+  const { user, logoutEverywhere } = useAuth();
   const [games, setGames] = useState<Game[]>([]);
   const [myGames, setMyGames] = useState<UserGame[]>([]);
   const [rules, setRules] = useState<NotificationRule[]>([]);
   const [schedules, setSchedules] = useState<NotificationSchedule[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [pushMessage, setPushMessage] = useState<string | null>(null);
+  const [webhooks, setWebhooks] = useState<DiscordWebhook[]>([]);
+  const [newWebhookUrl, setNewWebhookUrl] = useState("");
+  const [newWebhookLabel, setNewWebhookLabel] = useState("");
+  const [webhookMessage, setWebhookMessage] = useState<string | null>(null);
+
+  const [timezone, setTimezone] = useState("");
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState("23:00");
+  const [quietEnd, setQuietEnd] = useState("07:00");
+  const [digestEnabled, setDigestEnabled] = useState(false);
+  const [digestWindow, setDigestWindow] = useState("60");
+  const [preferencesMessage, setPreferencesMessage] = useState<string | null>(null);
+  const [accountMessage, setAccountMessage] = useState<string | null>(null);
 
   const [newRuleType, setNewRuleType] = useState<NotificationRule["eventType"]>("PICKUP");
   const [newRuleTrigger, setNewRuleTrigger] = useState<NotificationRule["trigger"]>("ON_START");
@@ -34,17 +60,26 @@ export function SettingsPage({ token }: { token: string | null }) {
     if (!token) return;
 
     try {
-      const [gamesData, myGamesData, rulesData, schedulesData] = await Promise.all([
+      const [me, gamesData, myGamesData, rulesData, schedulesData, webhooksData] = await Promise.all([
+        getMe(token),
         getGames(),
         getMyGames(token),
         getNotificationRules(token),
-        getMySchedules(token)
+        getMySchedules(token),
+        getDiscordWebhooks(token)
       ]);
 
+      setTimezone(me.timezone);
+      setQuietEnabled(Boolean(me.quietHoursStart && me.quietHoursEnd));
+      setQuietStart(me.quietHoursStart ?? "23:00");
+      setQuietEnd(me.quietHoursEnd ?? "07:00");
+      setDigestEnabled(me.digestEnabled ?? false);
+      setDigestWindow(String(me.digestWindowMinutes ?? 60));
       setGames(gamesData);
       setMyGames(myGamesData);
       setRules(rulesData);
       setSchedules(schedulesData);
+      setWebhooks(webhooksData);
       setError(null);
     } catch (err) {
       setError(isApiError(err) ? err.message : "Failed to load settings");
@@ -90,6 +125,78 @@ export function SettingsPage({ token }: { token: string | null }) {
     }
   };
 
+  const onEnablePush = async () => {
+    try {
+      await enableWebPush(token);
+      setPushMessage("Browser push enabled for this device.");
+    } catch (err) {
+      setPushMessage(err instanceof Error ? err.message : "Failed to enable browser push");
+    }
+  };
+
+  const onSavePreferences = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    try {
+      await updatePreferences(token, {
+        timezone: timezone.trim(),
+        quietHoursStart: quietEnabled ? quietStart : null,
+        quietHoursEnd: quietEnabled ? quietEnd : null,
+        digestEnabled,
+        digestWindowMinutes: Number(digestWindow)
+      });
+      setPreferencesMessage("Preferences saved. Schedules were rebuilt.");
+      await loadData();
+    } catch (err) {
+      setPreferencesMessage(isApiError(err) ? err.message : "Failed to save preferences");
+    }
+  };
+
+  const onAddWebhook = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    try {
+      await createDiscordWebhook(token, {
+        url: newWebhookUrl.trim(),
+        ...(newWebhookLabel.trim() ? { label: newWebhookLabel.trim() } : {})
+      });
+      setNewWebhookUrl("");
+      setNewWebhookLabel("");
+      setWebhookMessage(null);
+      await loadData();
+    } catch (err) {
+      setWebhookMessage(isApiError(err) ? err.message : "Failed to add webhook");
+    }
+  };
+
+  const onToggleWebhook = async (webhook: DiscordWebhook) => {
+    try {
+      await updateDiscordWebhook(token, webhook.id, { enabled: !webhook.enabled });
+      await loadData();
+    } catch (err) {
+      setWebhookMessage(isApiError(err) ? err.message : "Failed to update webhook");
+    }
+  };
+
+  const onTestWebhook = async (webhookId: number) => {
+    try {
+      await testDiscordWebhook(token, webhookId);
+      setWebhookMessage("Test message sent.");
+    } catch (err) {
+      setWebhookMessage(isApiError(err) ? err.message : "Failed to send test message");
+    }
+    await loadData();
+  };
+
+  const onDeleteWebhook = async (webhookId: number) => {
+    try {
+      await deleteDiscordWebhook(token, webhookId);
+      await loadData();
+    } catch (err) {
+      setWebhookMessage(isApiError(err) ? err.message : "Failed to delete webhook");
+    }
+  };
+
   const onDeleteRule = async (ruleId: number) => {
     try {
       await deleteNotificationRule(token, ruleId);
@@ -141,6 +248,7 @@ export function SettingsPage({ token }: { token: string | null }) {
             <option value="BEFORE_END">BEFORE_END</option>
             <option value="BEFORE_START">BEFORE_START</option>
             <option value="ON_PUBLISH">ON_PUBLISH</option>
+            <option value="ON_CHANGE">ON_CHANGE</option>
           </select>
           {newRuleTrigger.includes("BEFORE") ? (
             <input
@@ -172,6 +280,74 @@ export function SettingsPage({ token }: { token: string | null }) {
         </ul>
       </div>
 
+      <div className="panel">
+        <h3>Delivery Preferences</h3>
+        <form className="stack" onSubmit={onSavePreferences}>
+          <input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="Timezone (e.g. Asia/Seoul)" required />
+          <label className="row">
+            <input type="checkbox" checked={quietEnabled} onChange={(e) => setQuietEnabled(e.target.checked)} />
+            <span>Quiet hours (delivery waits until they end)</span>
+          </label>
+          {quietEnabled ? (
+            <div className="row">
+              <input type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} required />
+              <span>~</span>
+              <input type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} required />
+            </div>
+          ) : null}
+          <label className="row">
+            <input type="checkbox" checked={digestEnabled} onChange={(e) => setDigestEnabled(e.target.checked)} />
+            <span>Digest mode (one message per channel per window)</span>
+          </label>
+          {digestEnabled ? (
+            <select value={digestWindow} onChange={(e) => setDigestWindow(e.target.value)}>
+              <option value="30">Every 30 minutes</option>
+              <option value="60">Every hour</option>
+              <option value="180">Every 3 hours</option>
+              <option value="360">Every 6 hours</option>
+              <option value="1440">Once a day</option>
+            </select>
+          ) : null}
+          <button type="submit">Save preferences</button>
+        </form>
+        {preferencesMessage ? <p className="muted">{preferencesMessage}</p> : null}
+      </div>
+
+      <div className="panel">
+        <h3>Browser Push</h3>
+        <p className="muted">WEBPUSH rules are delivered to every browser you enable here.</p>
+        <button disabled={!isPushSupported()} onClick={() => void onEnablePush()}>
+          Enable push on this device
+        </button>
+        {pushMessage ? <p className="muted">{pushMessage}</p> : null}
+      </div>
+
+      <div className="panel">
+        <h3>Account</h3>
+        <p className="muted">
+          {user?.email} | {user?.emailVerified ? "email verified" : "email not verified (EMAIL rules are not delivered)"}
+        </p>
+        {user && !user.emailVerified ? (
+          <button
+            onClick={() =>
+              void resendVerificationEmail(token)
+                .then(() => setAccountMessage("Verification email sent."))
+                .catch((err) => setAccountMessage(isApiError(err) ? err.message : "Failed to send verification email"))
+            }
+          >
+            Resend verification email
+          </button>
+        ) : null}
+        <button
+          onClick={() =>
+            void logoutEverywhere().catch((err) => setAccountMessage(isApiError(err) ? err.message : "Failed to log out everywhere"))
+          }
+        >
+          Log out everywhere
+        </button>
+        {accountMessage ? <p className="muted">{accountMessage}</p> : null}
+      </div>
+
       <div className="panel full-width">
         <h3>Upcoming Notification Schedules</h3>
         <ul className="simple-list">
@@ -0,0 +1,47 @@
+﻿import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "../auth";
+import { isApiError, verifyEmail } from "../api";
+
+export function VerifyEmailPage() {
+  const { user, refreshMe } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [status, setStatus] = useState<"pending" | "verified" | "failed">("pending");
+  const [error, setError] = useState<string | null>(null);
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit the same one twice (e.g. StrictMode double effects).
+    if (submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    if (!token) {
+      setStatus("failed");
+      setError("This verification link is missing its token.");
+      return;
+    }
+
+    verifyEmail(token)
+      .then(async () => {
+        setStatus("verified");
+        if (user) await refreshMe();
+      })
+      .catch((err) => {
+        setStatus("failed");
+        setError(isApiError(err) ? err.message : "Verification failed");
+      });
+  }, [token]);
+
+  return (
+    <div className="auth-card">
+      <h2>Verify email</h2>
+      {status === "pending" ? <p className="muted">Verifying...</p> : null}
+      {status === "verified" ? <p className="muted">Your email is verified. EMAIL notifications are now enabled.</p> : null}
+      {error ? <p className="error-text">{error}</p> : null}
+      <p className="muted">
+        <Link to={user ? "/settings" : "/login"}>{user ? "Back to settings" : "Go to login"}</Link>
+      </p>
+    </div>
+  );
+}
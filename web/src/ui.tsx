@@ -1,5 +1,5 @@
 ﻿import { Link, NavLink } from "react-router-dom";
-import { EventItem, User } from "./api";
+import { EventItem, proxiedImageUrl, User } from "./api";
 
 export function formatDate(value?: string | null) {
   if (!value) return "TBD";
@@ -26,7 +26,7 @@ export function EventCard({ item }: { item: EventItem }) {
       <Link to={`/events/${item.id}`}>
         {item.imageUrl ? (
           <div className="event-image-wrap">
-            <img src={item.imageUrl} alt={item.title} loading="lazy" />
+            <img src={proxiedImageUrl(item.imageUrl)} alt={item.title} loading="lazy" />
           </div>
         ) : null}
         <div className="event-head">
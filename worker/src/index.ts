@@ -30,9 +30,10 @@ async function tick() {
   try {
     const ingest = await postJson("/api/admin/ingest/run-due");
     const dispatch = await postJson("/api/admin/notifications/dispatch-due", "?limit=200");
+    const reparse = await postJson("/api/admin/reparse-jobs/run-next", "?limit=25");
 
     console.log(
-      `[worker] ${startedAt} ingest=${ingest.processedSources ?? 0} dispatchPicked=${dispatch.picked ?? 0} sent=${dispatch.sent ?? 0} failed=${dispatch.failed ?? 0}`
+      `[worker] ${startedAt} ingest=${ingest.processedSources ?? 0} dispatchPicked=${dispatch.picked ?? 0} sent=${dispatch.sent ?? 0} failed=${dispatch.failed ?? 0} dead=${dispatch.dead ?? 0} reaped=${dispatch.reaped ?? 0} reparsed=${reparse.processed ?? 0}`
     );
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown worker error";